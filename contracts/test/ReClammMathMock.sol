@@ -107,6 +107,40 @@ contract ReClammMathMock {
         );
     }
 
+    function computeVirtualBalancesUpdatingPriceRatio(
+        uint256 currentFourthRootPriceRatio,
+        uint256[] memory balancesScaled18,
+        uint256[] memory lastVirtualBalances
+    ) external pure returns (uint256[] memory virtualBalances) {
+        virtualBalances = new uint256[](2);
+        (virtualBalances[a], virtualBalances[b]) = ReClammMath.computeVirtualBalancesUpdatingPriceRatio(
+            currentFourthRootPriceRatio,
+            balancesScaled18,
+            lastVirtualBalances[a],
+            lastVirtualBalances[b]
+        );
+    }
+
+    function computeVirtualBalancesUpdatingPriceRange(
+        uint256[] memory balancesScaled18,
+        uint256[] memory virtualBalances,
+        bool isPoolAboveCenter,
+        uint256 dailyPriceShiftBase,
+        uint32 currentTimestamp,
+        uint32 lastTimestamp
+    ) external pure returns (uint256[] memory newVirtualBalances) {
+        newVirtualBalances = new uint256[](2);
+        (newVirtualBalances[a], newVirtualBalances[b]) = ReClammMath.computeVirtualBalancesUpdatingPriceRange(
+            balancesScaled18,
+            virtualBalances[a],
+            virtualBalances[b],
+            isPoolAboveCenter,
+            dailyPriceShiftBase,
+            currentTimestamp,
+            lastTimestamp
+        );
+    }
+
     function isPoolWithinTargetRange(
         uint256[] memory balancesScaled18,
         uint256[] memory virtualBalances,
@@ -173,6 +207,10 @@ contract ReClammMathMock {
         return ReClammMath.sqrtScaled18(value);
     }
 
+    function fourthRootScaled18(uint256 value) external pure returns (uint256) {
+        return ReClammMath.fourthRootScaled18(value);
+    }
+
     function computePriceRange(
         uint256[] memory balancesScaled18,
         uint256 virtualBalanceA,
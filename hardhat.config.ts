@@ -1,4 +1,5 @@
-import { HardhatUserConfig } from 'hardhat/config';
+import * as fs from 'fs';
+import { HardhatUserConfig, task, types } from 'hardhat/config';
 import { name } from './package.json';
 
 import * as hardhatBaseConfig from './lib/balancer-v3-monorepo/pvt/common/hardhat-base-config';
@@ -12,6 +13,104 @@ import 'hardhat-ignore-warnings';
 import 'hardhat-gas-reporter';
 import 'hardhat-contract-sizer';
 
+import {
+  DEFAULT_GAS_REGRESSION_THRESHOLD,
+  DEFAULT_GAS_SNAPSHOTS_DIR,
+  diffGasSnapshots,
+  formatGasSnapshotDiffJSON,
+  formatGasSnapshotDiffMarkdown,
+  loadGasSnapshots,
+  loadGasSnapshotsFromGit,
+} from './tasks/gasSnapshotDiff';
+import { formatPoolReportJSON, formatPoolReportText, inspectPool } from './tasks/reClammInspect';
+import { createPool, deployFactory } from './tasks/reClammTasks';
+
+task('reclamm:deploy-factory', 'Deploys a ReClammPoolFactory from the factory section of a ReClamm config')
+  .addParam('configFile', 'Path to the JSON config')
+  .setAction(async (args: { configFile: string }, hre) => {
+    const factory = await deployFactory(hre, args.configFile);
+    console.log(`ReClammPoolFactory deployed at ${factory}`);
+
+    return factory;
+  });
+
+task('reclamm:create-pool', 'Creates a ReClamm pool from the pool section of a ReClamm config')
+  .addParam('configFile', 'Path to the JSON config')
+  .addOptionalParam('factory', 'Factory address; defaults to factory.address in the config')
+  .addFlag('initialize', 'Initialize the pool with the amounts of pool.initialization')
+  .setAction(async (args: { configFile: string; factory?: string; initialize: boolean }, hre) => {
+    const { pool, createTxHash, initialization } = await createPool(hre, args.configFile, {
+      factory: args.factory,
+      initialize: args.initialize,
+    });
+    console.log(`ReClamm pool deployed at ${pool} (tx: ${createTxHash})`);
+    if (initialization !== undefined) {
+      const { initialBalancesRaw, txHash } = initialization;
+      console.log(`Pool initialized with ${initialBalancesRaw.join(', ')} (tx: ${txHash})`);
+    }
+
+    return pool;
+  });
+
+task('reclamm:inspect', 'Prints a report of the state of a ReClamm pool')
+  .addParam('pool', 'Pool address')
+  .addOptionalParam('format', 'Output format: text or json', 'text')
+  .setAction(async (args: { pool: string; format: string }, hre) => {
+    if (args.format != 'text' && args.format != 'json') {
+      throw new Error(`Unsupported format: ${args.format}`);
+    }
+
+    const report = await inspectPool(hre, args.pool);
+    const output = args.format == 'json' ? formatPoolReportJSON(report) : formatPoolReportText(report);
+    console.log(output);
+
+    return output;
+  });
+
+task('reclamm:gas-diff', 'Compares gas snapshots with a previous set, and fails on regressions above a threshold')
+  .addOptionalParam('previous', 'Directory of the previous snapshots; defaults to the snapshots committed at baseRef')
+  .addOptionalParam('baseRef', 'Git ref of the previous snapshots', 'HEAD')
+  .addOptionalParam('current', 'Directory of the new snapshots', DEFAULT_GAS_SNAPSHOTS_DIR)
+  .addOptionalParam(
+    'threshold',
+    'Maximum gas increase per scenario, in percent',
+    DEFAULT_GAS_REGRESSION_THRESHOLD,
+    types.float
+  )
+  .addOptionalParam('markdownFile', 'Path of the Markdown report')
+  .addOptionalParam('jsonFile', 'Path of the JSON report')
+  .setAction(
+    async (args: {
+      previous?: string;
+      baseRef: string;
+      current: string;
+      threshold: number;
+      markdownFile?: string;
+      jsonFile?: string;
+    }) => {
+      const previous =
+        args.previous === undefined
+          ? loadGasSnapshotsFromGit(args.baseRef, args.current)
+          : loadGasSnapshots(args.previous);
+      const diff = diffGasSnapshots(previous, loadGasSnapshots(args.current), args.threshold);
+
+      const markdown = formatGasSnapshotDiffMarkdown(diff);
+      if (args.markdownFile !== undefined) {
+        fs.writeFileSync(args.markdownFile, markdown);
+      }
+      if (args.jsonFile !== undefined) {
+        fs.writeFileSync(args.jsonFile, formatGasSnapshotDiffJSON(diff));
+      }
+      console.log(markdown);
+
+      if (diff.passed == false) {
+        throw new Error(`${diff.regressions} gas regression(s) above ${diff.threshold}%`);
+      }
+
+      return diff;
+    }
+  );
+
 const overrides = {
   ['contracts/ReClammPool.sol']: {
     version: '0.8.27',
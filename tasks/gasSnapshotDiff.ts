@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+
+export const DEFAULT_GAS_SNAPSHOTS_DIR = 'test/gas/.hardhat-snapshots';
+
+// Percentage increase of a scenario above which the diff fails.
+export const DEFAULT_GAS_REGRESSION_THRESHOLD = 1;
+
+// Gas used by every scenario, by snapshot name.
+export type GasSnapshots = Record<string, number>;
+
+export type GasSnapshotStatus = 'added' | 'removed' | 'increased' | 'decreased' | 'unchanged';
+
+export type GasSnapshotChange = {
+  scenario: string;
+  status: GasSnapshotStatus;
+  previousGas?: number;
+  currentGas?: number;
+  // Only defined for scenarios present in both snapshot sets.
+  change?: number;
+  percentageChange?: number;
+  // True if the gas increased by more than the threshold.
+  isRegression: boolean;
+};
+
+export type GasSnapshotDiff = {
+  // Percentage, as a plain number (e.g., 1 is 1%).
+  threshold: number;
+  // Sorted by scenario name.
+  changes: GasSnapshotChange[];
+  regressions: number;
+  added: number;
+  removed: number;
+  passed: boolean;
+};
+
+/**
+ * Reads a directory of snapshots written by `saveSnap`: one file per scenario, named after it and holding the gas used
+ * in thousands (e.g., `203.7k`).
+ */
+export function loadGasSnapshots(dir: string): GasSnapshots {
+  const snapshots: GasSnapshots = {};
+
+  for (const scenario of fs.readdirSync(dir).sort()) {
+    const filePath = path.join(dir, scenario);
+    if (fs.statSync(filePath).isFile()) {
+      snapshots[scenario] = parseGasSnapshot(fs.readFileSync(filePath, 'utf8'), scenario);
+    }
+  }
+
+  return snapshots;
+}
+
+/**
+ * Reads the snapshots committed at a git ref (e.g., `HEAD` or `main`), since `saveSnap` overwrites the files in the
+ * working tree. The directory is relative to the current working directory.
+ */
+export function loadGasSnapshotsFromGit(ref: string, dir: string): GasSnapshots {
+  const snapshots: GasSnapshots = {};
+  const gitDir = `${dir.replace(/\/+$/, '')}/`;
+
+  const filePaths = execFileSync('git', ['ls-tree', '-z', '--name-only', ref, gitDir], { encoding: 'utf8' })
+    .split('\0')
+    .filter((filePath) => filePath != '');
+
+  for (const filePath of filePaths.sort()) {
+    const scenario = path.basename(filePath);
+    const content = execFileSync('git', ['show', `${ref}:./${filePath}`], { encoding: 'utf8' });
+    snapshots[scenario] = parseGasSnapshot(content, scenario);
+  }
+
+  return snapshots;
+}
+
+/**
+ * Compares two snapshot sets. Scenarios whose gas increased by more than `threshold` percent are regressions, and make
+ * the diff fail; added and removed scenarios are reported, but do not fail it.
+ */
+export function diffGasSnapshots(
+  previous: GasSnapshots,
+  current: GasSnapshots,
+  threshold = DEFAULT_GAS_REGRESSION_THRESHOLD
+): GasSnapshotDiff {
+  const scenarios = [...new Set([...Object.keys(previous), ...Object.keys(current)])].sort();
+
+  const changes = scenarios.map((scenario): GasSnapshotChange => {
+    const previousGas = previous[scenario];
+    const currentGas = current[scenario];
+
+    if (previousGas === undefined) {
+      return { scenario, status: 'added', currentGas, isRegression: false };
+    }
+    if (currentGas === undefined) {
+      return { scenario, status: 'removed', previousGas, isRegression: false };
+    }
+
+    const change = currentGas - previousGas;
+    const percentageChange = previousGas == 0 ? 0 : (change / previousGas) * 100;
+    let status: GasSnapshotStatus = 'unchanged';
+    if (change > 0) {
+      status = 'increased';
+    } else if (change < 0) {
+      status = 'decreased';
+    }
+
+    return {
+      scenario,
+      status,
+      previousGas,
+      currentGas,
+      change,
+      percentageChange,
+      isRegression: percentageChange > threshold,
+    };
+  });
+
+  const regressions = changes.filter((change) => change.isRegression).length;
+
+  return {
+    threshold,
+    changes,
+    regressions,
+    added: changes.filter((change) => change.status == 'added').length,
+    removed: changes.filter((change) => change.status == 'removed').length,
+    passed: regressions == 0,
+  };
+}
+
+export function formatGasSnapshotDiffJSON(diff: GasSnapshotDiff): string {
+  return JSON.stringify(diff, null, 2);
+}
+
+/**
+ * Formats the diff as a Markdown report: a summary, followed by a table of the scenarios that changed (regressions
+ * first), and the list of the unchanged ones.
+ */
+export function formatGasSnapshotDiffMarkdown(diff: GasSnapshotDiff): string {
+  const lines = [
+    '## Gas snapshot diff',
+    '',
+    `${diff.passed ? 'Passed' : 'Failed'}: ${diff.regressions} regression(s) above ${diff.threshold}%, ` +
+      `${diff.added} scenario(s) added, ${diff.removed} removed.`,
+  ];
+
+  const changed = diff.changes
+    .filter((change) => change.status != 'unchanged')
+    .sort((a, b) => Number(b.isRegression) - Number(a.isRegression));
+
+  if (changed.length > 0) {
+    lines.push('', '| Scenario | Previous | Current | Change | % |', '| --- | ---: | ---: | ---: | ---: |');
+
+    for (const change of changed) {
+      lines.push(
+        `| ${formatScenario(change)} | ${formatGas(change.previousGas)} | ${formatGas(change.currentGas)} | ` +
+          `${formatSigned(change.change)} | ${formatPercentageChange(change.percentageChange)} |`
+      );
+    }
+  }
+
+  const unchanged = diff.changes.filter((change) => change.status == 'unchanged');
+  if (unchanged.length > 0) {
+    lines.push('', `<details><summary>${unchanged.length} unchanged scenario(s)</summary>`, '');
+    lines.push(...unchanged.map((change) => `- ${escapeMarkdown(change.scenario)} (${formatGas(change.currentGas)})`));
+    lines.push('', '</details>');
+  }
+
+  return lines.join('\n');
+}
+
+function parseGasSnapshot(content: string, scenario: string): number {
+  const match = /^\s*([\d.]+)\s*([kM]?)\s*$/.exec(content);
+  if (match === null) {
+    throw new Error(`Invalid gas snapshot: ${scenario}`);
+  }
+
+  const multiplier = match[2] == 'M' ? 1e6 : match[2] == 'k' ? 1e3 : 1;
+  return Math.round(Number(match[1]) * multiplier);
+}
+
+function formatScenario(change: GasSnapshotChange): string {
+  const scenario = escapeMarkdown(change.scenario);
+
+  if (change.isRegression) {
+    return `:warning: ${scenario}`;
+  } else if (change.status == 'added' || change.status == 'removed') {
+    return `${scenario} (${change.status})`;
+  }
+  return scenario;
+}
+
+// Scenario names contain brackets, which are escaped so that Markdown does not read them as links.
+function escapeMarkdown(text: string): string {
+  return text.replace(/([[\]|])/g, '\\$1');
+}
+
+function formatGas(gas?: number): string {
+  return gas === undefined ? '-' : gas.toLocaleString('en-US');
+}
+
+function formatSigned(value?: number): string {
+  if (value === undefined) {
+    return '-';
+  }
+  return value > 0 ? `+${formatGas(value)}` : formatGas(value);
+}
+
+function formatPercentageChange(percentageChange?: number): string {
+  if (percentageChange === undefined) {
+    return '-';
+  }
+  return `${percentageChange > 0 ? '+' : ''}${percentageChange.toFixed(2)}%`;
+}
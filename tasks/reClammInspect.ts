@@ -0,0 +1,214 @@
+import { formatUnits } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { FP_ONE, fpDivDown } from '@balancer-labs/v3-helpers/src/numbers';
+import { pow4 } from '../test/utils/reClammMath';
+import { ReClammPoolState } from '../test/utils/reClammPoolState';
+
+const ERC20_ABI = ['function symbol() view returns (string)'];
+
+export type PriceRatioUpdateStatus = 'none' | 'scheduled' | 'updating';
+
+export type ReClammPoolReport = {
+  pool: string;
+  blockNumber: number;
+  timestamp: bigint;
+  tokenSymbols: string[];
+  state: ReClammPoolState;
+  // Only available once the pool is initialized.
+  derived?: {
+    // Prices of token A in terms of token B, like the pool views.
+    minPrice: bigint;
+    maxPrice: bigint;
+    spotPrice: bigint;
+    // Prices of token B in terms of token A.
+    inverseMinPrice: bigint;
+    inverseMaxPrice: bigint;
+    inverseSpotPrice: bigint;
+    priceRatio: bigint;
+    centeredness: bigint;
+    isPoolAboveCenter: boolean;
+    isPoolWithinTargetRange: boolean;
+    isPoolWithinTargetRangeUsingCurrentVirtualBalances: boolean;
+    priceRatioUpdate: {
+      status: PriceRatioUpdateStatus;
+      startPriceRatio: bigint;
+      endPriceRatio: bigint;
+      startTime: bigint;
+      endTime: bigint;
+      // Elapsed fraction of the update, as an 18-decimal number.
+      progress: bigint;
+    };
+    secondsSinceLastTimestamp: bigint;
+  };
+};
+
+/**
+ * Reads the pool data at the latest block and derives the values of the pool views from it. The pool forwards the
+ * extension functions, so both are called through the pool address.
+ */
+export async function inspectPool(hre: HardhatRuntimeEnvironment, poolAddress: string): Promise<ReClammPoolReport> {
+  const extension = await hre.ethers.getContractAt('ReClammPoolExtension', poolAddress);
+  const block = await hre.ethers.provider.getBlock('latest');
+  if (block === null) {
+    throw new Error('Latest block not found');
+  }
+
+  const state = ReClammPoolState.fromPoolData(
+    await extension.getReClammPoolDynamicData({ blockTag: block.number }),
+    await extension.getReClammPoolImmutableData({ blockTag: block.number })
+  );
+
+  const tokenSymbols = await Promise.all(
+    state.immutableData.tokens.map(async (token) => {
+      try {
+        return await (await hre.ethers.getContractAt(ERC20_ABI, token)).symbol();
+      } catch {
+        return token;
+      }
+    })
+  );
+
+  const report: ReClammPoolReport = {
+    pool: poolAddress,
+    blockNumber: block.number,
+    timestamp: BigInt(block.timestamp),
+    tokenSymbols,
+    state,
+  };
+
+  if (state.dynamicData.isPoolInitialized) {
+    report.derived = derivePoolValues(state, report.timestamp);
+  }
+
+  return report;
+}
+
+export function formatPoolReportJSON(report: ReClammPoolReport): string {
+  // `ReClammPoolState` serializes itself; other uints are encoded as decimal strings too.
+  return JSON.stringify(report, (_, value) => (typeof value == 'bigint' ? value.toString() : value), 2);
+}
+
+export function formatPoolReportText(report: ReClammPoolReport): string {
+  const { immutableData, dynamicData } = report.state;
+  const [symbolA, symbolB] = report.tokenSymbols;
+  const flags = [
+    dynamicData.isPoolInitialized ? 'initialized' : 'not initialized',
+    dynamicData.isPoolPaused ? 'paused' : undefined,
+    dynamicData.isPoolInRecoveryMode ? 'recovery mode' : undefined,
+  ].filter((flag) => flag !== undefined);
+
+  const lines = [
+    `ReClamm pool ${report.pool} (block ${report.blockNumber}, timestamp ${report.timestamp})`,
+    row('Status', flags.join(', ')),
+    row('Tokens', immutableData.tokens.map((token, i) => `${report.tokenSymbols[i]} (${token})`).join(', ')),
+    row('Balances (live)', dynamicData.balancesLiveScaled18.map(formatFp).join(', ')),
+    row('Last virtual balances', dynamicData.lastVirtualBalances.map(formatFp).join(', ')),
+    row('Token rates', dynamicData.tokenRates.map(formatFp).join(', ')),
+    row('Swap fee', formatPercentage(dynamicData.staticSwapFeePercentage)),
+    row('Total supply', formatFp(dynamicData.totalSupply)),
+    row('Daily price shift exp.', formatFp(dynamicData.dailyPriceShiftExponent)),
+    row('Centeredness margin', formatPercentage(dynamicData.centerednessMargin)),
+    row('Initial prices', formatInitialPrices(report)),
+  ];
+
+  const derived = report.derived;
+  if (derived !== undefined) {
+    const { priceRatioUpdate } = derived;
+
+    lines.push(
+      row(
+        'Price range',
+        `${formatFp(derived.minPrice)} - ${formatFp(derived.maxPrice)} ${symbolB} per ${symbolA}; ` +
+          `${formatFp(derived.inverseMaxPrice)} - ${formatFp(derived.inverseMinPrice)} ${symbolA} per ${symbolB}`
+      ),
+      row(
+        'Spot price',
+        `${formatFp(derived.spotPrice)} ${symbolB} per ${symbolA}; ` +
+          `${formatFp(derived.inverseSpotPrice)} ${symbolA} per ${symbolB}`
+      ),
+      row('Price ratio', formatFp(derived.priceRatio)),
+      row(
+        'Centeredness',
+        `${formatPercentage(derived.centeredness)} (${derived.isPoolAboveCenter ? 'above' : 'below'} center)`
+      ),
+      row(
+        'Target range',
+        `${derived.isPoolWithinTargetRange ? 'in range' : 'out of range'}` +
+          ` (with current virtual balances: ${
+            derived.isPoolWithinTargetRangeUsingCurrentVirtualBalances ? 'in range' : 'out of range'
+          })`
+      ),
+      row(
+        'Price ratio update',
+        priceRatioUpdate.status == 'none'
+          ? 'none'
+          : `${priceRatioUpdate.status} ${formatPercentage(priceRatioUpdate.progress)}` +
+              ` (${formatFp(priceRatioUpdate.startPriceRatio)} -> ${formatFp(priceRatioUpdate.endPriceRatio)},` +
+              ` from ${priceRatioUpdate.startTime} to ${priceRatioUpdate.endTime})`
+      ),
+      row('Last timestamp', `${dynamicData.lastTimestamp} (${derived.secondsSinceLastTimestamp} seconds ago)`)
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function derivePoolValues(state: ReClammPoolState, timestamp: bigint): ReClammPoolReport['derived'] {
+  const [minPrice, maxPrice] = state.computeCurrentPriceRange(timestamp);
+  const spotPrice = state.computeCurrentSpotPrice(timestamp);
+  const [centeredness, isPoolAboveCenter] = state.computeCurrentPoolCenteredness();
+  const [isPoolWithinTargetRangeUsingCurrentVirtualBalances] =
+    state.isPoolWithinTargetRangeUsingCurrentVirtualBalances(timestamp);
+  const { priceRatioUpdateStartTime: startTime, priceRatioUpdateEndTime: endTime } = state.dynamicData;
+
+  let status: PriceRatioUpdateStatus = 'none';
+  let progress = FP_ONE;
+  if (timestamp < startTime) {
+    status = 'scheduled';
+    progress = 0n;
+  } else if (timestamp < endTime) {
+    status = 'updating';
+    progress = fpDivDown(timestamp - startTime, endTime - startTime);
+  }
+
+  return {
+    minPrice,
+    maxPrice,
+    spotPrice,
+    inverseMinPrice: fpDivDown(FP_ONE, minPrice),
+    inverseMaxPrice: fpDivDown(FP_ONE, maxPrice),
+    inverseSpotPrice: fpDivDown(FP_ONE, spotPrice),
+    priceRatio: state.computeCurrentPriceRatio(timestamp),
+    centeredness,
+    isPoolAboveCenter,
+    isPoolWithinTargetRange: state.isPoolWithinTargetRange(),
+    isPoolWithinTargetRangeUsingCurrentVirtualBalances,
+    priceRatioUpdate: {
+      status,
+      startPriceRatio: pow4(state.dynamicData.startFourthRootPriceRatio),
+      endPriceRatio: pow4(state.dynamicData.endFourthRootPriceRatio),
+      startTime,
+      endTime,
+      progress,
+    },
+    secondsSinceLastTimestamp: timestamp - state.dynamicData.lastTimestamp,
+  };
+}
+
+function formatInitialPrices(report: ReClammPoolReport): string {
+  const { initialMinPrice, initialMaxPrice, initialTargetPrice } = report.state.immutableData;
+
+  return `${formatFp(initialMinPrice)} - ${formatFp(initialMaxPrice)}, target ${formatFp(initialTargetPrice)}`;
+}
+
+function row(label: string, value: string): string {
+  return `  ${`${label}:`.padEnd(24)}${value}`;
+}
+
+function formatFp(value: bigint): string {
+  return formatUnits(value, 18);
+}
+
+function formatPercentage(value: bigint): string {
+  return `${formatUnits(value * 100n, 18)}%`;
+}
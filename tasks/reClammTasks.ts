@@ -0,0 +1,263 @@
+import * as fs from 'fs';
+import { isAddress, ZeroAddress } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { bn, fp } from '@balancer-labs/v3-helpers/src/numbers';
+import { ensureValidCreateParams, ReClammCreateParams } from '../test/utils/createParamsValidator';
+import { planInitialization } from '../test/utils/initializationPlanner';
+
+// Bump when the config layout changes in a non backwards-compatible way.
+export const RECLAMM_CONFIG_VERSION = 1;
+
+const MAX_UINT48 = 2n ** 48n - 1n;
+
+const ERC20_ABI = ['function approve(address spender, uint256 amount) returns (bool)'];
+const PERMIT2_ABI = ['function approve(address token, address spender, uint160 amount, uint48 expiration)'];
+const ROUTER_ABI = [
+  'function initialize(address pool, address[] tokens, uint256[] exactAmountsIn, uint256 minBptAmountOut, bool wethIsEth, bytes userData) payable returns (uint256 bptAmountOut)',
+];
+
+// Fixed point values (fees, prices, exponent and margin) are decimal strings, e.g. "0.01" for 1%.
+export type ReClammDeploymentConfig = {
+  version: number;
+  factory?: {
+    // Address of an already deployed factory, used by `reclamm:create-pool` unless overridden.
+    address?: string;
+    vault: string;
+    pauseWindowDuration: number;
+    factoryVersion: string;
+    poolVersion: string;
+  };
+  pool?: {
+    name: string;
+    symbol: string;
+    // Must be sorted by address; token A is the first one.
+    tokens: {
+      address: string;
+      tokenType: 'STANDARD' | 'WITH_RATE';
+      rateProvider?: string;
+      paysYieldFees?: boolean;
+    }[];
+    roleAccounts?: {
+      pauseManager?: string;
+      swapFeeManager?: string;
+      poolCreator?: string;
+    };
+    swapFeePercentage: string;
+    hookContract?: string;
+    priceParams: {
+      initialMinPrice: string;
+      initialMaxPrice: string;
+      initialTargetPrice: string;
+      tokenAPriceIncludesRate?: boolean;
+      tokenBPriceIncludesRate?: boolean;
+    };
+    dailyPriceShiftExponent: string;
+    centerednessMargin: string;
+    salt: string;
+    initialization?: {
+      router: string;
+      permit2: string;
+      // The amount of the other token is computed by the initialization planner.
+      referenceToken: string;
+      referenceAmountRaw: string;
+      minBptAmountOut?: string;
+    };
+  };
+};
+
+type InitializationConfig = NonNullable<NonNullable<ReClammDeploymentConfig['pool']>['initialization']>;
+
+export type CreatedPool = {
+  // Address predicted by the factory, checked against the deployed pool.
+  pool: string;
+  createTxHash: string;
+  // Set only if the pool was initialized.
+  initialization?: PoolInitialization;
+};
+
+export type PoolInitialization = {
+  initialBalancesRaw: bigint[];
+  txHash: string;
+};
+
+export function loadReClammDeploymentConfig(filePath: string): ReClammDeploymentConfig {
+  const config: ReClammDeploymentConfig = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+  if (config.version != RECLAMM_CONFIG_VERSION) {
+    throw new Error(`Unsupported ReClamm config version: ${config.version} (expected ${RECLAMM_CONFIG_VERSION})`);
+  }
+
+  return config;
+}
+
+export function toCreateParams(poolConfig: NonNullable<ReClammDeploymentConfig['pool']>): ReClammCreateParams {
+  return {
+    tokens: poolConfig.tokens.map((tokenConfig) => ({
+      token: tokenConfig.address,
+      tokenType: tokenConfig.tokenType == 'WITH_RATE' ? 1 : 0,
+      rateProvider: tokenConfig.rateProvider ?? ZeroAddress,
+      paysYieldFees: tokenConfig.paysYieldFees ?? false,
+    })),
+    swapFeePercentage: fp(poolConfig.swapFeePercentage),
+    priceParams: {
+      initialMinPrice: fp(poolConfig.priceParams.initialMinPrice),
+      initialMaxPrice: fp(poolConfig.priceParams.initialMaxPrice),
+      initialTargetPrice: fp(poolConfig.priceParams.initialTargetPrice),
+      tokenAPriceIncludesRate: poolConfig.priceParams.tokenAPriceIncludesRate ?? false,
+      tokenBPriceIncludesRate: poolConfig.priceParams.tokenBPriceIncludesRate ?? false,
+    },
+    dailyPriceShiftExponent: fp(poolConfig.dailyPriceShiftExponent),
+    centerednessMargin: fp(poolConfig.centerednessMargin),
+  };
+}
+
+export async function deployFactory(hre: HardhatRuntimeEnvironment, configPath: string): Promise<string> {
+  const factoryConfig = loadReClammDeploymentConfig(configPath).factory;
+  if (factoryConfig === undefined) {
+    throw new Error('Missing factory section in ReClamm config');
+  }
+
+  const factory = await hre.ethers.deployContract('ReClammPoolFactory', [
+    factoryConfig.vault,
+    factoryConfig.pauseWindowDuration,
+    factoryConfig.factoryVersion,
+    factoryConfig.poolVersion,
+  ]);
+  await factory.waitForDeployment();
+
+  return factory.getAddress();
+}
+
+/**
+ * Validates the pool section of the config with the pre-flight validator (and the initialization section, if
+ * requested), creates the pool at the address predicted by `getDeploymentAddress`, and, if requested, initializes it
+ * with the amounts of the initialization planner.
+ */
+export async function createPool(
+  hre: HardhatRuntimeEnvironment,
+  configPath: string,
+  options: { factory?: string; initialize: boolean }
+): Promise<CreatedPool> {
+  const config = loadReClammDeploymentConfig(configPath);
+  const poolConfig = config.pool;
+  if (poolConfig === undefined) {
+    throw new Error('Missing pool section in ReClamm config');
+  }
+
+  const factoryAddress = options.factory ?? config.factory?.address;
+  if (factoryAddress === undefined) {
+    throw new Error('Missing factory address: pass --factory or set factory.address in the ReClamm config');
+  }
+
+  const createParams = toCreateParams(poolConfig);
+  ensureValidCreateParams(createParams);
+
+  // Checked before creating the pool, so that a config error does not leave an uninitialized pool behind.
+  const initialization = options.initialize ? getInitializationConfig(poolConfig) : undefined;
+
+  const [signer] = await hre.ethers.getSigners();
+  const factory = await hre.ethers.getContractAt('ReClammPoolFactory', factoryAddress, signer);
+
+  // The final salt includes the sender, so the prediction must come from the account that creates the pool.
+  const pool = await factory.getDeploymentAddress(poolConfig.salt);
+
+  const roleAccounts = poolConfig.roleAccounts ?? {};
+  const tx = await factory.create(
+    poolConfig.name,
+    poolConfig.symbol,
+    createParams.tokens,
+    {
+      pauseManager: roleAccounts.pauseManager ?? ZeroAddress,
+      swapFeeManager: roleAccounts.swapFeeManager ?? ZeroAddress,
+      poolCreator: roleAccounts.poolCreator ?? ZeroAddress,
+    },
+    createParams.swapFeePercentage,
+    poolConfig.hookContract ?? ZeroAddress,
+    createParams.priceParams,
+    createParams.dailyPriceShiftExponent,
+    createParams.centerednessMargin,
+    poolConfig.salt
+  );
+  await tx.wait();
+
+  // The factory already reverts with `PoolAddressMismatch` if the pool is not deployed at the predicted address.
+  if ((await factory.isPoolFromFactory(pool)) == false) {
+    throw new Error(`Pool not found at the predicted address ${pool}`);
+  }
+
+  if (initialization === undefined) {
+    return { pool, createTxHash: tx.hash };
+  }
+
+  return { pool, createTxHash: tx.hash, initialization: await initializePool(hre, pool, initialization) };
+}
+
+function getInitializationConfig(poolConfig: NonNullable<ReClammDeploymentConfig['pool']>): InitializationConfig {
+  const initialization = poolConfig.initialization;
+  if (initialization === undefined) {
+    throw new Error('Missing pool.initialization section in ReClamm config');
+  }
+
+  for (const field of ['router', 'permit2'] as const) {
+    if (isAddress(initialization[field]) == false) {
+      throw new Error(`Invalid pool.initialization.${field} address: ${initialization[field]}`);
+    }
+  }
+
+  const { referenceToken } = initialization;
+  if (poolConfig.tokens.some(({ address }) => address.toLowerCase() == referenceToken.toLowerCase()) == false) {
+    throw new Error(`pool.initialization.referenceToken is not a pool token: ${referenceToken}`);
+  }
+
+  if (/^\d+$/.test(initialization.referenceAmountRaw) == false || bn(initialization.referenceAmountRaw) == 0n) {
+    throw new Error(`Invalid pool.initialization.referenceAmountRaw: ${initialization.referenceAmountRaw}`);
+  }
+
+  if (initialization.minBptAmountOut !== undefined && /^\d+$/.test(initialization.minBptAmountOut) == false) {
+    throw new Error(`Invalid pool.initialization.minBptAmountOut: ${initialization.minBptAmountOut}`);
+  }
+
+  return initialization;
+}
+
+async function initializePool(
+  hre: HardhatRuntimeEnvironment,
+  pool: string,
+  initialization: InitializationConfig
+): Promise<PoolInitialization> {
+  const [signer] = await hre.ethers.getSigners();
+  const extension = await hre.ethers.getContractAt('ReClammPoolExtension', pool, signer);
+  const immutableData = await extension.getReClammPoolImmutableData();
+  const { tokenRates } = await extension.getReClammPoolDynamicData();
+
+  const plan = planInitialization(
+    immutableData,
+    [...tokenRates],
+    initialization.referenceToken,
+    bn(initialization.referenceAmountRaw)
+  );
+  if (plan.revertReason !== undefined) {
+    throw new Error(plan.revertReason);
+  }
+
+  // The Router pulls the tokens through Permit2.
+  const permit2 = await hre.ethers.getContractAt(PERMIT2_ABI, initialization.permit2, signer);
+  for (const [i, token] of immutableData.tokens.entries()) {
+    const erc20 = await hre.ethers.getContractAt(ERC20_ABI, token, signer);
+    await (await erc20.approve(initialization.permit2, plan.initialBalancesRaw[i])).wait();
+    await (await permit2.approve(token, initialization.router, plan.initialBalancesRaw[i], MAX_UINT48)).wait();
+  }
+
+  const router = await hre.ethers.getContractAt(ROUTER_ABI, initialization.router, signer);
+  const tx = await router.initialize(
+    pool,
+    [...immutableData.tokens],
+    plan.initialBalancesRaw,
+    bn(initialization.minBptAmountOut ?? 0),
+    false,
+    '0x'
+  );
+  await tx.wait();
+
+  return { initialBalancesRaw: plan.initialBalancesRaw, txHash: tx.hash };
+}
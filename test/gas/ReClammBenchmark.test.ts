@@ -7,14 +7,70 @@ import { buildTokenConfig } from '@balancer-labs/v3-helpers/src/models/tokens/to
 import * as expectEvent from '@balancer-labs/v3-helpers/src/test/expectEvent';
 
 import { Benchmark, PoolTag, PoolInfo, TestsSwapHooks } from '@balancer-labs/v3-benchmarks/src/PoolBenchmark.behavior';
-import { MAX_UINT256, ZERO_ADDRESS, ZERO_BYTES32 } from '@balancer-labs/v3-helpers/src/constants';
+import {
+  MAX_UINT160,
+  MAX_UINT256,
+  MAX_UINT48,
+  ZERO_ADDRESS,
+  ZERO_BYTES32,
+} from '@balancer-labs/v3-helpers/src/constants';
+import * as VaultDeployer from '@balancer-labs/v3-helpers/src/models/vault/VaultDeployer';
+import { deployPermit2 } from '@balancer-labs/v3-vault/test/Permit2Deployer';
+import { IPermit2 } from '@balancer-labs/v3-vault/typechain-types/permit2/src/interfaces/IPermit2';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { ERC20TestToken } from '@balancer-labs/v3-solidity-utils/typechain-types/contracts/test/ERC20TestToken';
 
 import { PoolRoleAccountsStruct } from '../../typechain-types/@balancer-labs/v3-vault/contracts/Vault';
+import { TokenConfigStruct } from '../../typechain-types/@balancer-labs/v3-interfaces/contracts/vault/IVault';
 import { ReClammPoolFactory } from '../../typechain-types/contracts/ReClammPoolFactory';
 import { ReClammPool } from '../../typechain-types/contracts/ReClammPool';
-import { fp } from '@balancer-labs/v3-helpers/src/numbers';
+import { bn, fp } from '@balancer-labs/v3-helpers/src/numbers';
 import { saveSnap } from '@balancer-labs/v3-helpers/src/gas';
 import { sharedBeforeEach } from '../../lib/balancer-v3-monorepo/pvt/common/sharedBeforeEach';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+
+const BPT_AMOUNT = fp(1);
+
+// `TokenType.WITH_RATE` of `VaultTypes.sol`.
+const TOKEN_TYPE_WITH_RATE = 1;
+
+// Configuration measured by the variant matrix. Both tokens always have a rate provider, so the flags only change
+// whether the initial prices are expressed in terms of the wrapped token (i.e., already include its rate).
+type BenchmarkVariant = {
+  // Decimals of token A and token B, in pool order.
+  decimals: [number, number];
+  tokenAPriceIncludesRate: boolean;
+  tokenBPriceIncludesRate: boolean;
+  priceRange: BenchmarkPriceRange;
+};
+
+type BenchmarkPriceRange = {
+  name: string;
+  initialMinPrice: bigint;
+  initialMaxPrice: bigint;
+  initialTargetPrice: bigint;
+};
+
+const VARIANT_DECIMALS: [number, number][] = [
+  [18, 18],
+  [6, 18],
+  [18, 6],
+];
+
+const VARIANT_RATE_FLAGS: [boolean, boolean][] = [
+  [false, false],
+  [true, false],
+  [false, true],
+  [true, true],
+];
+
+const VARIANT_PRICE_RANGES: BenchmarkPriceRange[] = [
+  { name: 'Symmetric Range', initialMinPrice: fp(0.5), initialMaxPrice: fp(2), initialTargetPrice: fp(1) },
+  // The target price is below the geometric mean of the range, so the initial balances are unbalanced.
+  { name: 'Asymmetric Range', initialMinPrice: fp(0.25), initialMaxPrice: fp(2), initialTargetPrice: fp(0.5) },
+];
+
+const VARIANT_TOKEN_RATES = [fp(1.25), fp(1.1)];
 
 class ReClammBenchmark extends Benchmark {
   counter = 0;
@@ -206,6 +262,12 @@ class ReClammBenchmark extends Benchmark {
           [receipt]
         );
       });
+
+      it(`measures gas (proportional liquidity) (${poolTag})`, async () => {
+        await advanceTime(HOUR);
+
+        await this.measureProportionalLiquidity(poolInfo, testDirname, `${poolType} - Update Q0 - IR - ${poolTag}`);
+      });
     });
 
     describe(`Out of Range (OOR) (${poolTag})`, async () => {
@@ -332,6 +394,25 @@ class ReClammBenchmark extends Benchmark {
           [receipt]
         );
       });
+
+      it(`measures gas (proportional liquidity) (${poolTag})`, async () => {
+        await advanceTime(HOUR);
+
+        await this.measureProportionalLiquidity(poolInfo, testDirname, `${poolType} - OOR - ${poolTag}`);
+      });
+
+      it(`measures gas (governance) (${poolTag})`, async () => {
+        const [, , swapFeeManager] = await ethers.getSigners();
+        const pool: ReClammPool = await deployedAt('ReClammPool', await poolInfo.pool.getAddress());
+
+        await advanceTime(HOUR);
+
+        // Out of range, the virtual balances are recomputed before the exponent changes.
+        const tx = await pool.connect(swapFeeManager).setDailyPriceShiftExponent(fp(0.5));
+        const receipt = (await tx.wait())!;
+
+        await saveSnap(testDirname, `[${poolType} - OOR - ${poolTag}] set daily price shift exponent`, [receipt]);
+      });
     });
 
     describe(`Update Q0 - Out of Range (OOR (${poolTag})`, async () => {
@@ -472,9 +553,260 @@ class ReClammBenchmark extends Benchmark {
         );
       });
     });
+
+    describe(`Governance - In Range (IR) (${poolTag})`, async () => {
+      let pool: ReClammPool;
+      let swapFeeManager: SignerWithAddress;
+
+      sharedBeforeEach(`Load pool (${poolTag})`, async () => {
+        [, , swapFeeManager] = await ethers.getSigners();
+        pool = await deployedAt('ReClammPool', await poolInfo.pool.getAddress());
+      });
+
+      it(`measures gas (price ratio update) (${poolTag})`, async () => {
+        await advanceTime(HOUR);
+
+        const startTimestamp = await currentTimestamp();
+        const endTimestamp = startTimestamp + BigInt(DAY * 2);
+
+        let tx = await pool.connect(swapFeeManager).startPriceRatioUpdate(
+          fp(2), // End price ratio of 2
+          startTimestamp,
+          endTimestamp
+        );
+        let receipt = (await tx.wait())!;
+
+        await saveSnap(testDirname, `[${poolType} - IR - ${poolTag}] start price ratio update`, [receipt]);
+
+        // Halfway through the update, so that the current price ratio has to be computed.
+        await advanceTime(DAY);
+
+        tx = await pool.connect(swapFeeManager).stopPriceRatioUpdate();
+        receipt = (await tx.wait())!;
+
+        await saveSnap(testDirname, `[${poolType} - IR - ${poolTag}] stop price ratio update`, [receipt]);
+      });
+
+      it(`measures gas (pool parameters) (${poolTag})`, async () => {
+        await advanceTime(HOUR);
+
+        let tx = await pool.connect(swapFeeManager).setDailyPriceShiftExponent(fp(0.5));
+        let receipt = (await tx.wait())!;
+
+        await saveSnap(testDirname, `[${poolType} - IR - ${poolTag}] set daily price shift exponent`, [receipt]);
+
+        tx = await pool.connect(swapFeeManager).setCenterednessMargin(fp(0.3));
+        receipt = (await tx.wait())!;
+
+        await saveSnap(testDirname, `[${poolType} - IR - ${poolTag}] set centeredness margin`, [receipt]);
+      });
+    });
+  }
+
+  // Proportional joins and exits scale the virtual balances with the total supply, after updating them.
+  private async measureProportionalLiquidity(poolInfo: PoolInfo, testDirname: string, snapPrefix: string) {
+    const pool: ReClammPool = await deployedAt('ReClammPool', await poolInfo.pool.getAddress());
+    await pool.connect(this.alice).approve(this.router, MAX_UINT256);
+
+    let tx = await this.router
+      .connect(this.alice)
+      .addLiquidityProportional(poolInfo.pool, [MAX_UINT256, MAX_UINT256], BPT_AMOUNT, false, '0x');
+    let receipt = (await tx.wait())!;
+
+    await saveSnap(testDirname, `[${snapPrefix}] add liquidity proportional`, [receipt]);
+
+    tx = await this.router
+      .connect(this.alice)
+      .removeLiquidityProportional(poolInfo.pool, BPT_AMOUNT, [0, 0], false, '0x');
+    receipt = (await tx.wait())!;
+
+    await saveSnap(testDirname, `[${snapPrefix}] remove liquidity proportional`, [receipt]);
+  }
+}
+
+function getVariantName(variant: BenchmarkVariant): string {
+  const { decimals, tokenAPriceIncludesRate, tokenBPriceIncludesRate, priceRange } = variant;
+
+  let ratesInPrice = 'None';
+  if (tokenAPriceIncludesRate && tokenBPriceIncludesRate) {
+    ratesInPrice = 'A+B';
+  } else if (tokenAPriceIncludesRate) {
+    ratesInPrice = 'A';
+  } else if (tokenBPriceIncludesRate) {
+    ratesInPrice = 'B';
   }
+
+  return `${decimals[0]}-${decimals[1]} Decimals - PriceIncludesRate ${ratesInPrice} - ${priceRange.name}`;
 }
 
 describe('ReClammPool Gas Benchmark', function () {
   new ReClammBenchmark(__dirname).itBenchmarks();
 });
+
+// The base benchmark only deploys 18-decimal tokens, initialized with equal balances, and pools whose prices do not
+// include rates. The matrix covers the rate-inclusive initialization and the decimal scaling of the pool.
+describe('ReClammPool Gas Benchmark - Variants', function () {
+  let vault: BaseContract;
+  let router: Router;
+  let permit2: IPermit2;
+  let factory: ReClammPoolFactory;
+  let alice: SignerWithAddress;
+  let counter = 0;
+
+  const variants: BenchmarkVariant[] = VARIANT_DECIMALS.flatMap((decimals) =>
+    VARIANT_RATE_FLAGS.flatMap(([tokenAPriceIncludesRate, tokenBPriceIncludesRate]) =>
+      VARIANT_PRICE_RANGES.map((priceRange) => ({
+        decimals,
+        tokenAPriceIncludesRate,
+        tokenBPriceIncludesRate,
+        priceRange,
+      }))
+    )
+  );
+
+  before('setup signers', async () => {
+    [, alice] = await ethers.getSigners();
+  });
+
+  sharedBeforeEach('deploy vault, router and factory', async () => {
+    vault = await VaultDeployer.deploy();
+
+    const WETH = await deploy('v3-solidity-utils/WETHTestToken');
+    permit2 = await deployPermit2();
+    router = await deploy('v3-vault/Router', { args: [vault, WETH, permit2, 'Router v11'] });
+
+    factory = (await deploy('ReClammPoolFactory', {
+      args: [await vault.getAddress(), MONTH * 12, 'Factory v1', 'Pool v1'],
+    })) as unknown as ReClammPoolFactory;
+  });
+
+  // Deploys tokens whose decimals match `decimals` in pool order. Contract addresses only depend on the deployer
+  // nonce, so the decimals are assigned before deploying, to the token that will have the lower address.
+  async function deployTokens(decimals: [number, number]): Promise<ERC20TestToken[]> {
+    const [deployer] = await ethers.getSigners();
+    const nonce = await deployer.getNonce();
+    const predictedAddresses = [nonce, nonce + 1].map((tokenNonce) =>
+      ethers.getCreateAddress({ from: deployer.address, nonce: tokenNonce })
+    );
+    const isSorted = BigInt(predictedAddresses[0]) < BigInt(predictedAddresses[1]);
+
+    const tokens: ERC20TestToken[] = [];
+    for (const [i, tokenDecimals] of (isSorted ? decimals : [decimals[1], decimals[0]]).entries()) {
+      tokens.push(
+        await deploy('v3-solidity-utils/ERC20TestToken', {
+          args: [`Token ${i}`, `TKN_${i}`, tokenDecimals],
+          from: deployer,
+        })
+      );
+    }
+
+    // Any other transaction of the deployer in between would have shifted the addresses.
+    const addresses = await Promise.all(tokens.map((token) => token.getAddress()));
+    if (addresses.some((address, i) => address != predictedAddresses[i])) {
+      throw new Error('Benchmark tokens were not deployed at the predicted addresses');
+    }
+
+    return isSorted ? tokens : tokens.reverse();
+  }
+
+  for (const variant of variants) {
+    const variantName = getVariantName(variant);
+
+    describe(variantName, () => {
+      let pool: ReClammPool;
+      let tokens: ERC20TestToken[];
+      let poolTokens: string[];
+
+      sharedBeforeEach(`create pool (${variantName})`, async () => {
+        tokens = await deployTokens(variant.decimals);
+        poolTokens = await Promise.all(tokens.map((token) => token.getAddress()));
+
+        const tokenConfig: TokenConfigStruct[] = [];
+        for (const [i, token] of poolTokens.entries()) {
+          const rateProvider = await deploy('v3-vault/RateProviderMock');
+          await rateProvider.mockRate(VARIANT_TOKEN_RATES[i]);
+
+          tokenConfig.push({ token, tokenType: TOKEN_TYPE_WITH_RATE, rateProvider, paysYieldFees: false });
+        }
+
+        const priceParams: ReClammPoolFactory.ReClammPriceParamsStruct = {
+          initialMinPrice: variant.priceRange.initialMinPrice,
+          initialMaxPrice: variant.priceRange.initialMaxPrice,
+          initialTargetPrice: variant.priceRange.initialTargetPrice,
+          tokenAPriceIncludesRate: variant.tokenAPriceIncludesRate,
+          tokenBPriceIncludesRate: variant.tokenBPriceIncludesRate,
+        };
+
+        const tx = await factory.create(
+          `ReClamm Pool`,
+          `RECLAMM`,
+          tokenConfig,
+          { poolCreator: ZERO_ADDRESS, pauseManager: ZERO_ADDRESS, swapFeeManager: ZERO_ADDRESS },
+          fp(0.1), // 10% swap fee percentage
+          ZERO_ADDRESS, // no secondary pool contract
+          priceParams,
+          fp(1), // 100% price shift daily rate
+          fp(0.2), // 20% centeredness margin
+          toBeHex(counter++, 32)
+        );
+        const receipt = await tx.wait();
+        const event = expectEvent.inReceipt(receipt, 'PoolCreated');
+
+        pool = (await deployedAt('ReClammPool', event.args.pool)) as unknown as ReClammPool;
+
+        for (const [i, token] of tokens.entries()) {
+          await token.mint(alice, bn(1000) * 10n ** BigInt(variant.decimals[i]));
+          await token.connect(alice).approve(permit2, MAX_UINT256);
+          await permit2.connect(alice).approve(token, router, MAX_UINT160, MAX_UINT48);
+        }
+      });
+
+      it(`measures gas (${variantName})`, async () => {
+        // 100 units of token A; the balance of token B follows from the prices and rates.
+        const initialBalances = await pool.computeInitialBalancesRaw(
+          poolTokens[0],
+          bn(100) * 10n ** BigInt(variant.decimals[0])
+        );
+
+        let tx = await router.connect(alice).initialize(pool, poolTokens, [...initialBalances], 0, false, '0x');
+        let receipt = (await tx.wait())!;
+
+        await saveSnap(__dirname, `[ReClamm - ${variantName}] initialize`, [receipt]);
+
+        await advanceTime(HOUR);
+
+        tx = await router
+          .connect(alice)
+          .swapSingleTokenExactIn(
+            pool,
+            poolTokens[0],
+            poolTokens[1],
+            bn(1) * 10n ** BigInt(variant.decimals[0]),
+            0,
+            MAX_UINT256,
+            false,
+            '0x'
+          );
+        receipt = (await tx.wait())!;
+
+        await saveSnap(__dirname, `[ReClamm - ${variantName}] swap single token exact in with fees`, [receipt]);
+
+        tx = await router
+          .connect(alice)
+          .swapSingleTokenExactOut(
+            pool,
+            poolTokens[1],
+            poolTokens[0],
+            bn(1) * 10n ** BigInt(variant.decimals[0]),
+            MAX_UINT256,
+            MAX_UINT256,
+            false,
+            '0x'
+          );
+        receipt = (await tx.wait())!;
+
+        await saveSnap(__dirname, `[ReClamm - ${variantName}] swap single token exact out with fees`, [receipt]);
+      });
+    });
+  }
+});
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { expect } from 'chai';
+import {
+  diffGasSnapshots,
+  formatGasSnapshotDiffJSON,
+  formatGasSnapshotDiffMarkdown,
+  GasSnapshots,
+  loadGasSnapshots,
+} from '../tasks/gasSnapshotDiff';
+
+describe('Gas snapshot diff', function () {
+  const SWAP = '[ReClamm - OOR - Standard] swap single token exact in with fees - cold slots';
+  const BATCH_SWAP = '[ReClamm - OOR - Standard - BatchRouter] swap exact in with one token and fees - cold slots';
+  const ADD_LIQUIDITY = '[ReClamm - OOR - Standard] add liquidity proportional';
+  const REMOVE_LIQUIDITY = '[ReClamm - OOR - Standard] remove liquidity proportional';
+
+  const tempDirs: string[] = [];
+
+  after(async () => {
+    for (const dir of tempDirs) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  function writeSnapshots(name: string, snapshots: Record<string, string>): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), `reclamm-gas-${name}-`));
+    tempDirs.push(dir);
+    for (const [scenario, gas] of Object.entries(snapshots)) {
+      fs.writeFileSync(path.join(dir, scenario), gas);
+    }
+
+    return dir;
+  }
+
+  it('loads the snapshots written by saveSnap', async () => {
+    const dir = writeSnapshots('load', { [SWAP]: '203.7k', [BATCH_SWAP]: '1.2M' });
+
+    expect(loadGasSnapshots(dir)).to.be.deep.eq({ [SWAP]: 203700, [BATCH_SWAP]: 1200000 });
+  });
+
+  describe('diff', () => {
+    const previous: GasSnapshots = { [SWAP]: 200000, [BATCH_SWAP]: 220000, [REMOVE_LIQUIDITY]: 150000 };
+    const current: GasSnapshots = { [SWAP]: 203000, [BATCH_SWAP]: 210000, [ADD_LIQUIDITY]: 180000 };
+
+    it('reports absolute and percentage changes', async () => {
+      const diff = diffGasSnapshots(previous, current, 1);
+
+      const swap = diff.changes.find((change) => change.scenario == SWAP);
+      expect(swap).to.be.deep.eq({
+        scenario: SWAP,
+        status: 'increased',
+        previousGas: 200000,
+        currentGas: 203000,
+        change: 3000,
+        percentageChange: 1.5,
+        isRegression: true,
+      });
+
+      const batchSwap = diff.changes.find((change) => change.scenario == BATCH_SWAP);
+      expect(batchSwap?.status).to.be.eq('decreased');
+      expect(batchSwap?.change).to.be.eq(-10000);
+      expect(batchSwap?.isRegression).to.be.false;
+    });
+
+    it('flags added and removed scenarios', async () => {
+      const diff = diffGasSnapshots(previous, current, 1);
+
+      expect(diff.added).to.be.eq(1);
+      expect(diff.removed).to.be.eq(1);
+      expect(diff.changes.find((change) => change.scenario == ADD_LIQUIDITY)?.status).to.be.eq('added');
+      expect(diff.changes.find((change) => change.scenario == REMOVE_LIQUIDITY)?.status).to.be.eq('removed');
+    });
+
+    it('fails above the threshold', async () => {
+      const failed = diffGasSnapshots(previous, current, 1);
+      expect(failed.regressions).to.be.eq(1);
+      expect(failed.passed).to.be.false;
+
+      // Added and removed scenarios do not fail the diff.
+      const passed = diffGasSnapshots(previous, current, 2);
+      expect(passed.regressions).to.be.eq(0);
+      expect(passed.passed).to.be.true;
+    });
+
+    it('writes Markdown and JSON reports', async () => {
+      const diff = diffGasSnapshots(previous, { ...current, [BATCH_SWAP]: 220000 }, 1);
+
+      const markdown = formatGasSnapshotDiffMarkdown(diff);
+      expect(markdown).to.contain('Failed: 1 regression(s) above 1%, 1 scenario(s) added, 1 removed.');
+      expect(markdown).to.contain(
+        '| :warning: \\[ReClamm - OOR - Standard\\] swap single token exact in with fees - cold slots | 200,000 | ' +
+          '203,000 | +3,000 | +1.50% |'
+      );
+      expect(markdown).to.contain('\\[ReClamm - OOR - Standard\\] add liquidity proportional (added)');
+      expect(markdown).to.contain('1 unchanged scenario(s)');
+
+      expect(JSON.parse(formatGasSnapshotDiffJSON(diff))).to.be.deep.eq(diff);
+    });
+  });
+});
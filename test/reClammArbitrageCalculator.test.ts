@@ -0,0 +1,127 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { ERC20TestToken } from '@balancer-labs/v3-solidity-utils/typechain-types/contracts/test/ERC20TestToken';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { bn, fp, fpMulDown } from '@balancer-labs/v3-helpers/src/numbers';
+import { MAX_UINT256 } from '@balancer-labs/v3-helpers/src/constants';
+import { IVaultMock } from '@balancer-labs/v3-interfaces/typechain-types';
+import { ReClammPool, ReClammPoolExtension } from '../typechain-types';
+import { advanceTime, currentTimestamp, DAY } from '@balancer-labs/v3-helpers/src/time';
+import { expectEqualWithError } from './utils/relativeError';
+import { ArbitrageTrade, computeOptimalArbitrage } from './utils/arbitrageCalculator';
+import { deployReClammPoolFixture, INITIAL_BALANCE_A, MAX_PRICE } from './utils/reClammPoolFixture';
+
+describe('ReClammPool arbitrage calculator', function () {
+  const priceRatioError = 0.00001; // 0.001% error tolerance.
+
+  let vault: IVaultMock;
+  let pool: ReClammPool;
+  let extensionEntryPoint: ReClammPoolExtension;
+  let router: Router;
+  let bob: SignerWithAddress;
+  let tokenA: ERC20TestToken;
+  let tokenB: ERC20TestToken;
+  let tokenAAddress: string;
+  let tokenBAddress: string;
+  let tokenAIdx: number;
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({ vault, pool, extensionEntryPoint, router, bob, tokenA, tokenB, tokenAAddress, tokenBAddress, tokenAIdx } =
+      await deployReClammPoolFixture());
+  });
+
+  async function executeArbitrage(trade: ArbitrageTrade, timestamp: bigint): Promise<bigint[]> {
+    const { tokenIn, tokenOut, amountGivenRaw } = trade;
+    const tokenInContract = tokenIn == tokenAAddress ? tokenA : tokenB;
+    const tokenOutContract = tokenOut == tokenAAddress ? tokenA : tokenB;
+    const balancesBefore = [await tokenInContract.balanceOf(bob), await tokenOutContract.balanceOf(bob)];
+
+    await ethers.provider.send('evm_setNextBlockTimestamp', [Number(timestamp)]);
+    if (trade.kind == 'ExactIn') {
+      await router
+        .connect(bob)
+        .swapSingleTokenExactIn(pool, tokenIn, tokenOut, amountGivenRaw, 0, MAX_UINT256, false, '0x');
+    } else {
+      await router
+        .connect(bob)
+        .swapSingleTokenExactOut(pool, tokenIn, tokenOut, amountGivenRaw, MAX_UINT256, MAX_UINT256, false, '0x');
+    }
+
+    // Amounts paid and received by the arbitrageur.
+    return [
+      balancesBefore[0] - (await tokenInContract.balanceOf(bob)),
+      (await tokenOutContract.balanceOf(bob)) - balancesBefore[1],
+    ];
+  }
+
+  it('trade moves the pool to the fee-adjusted market price', async () => {
+    // Take the pool out of range and let it idle, so that the trade triggers a virtual balance update.
+    await router
+      .connect(bob)
+      .swapSingleTokenExactIn(pool, tokenA, tokenB, INITIAL_BALANCE_A / 2n, 0, MAX_UINT256, false, '0x');
+    await advanceTime(DAY);
+
+    const dynamicData = await extensionEntryPoint.getReClammPoolDynamicData();
+    const timestamp = (await currentTimestamp()) + 10n;
+    const marketPrice = fp(3);
+
+    const trade = computeOptimalArbitrage(
+      dynamicData,
+      await extensionEntryPoint.getReClammPoolImmutableData(),
+      marketPrice,
+      { timestamp }
+    );
+    if (trade === undefined) {
+      throw new Error('No arbitrage trade');
+    }
+
+    // Token A is cheap after the big sale, so the arbitrageur buys it with token B.
+    expect(trade.tokenIn).to.be.eq(tokenBAddress);
+    expect(trade.clampedAtBalance).to.be.false;
+    expect(trade.profit).to.be.gt(0n);
+    expect(trade.targetSpotPrice).to.be.eq(fpMulDown(marketPrice, fp(1) - dynamicData.staticSwapFeePercentage));
+    expectEqualWithError(trade.spotPriceAfter, trade.targetSpotPrice, priceRatioError);
+    expect(trade.quote.virtualBalances).to.not.be.deep.eq([...dynamicData.lastVirtualBalances]);
+
+    expect(await executeArbitrage(trade, timestamp)).to.be.deep.eq([trade.amountInRaw, trade.amountOutRaw]);
+    expect([...(await extensionEntryPoint.getLastVirtualBalances())]).to.be.deep.eq(trade.quote.virtualBalances);
+    // The pool keeps the swap fee, which is part of the price the trade moves it to.
+    expectEqualWithError(await extensionEntryPoint.computeCurrentSpotPrice(), trade.targetSpotPrice, priceRatioError);
+
+    // Once arbitraged, the pool has nothing left to offer at the same market price.
+    const nextState = await extensionEntryPoint.getReClammPoolDynamicData();
+    expect(
+      computeOptimalArbitrage(nextState, await extensionEntryPoint.getReClammPoolImmutableData(), marketPrice, {
+        timestamp,
+      })
+    ).to.be.undefined;
+  });
+
+  it('trade is clamped at the real balance', async () => {
+    const timestamp = (await currentTimestamp()) + 10n;
+
+    // Far above the maximum price, so the arbitrageur takes all the token A the pool can give.
+    const trade = computeOptimalArbitrage(
+      await extensionEntryPoint.getReClammPoolDynamicData(),
+      await extensionEntryPoint.getReClammPoolImmutableData(),
+      MAX_PRICE * 10n,
+      { timestamp }
+    );
+    if (trade === undefined) {
+      throw new Error('No arbitrage trade');
+    }
+
+    expect(trade.kind).to.be.eq('ExactOut');
+    expect(trade.clampedAtBalance).to.be.true;
+    expect(trade.tokenOut).to.be.eq(tokenAAddress);
+    expect(trade.spotPriceAfter).to.be.lt(trade.targetSpotPrice);
+
+    expect(await executeArbitrage(trade, timestamp)).to.be.deep.eq([trade.amountInRaw, trade.amountOutRaw]);
+
+    // The pool keeps the minimum trade amount of token A.
+    const [, , , balancesLiveScaled18] = await vault.getPoolTokenInfo(pool);
+    expect(balancesLiveScaled18[tokenAIdx]).to.be.eq(bn(1e6));
+  });
+});
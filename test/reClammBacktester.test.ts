@@ -0,0 +1,99 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { fp } from '@balancer-labs/v3-helpers/src/numbers';
+import { MAX_UINT256 } from '@balancer-labs/v3-helpers/src/constants';
+import { IVaultMock } from '@balancer-labs/v3-interfaces/typechain-types';
+import { ReClammPool, ReClammPoolExtension } from '../typechain-types';
+import { currentTimestamp, HOUR } from '@balancer-labs/v3-helpers/src/time';
+import { ReClammPoolState } from './utils/reClammPoolState';
+import { parsePriceSeriesCsv, parsePriceSeriesJson, runBacktest } from './utils/backtester';
+import { deployReClammPoolFixture } from './utils/reClammPoolFixture';
+
+describe('ReClammPool backtest', function () {
+  let vault: IVaultMock;
+  let pool: ReClammPool;
+  let extensionEntryPoint: ReClammPoolExtension;
+  let router: Router;
+  let bob: SignerWithAddress;
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({ vault, pool, extensionEntryPoint, router, bob } = await deployReClammPoolFixture());
+  });
+
+  it('parses price series', async () => {
+    const csvSeries = parsePriceSeriesCsv('timestamp,price\n200,2.5\n100,3\n');
+    expect(csvSeries).to.be.deep.eq([
+      { timestamp: 100n, price: fp(3) },
+      { timestamp: 200n, price: fp(2.5) },
+    ]);
+
+    const jsonSeries = parsePriceSeriesJson('[{ "timestamp": "1970-01-01T00:01:40Z", "price": 3 }]');
+    expect(jsonSeries).to.be.deep.eq([{ timestamp: 100n, price: fp(3) }]);
+
+    expect(() => parsePriceSeriesCsv('timestamp,price\n100,3\nyesterday,2\n')).to.throw(
+      'Invalid timestamp in price series row 2: yesterday'
+    );
+    expect(() => parsePriceSeriesCsv('timestamp,price\n100,3\n-5,2\n')).to.throw(
+      'Invalid timestamp in price series row 2: -5'
+    );
+    expect(() => parsePriceSeriesJson('[{ "timestamp": "March 1, 2025", "price": 3 }]')).to.throw(
+      'Invalid timestamp in price series row 1: March 1, 2025'
+    );
+    expect(() => parsePriceSeriesCsv('timestamp,price\n100,-3\n')).to.throw('Invalid price in price series row 1: -3');
+    expect(() => parsePriceSeriesCsv('timestamp,price\n100,0\n')).to.throw('Invalid price in price series row 1: 0');
+    expect(() => parsePriceSeriesJson('[{ "timestamp": 100, "price": "Infinity" }]')).to.throw(
+      'Invalid price in price series row 1: Infinity'
+    );
+  });
+
+  it('backtest matches an on-chain replay of the arbitrage trades', async () => {
+    const state = ReClammPoolState.fromPoolData(
+      await extensionEntryPoint.getReClammPoolDynamicData(),
+      await extensionEntryPoint.getReClammPoolImmutableData()
+    );
+    const [, , balancesRaw] = await vault.getPoolTokenInfo(pool);
+
+    // The market moves up, then crashes below the price range, so the pool goes out of range and shifts.
+    const startTimestamp = (await currentTimestamp()) + BigInt(HOUR);
+    const prices = [3.5, 4, 2, 0.3, 0.3, 1].map((price, i) => ({
+      timestamp: startTimestamp + BigInt(i * HOUR),
+      price: fp(price),
+    }));
+
+    const { ticks, summary, finalState, finalBalancesRaw } = runBacktest(state, prices, {
+      balancesRaw: [...balancesRaw],
+    });
+    expect(summary.tradeCount).to.be.gt(0);
+    expect(summary.feesEarned).to.be.gt(0n);
+    expect(ticks.some((tick) => tick.isWithinTargetRange == false)).to.be.true;
+
+    for (const { timestamp, trade } of ticks) {
+      if (trade === undefined) {
+        continue;
+      }
+
+      const { tokenIn, tokenOut, amountGivenRaw } = trade;
+      await ethers.provider.send('evm_setNextBlockTimestamp', [Number(timestamp)]);
+      if (trade.kind == 'ExactIn') {
+        await router
+          .connect(bob)
+          .swapSingleTokenExactIn(pool, tokenIn, tokenOut, amountGivenRaw, 0, MAX_UINT256, false, '0x');
+      } else {
+        await router
+          .connect(bob)
+          .swapSingleTokenExactOut(pool, tokenIn, tokenOut, amountGivenRaw, MAX_UINT256, MAX_UINT256, false, '0x');
+      }
+    }
+
+    const [, , balancesRawAfterReplay] = await vault.getPoolTokenInfo(pool);
+    expect(finalBalancesRaw).to.be.deep.eq([...balancesRawAfterReplay]);
+
+    const dynamicDataAfterReplay = await extensionEntryPoint.getReClammPoolDynamicData();
+    expect(finalState.dynamicData.balancesLiveScaled18).to.be.deep.eq([...dynamicDataAfterReplay.balancesLiveScaled18]);
+    expect(finalState.dynamicData.lastVirtualBalances).to.be.deep.eq([...dynamicDataAfterReplay.lastVirtualBalances]);
+    expect(finalState.dynamicData.lastTimestamp).to.be.eq(dynamicDataAfterReplay.lastTimestamp);
+  });
+});
@@ -0,0 +1,99 @@
+import { expect } from 'chai';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { ERC20TestToken } from '@balancer-labs/v3-solidity-utils/typechain-types/contracts/test/ERC20TestToken';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { FP_ZERO, fp } from '@balancer-labs/v3-helpers/src/numbers';
+import { IVaultMock } from '@balancer-labs/v3-interfaces/typechain-types';
+import { ReClammPoolFactory } from '../typechain-types';
+import { ensureValidCreateParams, ReClammCreateParams, validateCreateParams } from './utils/createParamsValidator';
+import {
+  buildCreateParams,
+  createPool,
+  deployReClammPoolFixture,
+  INITIAL_BALANCE_A,
+  MAX_PRICE,
+  sendCreatePool,
+} from './utils/reClammPoolFixture';
+
+describe('ReClammPool create params validator', function () {
+  let vault: IVaultMock;
+  let factory: ReClammPoolFactory;
+  let router: Router;
+  let bob: SignerWithAddress;
+  let tokenA: ERC20TestToken;
+  let poolTokens: string[];
+
+  let createParams: ReClammCreateParams;
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({ vault, factory, router, bob, tokenA, poolTokens } = await deployReClammPoolFixture());
+  });
+
+  sharedBeforeEach('build valid create params', async () => {
+    createParams = buildCreateParams(poolTokens);
+  });
+
+  it('valid params', async () => {
+    expect(validateCreateParams(createParams)).to.be.empty;
+    expect(() => ensureValidCreateParams(createParams)).to.not.throw();
+  });
+
+  it('reports every violation at once', async () => {
+    const violations = validateCreateParams({
+      ...createParams,
+      swapFeePercentage: fp(0.2),
+      priceParams: { ...createParams.priceParams, initialTargetPrice: MAX_PRICE + 1n, tokenBPriceIncludesRate: true },
+      dailyPriceShiftExponent: fp(1.5),
+      centerednessMargin: fp(0.95),
+    });
+
+    expect(violations.map(({ error, parameter }) => [error, parameter])).to.be.deep.eq([
+      ['InvalidTokenType', 'priceParams.tokenBPriceIncludesRate'],
+      ['InvalidInitialPrice', 'priceParams.initialTargetPrice'],
+      ['SwapFeePercentageTooHigh', 'swapFeePercentage'],
+      ['InvalidCenterednessMargin', 'centerednessMargin'],
+      ['DailyPriceShiftExponentTooHigh', 'dailyPriceShiftExponent'],
+    ]);
+    expect(violations[2].bound).to.be.eq(`<= ${fp(0.1)}`);
+
+    expect(() => ensureValidCreateParams({ ...createParams, swapFeePercentage: 0 })).to.throw(
+      'SwapFeePercentageTooLow'
+    );
+  });
+
+  it('create reverts with the reported error', async () => {
+    const priceParams = createParams.priceParams;
+    const invalidParams: ReClammCreateParams[] = [
+      { ...createParams, priceParams: { ...priceParams, initialMinPrice: MAX_PRICE } },
+      { ...createParams, priceParams: { ...priceParams, initialTargetPrice: 0 } },
+      { ...createParams, priceParams: { ...priceParams, tokenAPriceIncludesRate: true } },
+      { ...createParams, swapFeePercentage: fp(0.2) },
+    ];
+
+    for (const params of invalidParams) {
+      const violations = validateCreateParams(params);
+      expect(violations).to.not.be.empty;
+      expect(violations[0].revertsOn).to.be.eq('create');
+
+      // Swap fee bounds are checked by the Vault on registration.
+      const reverter = violations[0].errorSource == 'IVaultErrors' ? vault : factory;
+      await expect(sendCreatePool(factory, params)).to.be.revertedWithCustomError(reverter, violations[0].error);
+    }
+  });
+
+  it('initialize reverts with the reported error', async () => {
+    const params = { ...createParams, dailyPriceShiftExponent: fp(1.5) };
+
+    const [violation] = validateCreateParams(params);
+    expect(violation.error).to.be.eq('DailyPriceShiftExponentTooHigh');
+    expect(violation.revertsOn).to.be.eq('initialize');
+
+    const { pool: newPool } = await createPool(factory, params);
+
+    const initialBalancesRaw = await newPool.computeInitialBalancesRaw(tokenA, INITIAL_BALANCE_A);
+    await expect(
+      router.connect(bob).initialize(newPool, poolTokens, [...initialBalancesRaw], FP_ZERO, false, '0x')
+    ).to.be.revertedWithCustomError(newPool, violation.error);
+  });
+});
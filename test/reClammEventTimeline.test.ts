@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { ERC20TestToken } from '@balancer-labs/v3-solidity-utils/typechain-types/contracts/test/ERC20TestToken';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { fp } from '@balancer-labs/v3-helpers/src/numbers';
+import { MAX_UINT256 } from '@balancer-labs/v3-helpers/src/constants';
+import { IVaultMock } from '@balancer-labs/v3-interfaces/typechain-types';
+import { ReClammPool, ReClammPoolExtension } from '../typechain-types';
+import { currentTimestamp, DAY } from '@balancer-labs/v3-helpers/src/time';
+import {
+  decodeTimelineLogs,
+  fetchTimelineLogs,
+  groupTimelineByPool,
+  loadLogDump,
+  timelineToCSV,
+  timelineToJSON,
+} from './utils/eventTimeline';
+import { deployReClammPoolFixture, INITIAL_BALANCE_A } from './utils/reClammPoolFixture';
+
+describe('ReClammPool event timeline', function () {
+  let vault: IVaultMock;
+  let pool: ReClammPool;
+  let extensionEntryPoint: ReClammPoolExtension;
+  let router: Router;
+  let bob: SignerWithAddress;
+  let tokenA: ERC20TestToken;
+  let tokenB: ERC20TestToken;
+  let tokenAAddress: string;
+
+  let dumpDir: string;
+
+  before('create log dump directory', async () => {
+    dumpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reclamm-logs-'));
+  });
+
+  after('remove log dump directory', async () => {
+    fs.rmSync(dumpDir, { recursive: true, force: true });
+  });
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({ vault, pool, extensionEntryPoint, router, bob, tokenA, tokenB, tokenAAddress } =
+      await deployReClammPoolFixture());
+  });
+
+  sharedBeforeEach('swap, remove liquidity and update the price ratio', async () => {
+    await router
+      .connect(bob)
+      .swapSingleTokenExactIn(pool, tokenA, tokenB, INITIAL_BALANCE_A / 10n, 0, MAX_UINT256, false, '0x');
+    await router.connect(bob).removeLiquidityProportional(pool, fp(1), [0, 0], false, '0x');
+
+    const updateStartTimestamp = (await currentTimestamp()) + 1n;
+    await pool.connect(bob).startPriceRatioUpdate(fp(8), updateStartTimestamp, updateStartTimestamp + BigInt(DAY));
+  });
+
+  it('merges pool and Vault events in chain order', async () => {
+    const poolAddress = await pool.getAddress();
+    const logs = await fetchTimelineLogs(ethers.provider, { vault: await vault.getAddress(), pools: [poolAddress] });
+    const timeline = decodeTimelineLogs(logs, [poolAddress]);
+
+    expect([...groupTimelineByPool(timeline).keys()]).to.be.deep.eq([poolAddress.toLowerCase()]);
+    for (let i = 1; i < timeline.length; i++) {
+      const [previous, current] = [timeline[i - 1], timeline[i]];
+      expect(
+        previous.blockNumber < current.blockNumber ||
+          (previous.blockNumber == current.blockNumber && previous.logIndex < current.logIndex)
+      ).to.be.true;
+    }
+
+    const vaultEvents = timeline.filter((event) => event.source == 'vault').map((event) => event.event);
+    expect(vaultEvents).to.be.deep.eq(['LiquidityAdded', 'Swap', 'LiquidityRemoved']);
+
+    const swap = timeline.find((event) => event.event == 'Swap');
+    expect(swap?.args.tokenIn).to.be.eq(tokenAAddress);
+    expect(swap?.args.amountIn).to.be.eq(INITIAL_BALANCE_A / 10n);
+
+    // The last pool events are emitted by `startPriceRatioUpdate`, and match the stored state.
+    const lastEvent = (name: string) => timeline.filter((event) => event.event == name).pop();
+    const { endFourthRootPriceRatio, priceRatioUpdateEndTime } = await extensionEntryPoint.getPriceRatioState();
+
+    const [virtualBalanceA, virtualBalanceB] = await extensionEntryPoint.getLastVirtualBalances();
+
+    expect(lastEvent('VirtualBalancesUpdated')?.args).to.be.deep.eq({ virtualBalanceA, virtualBalanceB });
+    expect(lastEvent('LastTimestampUpdated')?.args.lastTimestamp).to.be.eq(
+      await extensionEntryPoint.getLastTimestamp()
+    );
+    expect(lastEvent('PriceRatioStateUpdated')?.args.endFourthRootPriceRatio).to.be.eq(endFourthRootPriceRatio);
+    expect(lastEvent('PriceRatioStateUpdated')?.args.priceRatioUpdateEndTime).to.be.eq(priceRatioUpdateEndTime);
+    expect(lastEvent('PriceRatioStateUpdated')?.blockTimestamp).to.be.eq(await extensionEntryPoint.getLastTimestamp());
+  });
+
+  it('indexes a log dump and exports JSON and CSV', async () => {
+    const poolAddress = await pool.getAddress();
+    const logs = await fetchTimelineLogs(ethers.provider, { vault: await vault.getAddress(), pools: [poolAddress] });
+
+    const dumpPath = path.join(dumpDir, `${poolAddress}.json`);
+    fs.writeFileSync(dumpPath, JSON.stringify(logs));
+
+    const timeline = decodeTimelineLogs(loadLogDump(dumpPath), [poolAddress]);
+    expect(timeline).to.be.deep.eq(decodeTimelineLogs(logs, [poolAddress]));
+
+    const json = JSON.parse(timelineToJSON(timeline));
+    expect(json.map((event: { event: string }) => event.event)).to.be.deep.eq(timeline.map((event) => event.event));
+
+    const [header, ...rows] = timelineToCSV(timeline).trim().split('\n');
+    const columns = header.split(',');
+    expect(rows.length).to.be.eq(timeline.length);
+
+    const swapRow = rows.find((row) => row.split(',')[columns.indexOf('event')] == 'Swap');
+    expect(swapRow?.split(',')[columns.indexOf('amountIn')]).to.be.eq((INITIAL_BALANCE_A / 10n).toString());
+  });
+});
@@ -0,0 +1,175 @@
+import { expect } from 'chai';
+import { deploy } from '@balancer-labs/v3-helpers/src/contract';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { RateProviderMock } from '@balancer-labs/v3-vault/typechain-types/contracts/test/RateProviderMock';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { FP_ZERO, bn, fp } from '@balancer-labs/v3-helpers/src/numbers';
+import { ZERO_ADDRESS } from '@balancer-labs/v3-helpers/src/constants';
+import { IVaultMock } from '@balancer-labs/v3-interfaces/typechain-types';
+import { ReClammPool, ReClammPoolExtension, ReClammPoolFactory } from '../typechain-types';
+import { computeInitialBalancesRaw, planInitialization, simulateInitialization } from './utils/initializationPlanner';
+import { CreateTokenConfig } from './utils/createParamsValidator';
+import { buildCreateParams, createPool, deployReClammPoolFixture, INITIAL_BALANCE_A } from './utils/reClammPoolFixture';
+
+describe('ReClammPool initialization planner', function () {
+  let vault: IVaultMock;
+  let factory: ReClammPoolFactory;
+  let router: Router;
+  let bob: SignerWithAddress;
+  let poolTokens: string[];
+  let tokenAAddress: string;
+  let tokenBAddress: string;
+  let tokenBIdx: number;
+
+  let newPool: ReClammPool;
+  let newPoolExtension: ReClammPoolExtension;
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({ vault, factory, router, bob, poolTokens, tokenAAddress, tokenBAddress, tokenBIdx } =
+      await deployReClammPoolFixture());
+  });
+
+  sharedBeforeEach('create uninitialized pool', async () => {
+    ({ pool: newPool, extensionEntryPoint: newPoolExtension } = await createPool(
+      factory,
+      buildCreateParams(poolTokens)
+    ));
+  });
+
+  it('initial balances match the pool', async () => {
+    const immutableData = await newPoolExtension.getReClammPoolImmutableData();
+    const [, tokenRates] = await vault.getPoolTokenRates(newPool);
+
+    for (const referenceToken of [tokenAAddress, tokenBAddress]) {
+      for (const referenceAmountInRaw of [1n, bn(1e6), fp(1), fp(123.456789)]) {
+        expect(
+          computeInitialBalancesRaw(immutableData, [...tokenRates], referenceToken, referenceAmountInRaw)
+        ).to.be.deep.eq([...(await newPool.computeInitialBalancesRaw(referenceToken, referenceAmountInRaw))]);
+      }
+    }
+
+    expect(() => computeInitialBalancesRaw(immutableData, [...tokenRates], ZERO_ADDRESS, fp(1))).to.throw(
+      'InvalidToken'
+    );
+  });
+
+  it('planned initialization succeeds', async () => {
+    const immutableData = await newPoolExtension.getReClammPoolImmutableData();
+    const [, tokenRates] = await vault.getPoolTokenRates(newPool);
+
+    const plan = planInitialization(immutableData, [...tokenRates], tokenAAddress, INITIAL_BALANCE_A);
+    expect(plan.revertReason).to.be.undefined;
+
+    await router.connect(bob).initialize(newPool, poolTokens, plan.initialBalancesRaw, FP_ZERO, false, '0x');
+
+    expect(plan.virtualBalances).to.be.deep.eq([...(await newPoolExtension.getLastVirtualBalances())]);
+    expect(plan.priceRatio).to.be.eq(await newPoolExtension.computeCurrentPriceRatio());
+  });
+
+  it('predicts initialization reverts', async () => {
+    const immutableData = await newPoolExtension.getReClammPoolImmutableData();
+    const [, tokenRates] = await vault.getPoolTokenRates(newPool);
+
+    const { initialBalancesRaw } = planInitialization(immutableData, [...tokenRates], tokenAAddress, INITIAL_BALANCE_A);
+
+    // 1% more of token B is way above the 0.01% tolerance.
+    const skewedBalancesRaw = [...initialBalancesRaw];
+    skewedBalancesRaw[tokenBIdx] = (skewedBalancesRaw[tokenBIdx] * 101n) / 100n;
+
+    const skewedPlan = simulateInitialization(immutableData, [...tokenRates], skewedBalancesRaw);
+    expect(skewedPlan.revertReason).to.be.eq('BalanceRatioExceedsTolerance');
+
+    await expect(
+      router.connect(bob).initialize(newPool, poolTokens, skewedBalancesRaw, FP_ZERO, false, '0x')
+    ).to.be.revertedWithCustomError(newPool, 'BalanceRatioExceedsTolerance');
+  });
+
+  it('predicts wrong initialization prices', async () => {
+    // With prices this small, computing the min price from the virtual balances loses more precision than the
+    // tolerance allows, so even the planned balances do not initialize the pool.
+    const params = buildCreateParams(poolTokens);
+    const { pool: smallPricePool, extensionEntryPoint: smallPricePoolExtension } = await createPool(factory, {
+      ...params,
+      priceParams: {
+        ...params.priceParams,
+        initialMinPrice: bn(1e6),
+        initialMaxPrice: bn(8e6),
+        initialTargetPrice: bn(3e6),
+      },
+    });
+
+    const immutableData = await smallPricePoolExtension.getReClammPoolImmutableData();
+    const [, tokenRates] = await vault.getPoolTokenRates(smallPricePool);
+
+    const plan = planInitialization(immutableData, [...tokenRates], tokenBAddress, bn(100e6));
+    expect(plan.revertReason).to.be.eq('WrongInitializationPrices');
+
+    // The pool checks the prices before the Vault takes the tokens.
+    await expect(
+      router.connect(bob).initialize(smallPricePool, poolTokens, plan.initialBalancesRaw, FP_ZERO, false, '0x')
+    ).to.be.revertedWithCustomError(smallPricePool, 'WrongInitializationPrices');
+  });
+
+  describe('tokens with rates', () => {
+    // Rates of the pool tokens, in registration order.
+    const TOKEN_RATES = [fp(1.1), fp(1.2)];
+
+    async function createPoolWithRates(tokenAPriceIncludesRate: boolean, tokenBPriceIncludesRate: boolean) {
+      const tokens: CreateTokenConfig[] = [];
+      for (const [i, token] of poolTokens.entries()) {
+        const rateProvider: RateProviderMock = await deploy('v3-vault/RateProviderMock');
+        await rateProvider.mockRate(TOKEN_RATES[i]);
+
+        tokens.push({
+          token,
+          tokenType: 1, // WITH_RATE
+          rateProvider: await rateProvider.getAddress(),
+          paysYieldFees: false,
+        });
+      }
+
+      const params = buildCreateParams(poolTokens);
+      return createPool(factory, {
+        ...params,
+        tokens,
+        priceParams: { ...params.priceParams, tokenAPriceIncludesRate, tokenBPriceIncludesRate },
+      });
+    }
+
+    for (const [tokenAPriceIncludesRate, tokenBPriceIncludesRate] of [
+      [false, false],
+      [true, false],
+      [false, true],
+      [true, true],
+    ]) {
+      it(`planned initialization succeeds (prices include rates: A ${tokenAPriceIncludesRate}, B ${tokenBPriceIncludesRate})`, async () => {
+        const { pool: ratePool, extensionEntryPoint: ratePoolExtension } = await createPoolWithRates(
+          tokenAPriceIncludesRate,
+          tokenBPriceIncludesRate
+        );
+
+        const immutableData = await ratePoolExtension.getReClammPoolImmutableData();
+        const [, tokenRates] = await vault.getPoolTokenRates(ratePool);
+        expect([...tokenRates]).to.be.deep.eq(TOKEN_RATES);
+
+        for (const [referenceToken, referenceAmountInRaw] of [
+          [tokenAAddress, fp(1)],
+          [tokenBAddress, bn(1e6)],
+        ] as const) {
+          expect(
+            computeInitialBalancesRaw(immutableData, [...tokenRates], referenceToken, referenceAmountInRaw)
+          ).to.be.deep.eq([...(await ratePool.computeInitialBalancesRaw(referenceToken, referenceAmountInRaw))]);
+        }
+
+        const plan = planInitialization(immutableData, [...tokenRates], tokenAAddress, INITIAL_BALANCE_A);
+        expect(plan.revertReason).to.be.undefined;
+
+        await router.connect(bob).initialize(ratePool, poolTokens, plan.initialBalancesRaw, FP_ZERO, false, '0x');
+
+        expect(plan.virtualBalances).to.be.deep.eq([...(await ratePoolExtension.getLastVirtualBalances())]);
+        expect(plan.priceRatio).to.be.eq(await ratePoolExtension.computeCurrentPriceRatio());
+      });
+    }
+  });
+});
@@ -0,0 +1,58 @@
+import { run } from 'hardhat';
+import { expect } from 'chai';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { ERC20TestToken } from '@balancer-labs/v3-solidity-utils/typechain-types/contracts/test/ERC20TestToken';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { fp } from '@balancer-labs/v3-helpers/src/numbers';
+import { MAX_UINT256 } from '@balancer-labs/v3-helpers/src/constants';
+import { ReClammPool, ReClammPoolExtension } from '../typechain-types';
+import { advanceTime, currentTimestamp, DAY, HOUR } from '@balancer-labs/v3-helpers/src/time';
+import { deployReClammPoolFixture, INITIAL_BALANCE_A } from './utils/reClammPoolFixture';
+
+describe('ReClammPool inspect task', function () {
+  let pool: ReClammPool;
+  let extensionEntryPoint: ReClammPoolExtension;
+  let router: Router;
+  let bob: SignerWithAddress;
+  let tokenA: ERC20TestToken;
+  let tokenB: ERC20TestToken;
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({ pool, extensionEntryPoint, router, bob, tokenA, tokenB } = await deployReClammPoolFixture());
+  });
+
+  it('JSON report matches the pool views', async () => {
+    await router
+      .connect(bob)
+      .swapSingleTokenExactIn(pool, tokenA, tokenB, INITIAL_BALANCE_A / 10n, 0, MAX_UINT256, false, '0x');
+    await advanceTime(HOUR);
+
+    const { derived } = JSON.parse(await run('reclamm:inspect', { pool: await pool.getAddress(), format: 'json' }));
+
+    const [minPrice, maxPrice] = await extensionEntryPoint.computeCurrentPriceRange();
+    const [centeredness, isPoolAboveCenter] = await extensionEntryPoint.computeCurrentPoolCenteredness();
+    const lastTimestamp = await extensionEntryPoint.getLastTimestamp();
+
+    expect([derived.minPrice, derived.maxPrice]).to.be.deep.eq([minPrice.toString(), maxPrice.toString()]);
+    expect(derived.spotPrice).to.be.eq((await extensionEntryPoint.computeCurrentSpotPrice()).toString());
+    expect(derived.priceRatio).to.be.eq((await extensionEntryPoint.computeCurrentPriceRatio()).toString());
+    expect(derived.centeredness).to.be.eq(centeredness.toString());
+    expect(derived.isPoolAboveCenter).to.be.eq(isPoolAboveCenter);
+    expect(derived.isPoolWithinTargetRange).to.be.eq(await pool.isPoolWithinTargetRange());
+    expect(derived.priceRatioUpdate.status).to.be.eq('none');
+    expect(derived.secondsSinceLastTimestamp).to.be.eq(((await currentTimestamp()) - lastTimestamp).toString());
+  });
+
+  it('text report shows price ratio updates', async () => {
+    const updateStartTimestamp = (await currentTimestamp()) + 1n;
+    await pool.connect(bob).startPriceRatioUpdate(fp(8), updateStartTimestamp, updateStartTimestamp + BigInt(DAY));
+    await advanceTime(DAY / 2);
+
+    const output = await run('reclamm:inspect', { pool: await pool.getAddress() });
+
+    expect(output).to.contain('TKN_A per TKN_B');
+    expect(output).to.match(/Price ratio update: +updating 50/);
+    expect(output).to.contain('in range');
+  });
+});
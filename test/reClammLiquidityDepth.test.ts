@@ -0,0 +1,113 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { fp } from '@balancer-labs/v3-helpers/src/numbers';
+import { MAX_UINT256 } from '@balancer-labs/v3-helpers/src/constants';
+import { IVaultMock } from '@balancer-labs/v3-interfaces/typechain-types';
+import { ReClammPool, ReClammPoolExtension } from '../typechain-types';
+import { currentTimestamp } from '@balancer-labs/v3-helpers/src/time';
+import { expectEqualWithError } from './utils/relativeError';
+import { ReClammPoolState } from './utils/reClammPoolState';
+import { computeLiquidityDepth, formatLiquidityDepthTable, liquidityDepthToJSON } from './utils/liquidityDepth';
+import { deployReClammPoolFixture } from './utils/reClammPoolFixture';
+
+describe('ReClammPool liquidity depth', function () {
+  const priceRatioError = 0.00001; // 0.001% error tolerance.
+
+  let vault: IVaultMock;
+  let pool: ReClammPool;
+  let extensionEntryPoint: ReClammPoolExtension;
+  let router: Router;
+  let bob: SignerWithAddress;
+  let poolTokens: string[];
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({ vault, pool, extensionEntryPoint, router, bob, poolTokens } = await deployReClammPoolFixture());
+  });
+
+  it('depth trades move the spot price by the requested amounts', async () => {
+    const state = ReClammPoolState.fromPoolData(
+      await extensionEntryPoint.getReClammPoolDynamicData(),
+      await extensionEntryPoint.getReClammPoolImmutableData()
+    );
+    const timestamp = (await currentTimestamp()) + 10n;
+
+    const depth = computeLiquidityDepth(state, { timestamp });
+    expect(depth.spotPrice).to.be.eq(state.computeCurrentSpotPrice(timestamp));
+    // Down and up for each default move, followed by both range edges.
+    expect(depth.points).to.have.length(8);
+
+    const moves = depth.points.filter((point) => point.priceMove !== undefined);
+    for (const point of moves) {
+      expect(point.reachable).to.be.true;
+      expectEqualWithError(point.spotPriceAfter, point.targetSpotPrice, priceRatioError);
+      expect(point.swapFeeAmountScaled18).to.be.gt(0n);
+    }
+
+    // Larger moves take larger trades, at worse prices.
+    for (const direction of ['down', 'up']) {
+      const points = moves.filter((point) => point.direction == direction);
+      for (let i = 1; i < points.length; i++) {
+        expect(points[i].amountInScaled18).to.be.gt(points[i - 1].amountInScaled18);
+        if (direction == 'up') {
+          expect(points[i].effectivePrice).to.be.gt(points[i - 1].effectivePrice);
+        } else {
+          expect(points[i].effectivePrice).to.be.lt(points[i - 1].effectivePrice);
+        }
+      }
+    }
+
+    // Buy the first pool token with the second one, to move the price up by 1%.
+    const point = moves.find((point) => point.direction == 'up' && point.priceMove == fp(0.01));
+    if (point === undefined) {
+      throw new Error('Missing depth point');
+    }
+
+    const [, , balancesRawBefore] = await vault.getPoolTokenInfo(pool);
+    await ethers.provider.send('evm_setNextBlockTimestamp', [Number(timestamp)]);
+    await router
+      .connect(bob)
+      .swapSingleTokenExactIn(pool, poolTokens[1], poolTokens[0], point.amountInRaw, 0, MAX_UINT256, false, '0x');
+    const [, , balancesRawAfter] = await vault.getPoolTokenInfo(pool);
+
+    // One of the tokens has 6 decimals, so the amounts are rounded.
+    expectEqualWithError(balancesRawBefore[0] - balancesRawAfter[0], point.amountOutRaw, priceRatioError);
+    expectEqualWithError(await extensionEntryPoint.computeCurrentSpotPrice(), point.targetSpotPrice, priceRatioError);
+  });
+
+  it('range edges take out the real balances', async () => {
+    const dynamicData = await extensionEntryPoint.getReClammPoolDynamicData();
+    const state = ReClammPoolState.fromPoolData(dynamicData, await extensionEntryPoint.getReClammPoolImmutableData());
+    const timestamp = await currentTimestamp();
+
+    const depth = computeLiquidityDepth(state, { timestamp, priceMoves: [fp(0.9)] });
+    const [minPrice, maxPrice] = state.computeCurrentPriceRange(timestamp);
+
+    // Selling the first pool token drains the second one, and the other way around.
+    expect(depth.maxAmountsOutScaled18).to.be.deep.eq([
+      dynamicData.balancesLiveScaled18[1],
+      dynamicData.balancesLiveScaled18[0],
+    ]);
+
+    const [downEdge, upEdge] = depth.points.filter((point) => point.priceMove === undefined);
+    expect(downEdge.targetSpotPrice).to.be.eq(minPrice);
+    expect(upEdge.targetSpotPrice).to.be.eq(maxPrice);
+    expectEqualWithError(downEdge.spotPriceAfter, minPrice, priceRatioError);
+    expectEqualWithError(upEdge.spotPriceAfter, maxPrice, priceRatioError);
+
+    // A 90% drop goes past the minimum price, so it stops at the edge.
+    const [down] = depth.points;
+    expect(down.reachable).to.be.false;
+    expect(down.amountOutScaled18).to.be.eq(downEdge.amountOutScaled18);
+
+    const table = formatLiquidityDepthTable(depth);
+    expect(table).to.contain('range edge');
+    expect(table).to.contain('(unreachable)');
+
+    const json = JSON.parse(liquidityDepthToJSON(depth));
+    expect(json.points).to.have.length(4);
+    expect(json.maxAmountsInScaled18).to.be.deep.eq(depth.maxAmountsInScaled18.map((amount) => amount.toString()));
+  });
+});
@@ -0,0 +1,110 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { ERC20TestToken } from '@balancer-labs/v3-solidity-utils/typechain-types/contracts/test/ERC20TestToken';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { fp } from '@balancer-labs/v3-helpers/src/numbers';
+import { MAX_UINT256 } from '@balancer-labs/v3-helpers/src/constants';
+import { IVaultMock } from '@balancer-labs/v3-interfaces/typechain-types';
+import { ReClammPool, ReClammPoolExtension } from '../typechain-types';
+import { advanceTime, currentTimestamp, DAY, HOUR } from '@balancer-labs/v3-helpers/src/time';
+import { ReClammPoolDynamicData } from './utils/reClammPoolData';
+import { computeProportionalAmountsIn, computeProportionalAmountsOut } from './utils/liquidityQuoter';
+import { deployReClammPoolFixture, INITIAL_BALANCE_A } from './utils/reClammPoolFixture';
+
+describe('ReClammPool proportional liquidity', function () {
+  let vault: IVaultMock;
+  let pool: ReClammPool;
+  let extensionEntryPoint: ReClammPoolExtension;
+  let router: Router;
+  let bob: SignerWithAddress;
+  let tokenA: ERC20TestToken;
+  let tokenB: ERC20TestToken;
+  let tokenAIdx: number;
+  let tokenBIdx: number;
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({ vault, pool, extensionEntryPoint, router, bob, tokenA, tokenB, tokenAIdx, tokenBIdx } =
+      await deployReClammPoolFixture());
+  });
+
+  // Token balances of bob, in pool token order.
+  async function getTokenBalances(): Promise<bigint[]> {
+    const balances: bigint[] = [];
+    balances[tokenAIdx] = await tokenA.balanceOf(bob);
+    balances[tokenBIdx] = await tokenB.balanceOf(bob);
+    return balances;
+  }
+
+  async function checkPoolMatchesModel(expectedDynamicData: ReClammPoolDynamicData, balancesRaw: bigint[]) {
+    const dynamicData = await extensionEntryPoint.getReClammPoolDynamicData();
+    const [, , poolBalancesRaw] = await vault.getPoolTokenInfo(pool);
+
+    expect([...poolBalancesRaw]).to.be.deep.eq(balancesRaw);
+    expect([...dynamicData.balancesLiveScaled18]).to.be.deep.eq(expectedDynamicData.balancesLiveScaled18);
+    expect(dynamicData.totalSupply).to.be.eq(expectedDynamicData.totalSupply);
+    expect([...(await extensionEntryPoint.getLastVirtualBalances())]).to.be.deep.eq(
+      expectedDynamicData.lastVirtualBalances
+    );
+    expect(await extensionEntryPoint.getLastTimestamp()).to.be.eq(expectedDynamicData.lastTimestamp);
+  }
+
+  it('model matches proportional joins and exits', async () => {
+    // Take the pool out of range, so that the hooks also move the price range before scaling the virtual balances.
+    await router
+      .connect(bob)
+      .swapSingleTokenExactIn(pool, tokenA, tokenB, INITIAL_BALANCE_A / 2n, 0, MAX_UINT256, false, '0x');
+    await advanceTime(HOUR);
+
+    const immutableData = await extensionEntryPoint.getReClammPoolImmutableData();
+    const [, , balancesRaw] = await vault.getPoolTokenInfo(pool);
+
+    const addTimestamp = (await currentTimestamp()) + 10n;
+    const addQuote = computeProportionalAmountsIn(
+      await extensionEntryPoint.getReClammPoolDynamicData(),
+      immutableData,
+      fp(10),
+      { timestamp: addTimestamp, balancesRaw: [...balancesRaw] }
+    );
+
+    const balancesBeforeAdd = await getTokenBalances();
+    await ethers.provider.send('evm_setNextBlockTimestamp', [Number(addTimestamp)]);
+    await router.connect(bob).addLiquidityProportional(pool, [MAX_UINT256, MAX_UINT256], fp(10), false, '0x');
+    const balancesAfterAdd = await getTokenBalances();
+
+    expect(balancesBeforeAdd.map((balance, i) => balance - balancesAfterAdd[i])).to.be.deep.eq(addQuote.amountsRaw);
+    await checkPoolMatchesModel(addQuote.dynamicData, addQuote.balancesRaw);
+
+    // Chain the exit on the modeled state, after the price range moved for another day.
+    const removeTimestamp = addTimestamp + BigInt(DAY);
+    const removeQuote = computeProportionalAmountsOut(addQuote.dynamicData, immutableData, fp(25), {
+      timestamp: removeTimestamp,
+      balancesRaw: addQuote.balancesRaw,
+    });
+
+    await ethers.provider.send('evm_setNextBlockTimestamp', [Number(removeTimestamp)]);
+    await router.connect(bob).removeLiquidityProportional(pool, fp(25), [0, 0], false, '0x');
+    const balancesAfterRemove = await getTokenBalances();
+
+    expect(balancesAfterRemove.map((balance, i) => balance - balancesAfterAdd[i])).to.be.deep.eq(
+      removeQuote.amountsRaw
+    );
+    await checkPoolMatchesModel(removeQuote.dynamicData, removeQuote.balancesRaw);
+  });
+
+  it('model reverts like the vault', async () => {
+    const dynamicData = await extensionEntryPoint.getReClammPoolDynamicData();
+    const immutableData = await extensionEntryPoint.getReClammPoolImmutableData();
+
+    // The smallest amount of token B is below the minimum trade amount.
+    expect(() => computeProportionalAmountsIn(dynamicData, immutableData, 1000n)).to.throw('TradeAmountTooSmall');
+    await expect(
+      router.connect(bob).addLiquidityProportional(pool, [MAX_UINT256, MAX_UINT256], 1000n, false, '0x')
+    ).to.be.revertedWithCustomError(vault, 'TradeAmountTooSmall');
+
+    expect(() => computeProportionalAmountsOut(dynamicData, immutableData, dynamicData.totalSupply)).to.throw(
+      'PoolTotalSupplyTooLow'
+    );
+  });
+});
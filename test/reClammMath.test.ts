@@ -6,14 +6,15 @@ import { expect } from 'chai';
 import { bn, fp } from '@balancer-labs/v3-helpers/src/numbers';
 import {
   computeCenteredness,
-  calculateInGivenOut,
-  calculateOutGivenIn,
+  computeInGivenOut,
+  computeOutGivenIn,
   computeFourthRootPriceRatio,
   computeInvariant,
   computeCurrentVirtualBalances,
   isAboveCenter,
   isPoolWithinTargetRange,
   toDailyPriceShiftBase,
+  toDailyPriceShiftExponent,
   pureComputeInvariant,
   Rounding,
   PriceRatioState,
@@ -21,7 +22,6 @@ import {
   computePriceRange,
   computePriceRatio,
 } from './utils/reClammMath';
-import { expectEqualWithError } from './utils/relativeError';
 
 const DAILY_PRICE_SHIFT_BASE = fp(1) - fp(1) / 124000n;
 const CENTEREDNESS_MARGIN = fp(0.2);
@@ -46,8 +46,6 @@ const getPriceRatioState = async (endTimeOffset = 0): Promise<PriceRatioState> =
 };
 
 describe('ReClammMath', function () {
-  const EXPECTED_RELATIVE_ERROR = 1e-12;
-
   let mathLib: Contract;
 
   before(async function () {
@@ -63,6 +61,15 @@ describe('ReClammMath', function () {
     });
   });
 
+  describe('toDailyPriceShiftExponent', () => {
+    it('should return the correct value', async () => {
+      const dailyPriceShiftBase = toDailyPriceShiftBase(bn(50e16));
+      const contractResult = await mathLib.toDailyPriceShiftExponent(dailyPriceShiftBase);
+
+      expect(contractResult).to.equal(toDailyPriceShiftExponent(dailyPriceShiftBase));
+    });
+  });
+
   describe('isAboveCenter', () => {
     it('balancesScaled18[1] == 0', async () => {
       const balances = [bn(300e18), bn(0)];
@@ -228,16 +235,15 @@ describe('ReClammMath', function () {
         priceRatio: priceRatioJs,
       } = computeTheoreticalPriceRatioAndBalances(minPrice, maxPrice, targetPrice);
 
-      // Error of 0.0001%, because the sqrt libraries behave a bit differently
-      expectEqualWithError(theoreticalBalancesSol[0], theoreticalBalancesJs[0], 0.000001);
-      expectEqualWithError(theoreticalBalancesSol[1], theoreticalBalancesJs[1], 0.000001);
-      expectEqualWithError(virtualBalancesSol[0], virtualBalancesJs[0], 0.000001);
-      expectEqualWithError(virtualBalancesSol[1], virtualBalancesJs[1], 0.000001);
-      expectEqualWithError(priceRatioSol, priceRatioJs, 0.000001);
+      expect(theoreticalBalancesSol[0]).to.equal(theoreticalBalancesJs[0]);
+      expect(theoreticalBalancesSol[1]).to.equal(theoreticalBalancesJs[1]);
+      expect(virtualBalancesSol[0]).to.equal(virtualBalancesJs[0]);
+      expect(virtualBalancesSol[1]).to.equal(virtualBalancesJs[1]);
+      expect(priceRatioSol).to.equal(priceRatioJs);
     });
   });
 
-  describe('calculateInGivenOut', () => {
+  describe('computeInGivenOut', () => {
     it('should return the correct value', async () => {
       const balancesScaled18 = [bn(200e18), bn(300e18)];
       const virtualBalances = [bn(100e18), bn(100e18)];
@@ -253,12 +259,25 @@ describe('ReClammMath', function () {
         amountGivenScaled18
       );
       expect(res).to.equal(
-        calculateInGivenOut(balancesScaled18, virtualBalances, tokenInIndex, tokenOutIndex, amountGivenScaled18)
+        computeInGivenOut(balancesScaled18, virtualBalances, tokenInIndex, tokenOutIndex, amountGivenScaled18)
+      );
+    });
+
+    it('should revert if the amount out is greater than the balance', async () => {
+      const balancesScaled18 = [bn(200e18), bn(300e18)];
+      const virtualBalances = [bn(100e18), bn(100e18)];
+      const amountGivenScaled18 = bn(301e18);
+
+      await expect(
+        mathLib.computeInGivenOut(balancesScaled18, virtualBalances, 0, 1, amountGivenScaled18)
+      ).to.be.revertedWithCustomError(mathLib, 'AmountOutGreaterThanBalance');
+      expect(() => computeInGivenOut(balancesScaled18, virtualBalances, 0, 1, amountGivenScaled18)).to.throw(
+        'AmountOutGreaterThanBalance'
       );
     });
   });
 
-  describe('calculateOutGivenIn', () => {
+  describe('computeOutGivenIn', () => {
     it('should return the correct value', async () => {
       const balancesScaled18 = [bn(200e18), bn(300e18)];
       const virtualBalances = [bn(100e18), bn(100e18)];
@@ -274,7 +293,21 @@ describe('ReClammMath', function () {
         amountGivenScaled18
       );
       expect(res).to.equal(
-        calculateOutGivenIn(balancesScaled18, virtualBalances, tokenInIndex, tokenOutIndex, amountGivenScaled18)
+        computeOutGivenIn(balancesScaled18, virtualBalances, tokenInIndex, tokenOutIndex, amountGivenScaled18)
+      );
+    });
+
+    it('should revert if the amount out is greater than the balance', async () => {
+      const balancesScaled18 = [bn(200e18), bn(300e18)];
+      const virtualBalances = [bn(100e18), bn(100e18)];
+      // The amount out tends to `Bo + Vo` as the amount in grows, which is greater than the real balance out.
+      const amountGivenScaled18 = bn(1e30);
+
+      await expect(
+        mathLib.computeOutGivenIn(balancesScaled18, virtualBalances, 0, 1, amountGivenScaled18)
+      ).to.be.revertedWithCustomError(mathLib, 'AmountOutGreaterThanBalance');
+      expect(() => computeOutGivenIn(balancesScaled18, virtualBalances, 0, 1, amountGivenScaled18)).to.throw(
+        'AmountOutGreaterThanBalance'
       );
     });
   });
@@ -380,7 +413,7 @@ describe('ReClammMath', function () {
         priceRatioUpdateEndTime
       );
 
-      expectEqualWithError(contractResult, mathResult, EXPECTED_RELATIVE_ERROR);
+      expect(contractResult).to.equal(mathResult);
       expect(contractResult).to.not.equal(startFourthRootPriceRatioFp);
       expect(contractResult).to.not.equal(endFourthRootPriceRatioFp);
     });
@@ -420,8 +453,8 @@ describe('ReClammMath', function () {
 
       expect(contractCurrentVirtualBalances.length).to.equal(jsCurrentVirtualBalances.length);
       expect(contractCurrentVirtualBalances.length).to.equal(2);
-      expectEqualWithError(contractCurrentVirtualBalances[0], jsCurrentVirtualBalances[0], EXPECTED_RELATIVE_ERROR);
-      expectEqualWithError(contractCurrentVirtualBalances[1], jsCurrentVirtualBalances[1], EXPECTED_RELATIVE_ERROR);
+      expect(contractCurrentVirtualBalances[0]).to.equal(jsCurrentVirtualBalances[0]);
+      expect(contractCurrentVirtualBalances[1]).to.equal(jsCurrentVirtualBalances[1]);
       expect(contractChanged).to.equal(jsChanged);
       expect(contractChanged).to.equal(expectChange);
 
@@ -578,8 +611,7 @@ describe('ReClammMath', function () {
         rounding
       );
 
-      // Small error, due to pow function implementation.
-      expectEqualWithError(res, jsRes, 1e-16);
+      expect(res).to.equal(jsRes);
     });
 
     it('should return the correct value (roundDown)', async () => {
@@ -617,8 +649,7 @@ describe('ReClammMath', function () {
         rounding
       );
 
-      // Small error, due to pow function implementation.
-      expectEqualWithError(res, jsRes, 1e-16);
+      expect(res).to.equal(jsRes);
     });
   });
 });
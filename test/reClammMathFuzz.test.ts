@@ -0,0 +1,73 @@
+import { Contract } from 'ethers';
+import { deploy } from '@balancer-labs/v3-helpers/src/contract';
+
+import { expect } from 'chai';
+import { fp } from '@balancer-labs/v3-helpers/src/numbers';
+import {
+  createMathMockExecutor,
+  formatFuzzReport,
+  FuzzExecutor,
+  FuzzSpec,
+  RECLAMM_MATH_FUZZ_SPECS,
+  replayFuzzCase,
+  runDifferentialFuzz,
+} from './utils/differentialFuzzer';
+
+const SEED = 20250615;
+const CASES_PER_FUNCTION = 25;
+
+describe('ReClammMath differential fuzzing', function () {
+  let mathLib: Contract;
+  let executor: FuzzExecutor;
+
+  before(async function () {
+    mathLib = await deploy('ReClammMathMock');
+    executor = createMathMockExecutor(mathLib);
+  });
+
+  it('TS model matches ReClammMathMock', async () => {
+    const report = await runDifferentialFuzz(executor, RECLAMM_MATH_FUZZ_SPECS, {
+      seed: SEED,
+      casesPerFunction: CASES_PER_FUNCTION,
+    });
+
+    const failures = Object.values(report.stats).flatMap((stats) => stats.failures);
+    expect(failures, formatFuzzReport(report)).to.be.empty;
+
+    for (const [signature, stats] of Object.entries(report.stats)) {
+      expect(stats.cases, signature).to.be.eq(CASES_PER_FUNCTION);
+      expect(stats.maxAbsoluteError, signature).to.be.eq(0n);
+    }
+  });
+
+  it('shrinks failing cases and replays them from their seed', async () => {
+    // Model with an off-by-one error whenever the balance of token A is at least 1.
+    const signature = 'computeCenteredness(uint256[],uint256[])';
+    const brokenSpec: FuzzSpec = {
+      ...RECLAMM_MATH_FUZZ_SPECS[signature],
+      model: (args, currentTimestamp) => {
+        const centeredness = RECLAMM_MATH_FUZZ_SPECS[signature].model(args, currentTimestamp) as bigint;
+        const [balances] = args as [bigint[]];
+        return balances[0] >= fp(1) ? centeredness + 1n : centeredness;
+      },
+    };
+
+    const report = await runDifferentialFuzz(
+      executor,
+      { ...RECLAMM_MATH_FUZZ_SPECS, [signature]: brokenSpec },
+      { seed: SEED, casesPerFunction: 3, functions: [signature] }
+    );
+
+    const [failure] = report.stats[signature].failures;
+    expect(failure).to.not.be.undefined;
+    expect(report.stats[signature].maxAbsoluteError).to.be.eq(1n);
+
+    // The smallest failing balance of token A is exactly 1, and every other input shrinks to zero.
+    expect(failure.shrunkCase.args).to.be.deep.eq([
+      [fp(1), 0n],
+      [0n, 0n],
+    ]);
+
+    expect(await replayFuzzCase(executor, signature, brokenSpec, failure.caseSeed)).to.be.eq(failure.reason);
+  });
+});
@@ -0,0 +1,381 @@
+import { Contract, Result } from 'ethers';
+import { deploy } from '@balancer-labs/v3-helpers/src/contract';
+import { ethers } from 'hardhat';
+
+import { expect } from 'chai';
+import { fp, fpMulDown } from '@balancer-labs/v3-helpers/src/numbers';
+import {
+  computeCenteredness,
+  computeCurrentVirtualBalances,
+  computeFourthRootPriceRatio,
+  computeInGivenOut,
+  computeInvariant,
+  computeOutGivenIn,
+  computePriceRange,
+  computePriceRatio,
+  computeTheoreticalPriceRatioAndBalances,
+  computeVirtualBalancesUpdatingPriceRange,
+  computeVirtualBalancesUpdatingPriceRatio,
+  fourthRootScaled18,
+  isAboveCenter,
+  isPoolWithinTargetRange,
+  PriceRatioState,
+  pureComputeInvariant,
+  Rounding,
+  sqrtScaled18,
+  toDailyPriceShiftBase,
+  toDailyPriceShiftExponent,
+} from './utils/reClammMath';
+import { createRandom, Random } from './utils/random';
+import { FuzzSpec, fuzzSpec } from './utils/differentialFuzzer';
+
+const SEED = 20250601;
+const CASES_PER_FUNCTION = 20;
+
+const DAY = 86400;
+
+type PoolState = {
+  balancesScaled18: bigint[];
+  virtualBalances: bigint[];
+};
+
+const getTimestampFromLastBlock = async (): Promise<number> => {
+  const blockNumBefore = await ethers.provider.getBlockNumber();
+  const blockBefore = await ethers.provider.getBlock(blockNumBefore);
+  return blockBefore.timestamp;
+};
+
+// Builds a valid pool state from a random price interval, scaled by a random liquidity factor.
+const randomPoolState = (random: Random): PoolState => {
+  const minPrice = random.nextBigInt(fp(0.001), fp(1000));
+  const maxPrice = fpMulDown(minPrice, random.nextBigInt(fp(1.01), fp(1000)));
+  // Stay away from the edges, where one of the real balances would be (close to) zero.
+  const targetPrice = random.nextBigInt(fpMulDown(minPrice, fp(1.001)), fpMulDown(maxPrice, fp(0.999)));
+
+  const { realBalances, virtualBalances } = computeTheoreticalPriceRatioAndBalances(minPrice, maxPrice, targetPrice);
+  const liquidityFactor = random.nextBigInt(fp(0.001), fp(1000));
+
+  return {
+    balancesScaled18: realBalances.map((balance) => fpMulDown(balance, liquidityFactor)),
+    virtualBalances: virtualBalances.map((balance) => fpMulDown(balance, liquidityFactor)),
+  };
+};
+
+const randomFourthRootPriceRatio = (random: Random): bigint =>
+  fourthRootScaled18(random.nextBigInt(fp(1.01), fp(1000)));
+
+const randomPriceRatioState = (random: Random, pool: PoolState, now: number): PriceRatioState => {
+  const priceRatioUpdateStartTime = now - random.nextInt(0, 2 * DAY);
+
+  return {
+    priceRatioUpdateStartTime,
+    priceRatioUpdateEndTime: priceRatioUpdateStartTime + random.nextInt(0, 4 * DAY),
+    startFourthRootPriceRatio: fourthRootScaled18(
+      computePriceRatio(pool.balancesScaled18, pool.virtualBalances[0], pool.virtualBalances[1])
+    ),
+    endFourthRootPriceRatio: randomFourthRootPriceRatio(random),
+  };
+};
+
+const randomDailyPriceShiftBase = (random: Random): bigint => toDailyPriceShiftBase(random.nextBigInt(0n, fp(1)));
+
+const randomCenterednessMargin = (random: Random): bigint => random.nextBigInt(0n, fp(0.9));
+
+// Every function of ReClammMathMock must have an entry here (keyed by signature), so that adding a function to the
+// library without porting it to the TS model makes the coverage test fail.
+const PARITY_SPECS: Record<string, FuzzSpec> = {
+  'computeInvariant(uint256[],uint256[],uint256,uint32,uint64,uint8)': fuzzSpec({
+    generate: (random, now) => {
+      const pool = randomPoolState(random);
+      return {
+        args: [
+          pool.balancesScaled18,
+          pool.virtualBalances,
+          randomDailyPriceShiftBase(random),
+          now - random.nextInt(1, 40 * DAY),
+          randomCenterednessMargin(random),
+          random.nextBool() ? Rounding.ROUND_UP : Rounding.ROUND_DOWN,
+        ],
+        priceRatioState: randomPriceRatioState(random, pool, now),
+      };
+    },
+    model: ([balances, virtualBalances, base, lastTimestamp, margin, rounding], currentTimestamp, priceRatioState) =>
+      computeInvariant(
+        balances,
+        virtualBalances,
+        base,
+        lastTimestamp,
+        currentTimestamp,
+        margin,
+        priceRatioState as PriceRatioState,
+        rounding
+      ),
+  }),
+  'computeInvariant(uint256[],uint256[],uint8)': fuzzSpec({
+    generate: (random) => {
+      const pool = randomPoolState(random);
+      return {
+        args: [
+          pool.balancesScaled18,
+          pool.virtualBalances,
+          random.nextBool() ? Rounding.ROUND_UP : Rounding.ROUND_DOWN,
+        ],
+      };
+    },
+    model: ([balances, virtualBalances, rounding]) => pureComputeInvariant(balances, virtualBalances, rounding),
+  }),
+  'computeOutGivenIn(uint256[],uint256[],uint256,uint256,uint256)': fuzzSpec({
+    generate: (random) => {
+      const pool = randomPoolState(random);
+      const tokenInIndex = random.nextInt(0, 1);
+      // Large amounts in exercise the `AmountOutGreaterThanBalance` guard.
+      const amountIn = random.nextBigInt(1n, pool.balancesScaled18[1 - tokenInIndex] * 10n);
+      return { args: [pool.balancesScaled18, pool.virtualBalances, tokenInIndex, 1 - tokenInIndex, amountIn] };
+    },
+    model: ([balances, virtualBalances, tokenInIndex, tokenOutIndex, amountIn]) =>
+      computeOutGivenIn(balances, virtualBalances, tokenInIndex, tokenOutIndex, amountIn),
+  }),
+  'computeInGivenOut(uint256[],uint256[],uint256,uint256,uint256)': fuzzSpec({
+    generate: (random) => {
+      const pool = randomPoolState(random);
+      const tokenInIndex = random.nextInt(0, 1);
+      // Amounts slightly above the balance out exercise the `AmountOutGreaterThanBalance` guard.
+      const amountOut = random.nextBigInt(1n, (pool.balancesScaled18[1 - tokenInIndex] * 11n) / 10n);
+      return { args: [pool.balancesScaled18, pool.virtualBalances, tokenInIndex, 1 - tokenInIndex, amountOut] };
+    },
+    model: ([balances, virtualBalances, tokenInIndex, tokenOutIndex, amountOut]) =>
+      computeInGivenOut(balances, virtualBalances, tokenInIndex, tokenOutIndex, amountOut),
+  }),
+  'computeTheoreticalPriceRatioAndBalances(uint256,uint256,uint256)': fuzzSpec({
+    generate: (random) => {
+      const minPrice = random.nextBigInt(fp(0.001), fp(1000));
+      const maxPrice = fpMulDown(minPrice, random.nextBigInt(fp(1.01), fp(1000)));
+      const targetPrice = random.nextBigInt(fpMulDown(minPrice, fp(1.001)), fpMulDown(maxPrice, fp(0.999)));
+      return { args: [minPrice, maxPrice, targetPrice] };
+    },
+    model: ([minPrice, maxPrice, targetPrice]) => {
+      const { realBalances, virtualBalances, priceRatio } = computeTheoreticalPriceRatioAndBalances(
+        minPrice,
+        maxPrice,
+        targetPrice
+      );
+      return [realBalances, virtualBalances, priceRatio];
+    },
+  }),
+  'computeCurrentVirtualBalances(uint256[],uint256[],uint256,uint32,uint64)': fuzzSpec({
+    generate: (random, now) => {
+      const pool = randomPoolState(random);
+      return {
+        args: [
+          pool.balancesScaled18,
+          pool.virtualBalances,
+          randomDailyPriceShiftBase(random),
+          now - random.nextInt(1, 40 * DAY),
+          randomCenterednessMargin(random),
+        ],
+        priceRatioState: randomPriceRatioState(random, pool, now),
+      };
+    },
+    model: ([balances, virtualBalances, base, lastTimestamp, margin], currentTimestamp, priceRatioState) =>
+      computeCurrentVirtualBalances(
+        balances,
+        virtualBalances,
+        base,
+        lastTimestamp,
+        currentTimestamp,
+        margin,
+        priceRatioState as PriceRatioState
+      ),
+  }),
+  'computeVirtualBalancesUpdatingPriceRatio(uint256,uint256[],uint256[])': fuzzSpec({
+    generate: (random) => {
+      const pool = randomPoolState(random);
+      return { args: [randomFourthRootPriceRatio(random), pool.balancesScaled18, pool.virtualBalances] };
+    },
+    model: ([fourthRootPriceRatio, balances, virtualBalances]) =>
+      computeVirtualBalancesUpdatingPriceRatio(fourthRootPriceRatio, balances, virtualBalances),
+  }),
+  'computeVirtualBalancesUpdatingPriceRange(uint256[],uint256[],bool,uint256,uint32,uint32)': fuzzSpec({
+    generate: (random, now) => {
+      const pool = randomPoolState(random);
+      return {
+        args: [
+          pool.balancesScaled18,
+          pool.virtualBalances,
+          isAboveCenter(pool.balancesScaled18, pool.virtualBalances),
+          randomDailyPriceShiftBase(random),
+          now,
+          now - random.nextInt(1, 40 * DAY),
+        ],
+      };
+    },
+    model: ([balances, virtualBalances, isPoolAboveCenter, base, currentTimestamp, lastTimestamp]) =>
+      computeVirtualBalancesUpdatingPriceRange(
+        balances,
+        virtualBalances,
+        isPoolAboveCenter,
+        base,
+        currentTimestamp,
+        lastTimestamp
+      ),
+  }),
+  'isPoolWithinTargetRange(uint256[],uint256[],uint256)': fuzzSpec({
+    generate: (random) => {
+      const pool = randomPoolState(random);
+      return { args: [pool.balancesScaled18, pool.virtualBalances, randomCenterednessMargin(random)] };
+    },
+    model: ([balances, virtualBalances, margin]) => isPoolWithinTargetRange(balances, virtualBalances, margin),
+  }),
+  'computeCenteredness(uint256[],uint256[])': fuzzSpec({
+    generate: (random) => {
+      const pool = randomPoolState(random);
+      return { args: [pool.balancesScaled18, pool.virtualBalances] };
+    },
+    model: ([balances, virtualBalances]) => computeCenteredness(balances, virtualBalances),
+  }),
+  'computeFourthRootPriceRatio(uint32,uint96,uint96,uint32,uint32)': fuzzSpec({
+    generate: (random, now) => {
+      const startTime = now - random.nextInt(0, 10 * DAY);
+      const endTime = startTime + random.nextInt(0, 20 * DAY);
+      return {
+        args: [
+          random.nextInt(startTime - DAY, endTime + DAY),
+          randomFourthRootPriceRatio(random),
+          randomFourthRootPriceRatio(random),
+          startTime,
+          endTime,
+        ],
+      };
+    },
+    model: ([currentTime, startFourthRootPriceRatio, endFourthRootPriceRatio, startTime, endTime]) =>
+      computeFourthRootPriceRatio(currentTime, startFourthRootPriceRatio, endFourthRootPriceRatio, startTime, endTime),
+  }),
+  'isAboveCenter(uint256[],uint256[])': fuzzSpec({
+    generate: (random) => {
+      const pool = randomPoolState(random);
+      return { args: [pool.balancesScaled18, pool.virtualBalances] };
+    },
+    model: ([balances, virtualBalances]) => isAboveCenter(balances, virtualBalances),
+  }),
+  'toDailyPriceShiftBase(uint256)': fuzzSpec({
+    generate: (random) => ({ args: [random.nextBigInt(0n, fp(1))] }),
+    model: ([dailyPriceShiftExponent]) => toDailyPriceShiftBase(dailyPriceShiftExponent),
+  }),
+  'toDailyPriceShiftExponent(uint256)': fuzzSpec({
+    generate: (random) => ({ args: [randomDailyPriceShiftBase(random)] }),
+    model: ([dailyPriceShiftBase]) => toDailyPriceShiftExponent(dailyPriceShiftBase),
+  }),
+  'sqrtScaled18(uint256)': fuzzSpec({
+    generate: (random) => ({ args: [random.nextBigInt(0n, fp(1e22))] }),
+    model: ([value]) => sqrtScaled18(value),
+  }),
+  'fourthRootScaled18(uint256)': fuzzSpec({
+    generate: (random) => ({ args: [random.nextBigInt(0n, fp(1e22))] }),
+    model: ([value]) => fourthRootScaled18(value),
+  }),
+  'computePriceRange(uint256[],uint256,uint256)': fuzzSpec({
+    generate: (random) => {
+      const pool = randomPoolState(random);
+      return { args: [pool.balancesScaled18, pool.virtualBalances[0], pool.virtualBalances[1]] };
+    },
+    model: ([balances, virtualBalanceA, virtualBalanceB]) =>
+      computePriceRange(balances, virtualBalanceA, virtualBalanceB),
+  }),
+  'computePriceRatio(uint256[],uint256,uint256)': fuzzSpec({
+    generate: (random) => {
+      const pool = randomPoolState(random);
+      return { args: [pool.balancesScaled18, pool.virtualBalances[0], pool.virtualBalances[1]] };
+    },
+    model: ([balances, virtualBalanceA, virtualBalanceB]) =>
+      computePriceRatio(balances, virtualBalanceA, virtualBalanceB),
+  }),
+};
+
+// Functions of the mock that only set up state, and have no counterpart in the library.
+const MOCK_SETTERS = ['startPriceRatioUpdate((uint96,uint96,uint32,uint32))'];
+
+// Converts ethers results (and TS tuples) to plain nested arrays, so that they can be deeply compared.
+const normalize = (value: unknown): unknown => {
+  if (value instanceof Result) {
+    return normalize(value.toArray());
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+
+  return value;
+};
+
+describe('ReClammMath parity', function () {
+  let mathLib: Contract;
+  const customErrors: string[] = [];
+
+  before(async function () {
+    mathLib = await deploy('ReClammMathMock');
+    mathLib.interface.forEachError((fragment) => customErrors.push(fragment.name));
+  });
+
+  it('covers every function of ReClammMathMock', async () => {
+    const signatures: string[] = [];
+    mathLib.interface.forEachFunction((fragment) => signatures.push(fragment.format('sighash')));
+
+    expect(signatures.filter((signature) => !MOCK_SETTERS.includes(signature)).sort()).to.deep.equal(
+      Object.keys(PARITY_SPECS).sort()
+    );
+  });
+
+  Object.entries(PARITY_SPECS).forEach(([signature, spec], specIndex) => {
+    it(`${signature.split('(')[0]} matches the contract (${signature})`, async () => {
+      const seed = SEED + specIndex;
+      const random = createRandom(seed);
+
+      for (let i = 0; i < CASES_PER_FUNCTION; i++) {
+        const { args, priceRatioState } = spec.generate(random, await getTimestampFromLastBlock());
+
+        if (priceRatioState) {
+          await (await mathLib.startPriceRatioUpdate(priceRatioState)).wait();
+        }
+
+        let contractResult: unknown;
+        let contractError: Error | undefined;
+        try {
+          contractResult = await mathLib.getFunction(signature).staticCall(...args);
+        } catch (error) {
+          contractError = error as Error;
+        }
+
+        // Make sure the timestamp used for off-chain calculations matches the one used by the lib.
+        const currentTimestamp = await getTimestampFromLastBlock();
+
+        let modelResult: unknown;
+        let modelError: Error | undefined;
+        try {
+          modelResult = spec.model(args, currentTimestamp, priceRatioState);
+        } catch (error) {
+          modelError = error as Error;
+        }
+
+        const context = `${signature} case #${i} (seed ${seed}): ${JSON.stringify(args, (_, v) =>
+          typeof v === 'bigint' ? v.toString() : v
+        )}`;
+
+        if (modelError) {
+          expect(contractError, context).to.not.be.undefined;
+
+          // The model throws the name of the custom error for the reverts it ports. Anything else (e.g., a bigint
+          // division by zero) stands for a panic or an arithmetic error, which has no name to match.
+          const call = mathLib.getFunction(signature).staticCall(...args);
+          if (customErrors.includes(modelError.message)) {
+            await expect(call, context).to.be.revertedWithCustomError(mathLib, modelError.message);
+          } else {
+            await expect(call, context).to.be.reverted;
+          }
+        } else {
+          expect(contractError, context).to.be.undefined;
+          expect(normalize(contractResult), context).to.deep.equal(normalize(modelResult));
+        }
+      }
+    });
+  });
+});
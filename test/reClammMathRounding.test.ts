@@ -0,0 +1,219 @@
+import { expect } from 'chai';
+import { bn, fp, FP_ONE, fpMulDown } from '@balancer-labs/v3-helpers/src/numbers';
+import {
+  computeCenteredness,
+  computePriceRange,
+  computeTheoreticalPriceRatioAndBalances,
+  computeVirtualBalancesUpdatingPriceRange,
+  computeVirtualBalancesUpdatingPriceRatio,
+  fourthRootScaled18,
+  isAboveCenter,
+  Rounding,
+  sqrtScaled18,
+  toDailyPriceShiftBase,
+} from './utils/reClammMath';
+import { createRandom } from './utils/random';
+import {
+  auditSwapRounding,
+  formatRoundingAuditPath,
+  formatRoundingAuditReport,
+  RoundingAuditReport,
+} from './utils/roundingAuditor';
+
+const SEED = 20250701;
+
+describe('ReClammMath rounding', function () {
+  describe('rounding variants', () => {
+    const { realBalances, virtualBalances } = computeTheoreticalPriceRatioAndBalances(fp(0.5), fp(8), fp(3));
+    // Far from the center, so that the price range has to move.
+    const balances = [realBalances[0] * 20n, realBalances[1] / 20n];
+
+    it('round up results are never below round down results', async () => {
+      expect(computeCenteredness(balances, virtualBalances, Rounding.ROUND_UP)).to.be.gte(
+        computeCenteredness(balances, virtualBalances, Rounding.ROUND_DOWN)
+      );
+
+      const priceRangeUp = computePriceRange(balances, virtualBalances[0], virtualBalances[1], Rounding.ROUND_UP);
+      const priceRangeDown = computePriceRange(balances, virtualBalances[0], virtualBalances[1], Rounding.ROUND_DOWN);
+      expect(priceRangeUp[0]).to.be.gte(priceRangeDown[0]);
+      expect(priceRangeUp[1]).to.be.gte(priceRangeDown[1]);
+
+      const fourthRootPriceRatio = fourthRootScaled18(fp(20));
+      const updatingPriceRatio = [Rounding.ROUND_UP, Rounding.ROUND_DOWN].map((rounding) =>
+        computeVirtualBalancesUpdatingPriceRatio(fourthRootPriceRatio, balances, virtualBalances, rounding)
+      );
+      expect(updatingPriceRatio[0][0]).to.be.gte(updatingPriceRatio[1][0]);
+      expect(updatingPriceRatio[0][1]).to.be.gte(updatingPriceRatio[1][1]);
+
+      const updatingPriceRange = [Rounding.ROUND_UP, Rounding.ROUND_DOWN].map((rounding) =>
+        computeVirtualBalancesUpdatingPriceRange(
+          balances,
+          virtualBalances,
+          true,
+          toDailyPriceShiftBase(fp(1)),
+          86400,
+          0,
+          rounding
+        )
+      );
+      expect(updatingPriceRange[0][0]).to.be.gte(updatingPriceRange[1][0]);
+      expect(updatingPriceRange[0][1]).to.be.gte(updatingPriceRange[1][1]);
+    });
+
+    it('round up results are never below the exact values', async () => {
+      const random = createRandom(SEED);
+
+      for (let i = 0; i < 200; i++) {
+        const minPrice = random.nextBigInt(fp(0.001), fp(1000));
+        const maxPrice = fpMulDown(minPrice, random.nextBigInt(fp(1.01), fp(1000)));
+        const targetPrice = random.nextBigInt(fpMulDown(minPrice, fp(1.001)), fpMulDown(maxPrice, fp(0.999)));
+        const pool = computeTheoreticalPriceRatioAndBalances(minPrice, maxPrice, targetPrice);
+        const [virtualBalanceA, virtualBalanceB] = pool.virtualBalances;
+        const [totalBalanceA, totalBalanceB] = pool.realBalances.map((balance, j) => balance + pool.virtualBalances[j]);
+
+        // Pmin = Vb^2 / ((Ra + Va) * (Rb + Vb)), and Pmax = (Ra + Va) * (Rb + Vb) / Va^2.
+        const [minPriceUp, maxPriceUp] = computePriceRange(
+          pool.realBalances,
+          virtualBalanceA,
+          virtualBalanceB,
+          Rounding.ROUND_UP
+        );
+        expect(minPriceUp * totalBalanceA * totalBalanceB, `case #${i}`).to.be.gte(
+          virtualBalanceB * virtualBalanceB * FP_ONE
+        );
+        expect(maxPriceUp * virtualBalanceA * virtualBalanceA, `case #${i}`).to.be.gte(
+          totalBalanceA * totalBalanceB * FP_ONE
+        );
+      }
+    });
+
+    it('round up virtual balances are never below the exact values', async () => {
+      const random = createRandom(SEED);
+      let clampedCases = 0;
+
+      for (let i = 0; i < 200; i++) {
+        const minPrice = random.nextBigInt(fp(0.001), fp(1000));
+        const maxPrice = fpMulDown(minPrice, random.nextBigInt(fp(1.01), fp(1000)));
+        // Every other pool starts at the center, so that Vo is clamped to its minimum.
+        const targetPrice =
+          i % 2 == 0
+            ? sqrtScaled18(fpMulDown(minPrice, maxPrice))
+            : random.nextBigInt(fpMulDown(minPrice, fp(1.001)), fpMulDown(maxPrice, fp(0.999)));
+        const pool = computeTheoreticalPriceRatioAndBalances(minPrice, maxPrice, targetPrice);
+        const [virtualBalanceA, virtualBalanceB] = pool.virtualBalances;
+
+        const isPoolAboveCenter = isAboveCenter(pool.realBalances, pool.virtualBalances);
+        const [indexUndervalued, indexOvervalued] = isPoolAboveCenter ? [0, 1] : [1, 0];
+        const [realBalanceUndervalued, realBalanceOvervalued] = [
+          pool.realBalances[indexUndervalued],
+          pool.realBalances[indexOvervalued],
+        ];
+
+        // Short durations, so that the exact shift factor Psb^duration is a fraction of small enough integers.
+        const dailyPriceShiftBase = toDailyPriceShiftBase(random.nextBigInt(0n, fp(1)));
+        const duration = random.nextInt(1, 100);
+        const virtualBalancesUp = computeVirtualBalancesUpdatingPriceRange(
+          pool.realBalances,
+          pool.virtualBalances,
+          isPoolAboveCenter,
+          dailyPriceShiftBase,
+          duration,
+          0,
+          Rounding.ROUND_UP
+        );
+        const [virtualBalanceUndervaluedUp, virtualBalanceOvervaluedUp] = [
+          virtualBalancesUp[indexUndervalued],
+          virtualBalancesUp[indexOvervalued],
+        ];
+
+        // Qo = T / (Va * Vb), with T = (Ra + Va) * (Rb + Vb).
+        const totalBalancesProduct =
+          (pool.realBalances[0] + virtualBalanceA) * (pool.realBalances[1] + virtualBalanceB);
+        const virtualBalancesProduct = virtualBalanceA * virtualBalanceB;
+        // sqrt(Qo) >= 1 + R / V <=> T * V^2 >= (V + R)^2 * Va * Vb
+        const isSqrtPriceRatioAtLeast = (realBalance: bigint, virtualBalance: bigint) =>
+          totalBalancesProduct * virtualBalance * virtualBalance >=
+          (virtualBalance + realBalance) ** 2n * virtualBalancesProduct;
+
+        // The shifted Vo = N / M.
+        const shiftedNumerator = pool.virtualBalances[indexOvervalued] * dailyPriceShiftBase ** bn(duration);
+        const shiftedDenominator = FP_ONE ** bn(duration);
+
+        // Vo = max(N / M, Ro / (sqrt(Qo) - 1))
+        expect(virtualBalanceOvervaluedUp * shiftedDenominator, `case #${i}`).to.be.gte(shiftedNumerator);
+        expect(isSqrtPriceRatioAtLeast(realBalanceOvervalued, virtualBalanceOvervaluedUp), `case #${i}`).to.be.true;
+
+        if (isSqrtPriceRatioAtLeast(realBalanceOvervalued * shiftedDenominator, shiftedNumerator)) {
+          // Vu = Ru * (Vo + Ro) / ((Qo - 1) * Vo - Ro), with Vo = N / M.
+          expect(
+            virtualBalanceUndervaluedUp *
+              ((totalBalancesProduct - virtualBalancesProduct) * shiftedNumerator -
+                realBalanceOvervalued * shiftedDenominator * virtualBalancesProduct),
+            `case #${i}`
+          ).to.be.gte(
+            realBalanceUndervalued *
+              (shiftedNumerator + realBalanceOvervalued * shiftedDenominator) *
+              virtualBalancesProduct
+          );
+        } else {
+          // With Vo = Ro / (sqrt(Qo) - 1), Vu = Ru / (sqrt(Qo) - 1).
+          expect(isSqrtPriceRatioAtLeast(realBalanceUndervalued, virtualBalanceUndervaluedUp), `case #${i}`).to.be.true;
+          clampedCases++;
+        }
+      }
+
+      expect(clampedCases).to.be.gt(0);
+      expect(clampedCases).to.be.lt(200);
+    });
+
+    it('defaults to the contract rounding', async () => {
+      expect(computeCenteredness(balances, virtualBalances)).to.be.eq(
+        computeCenteredness(balances, virtualBalances, Rounding.ROUND_DOWN)
+      );
+      expect(computePriceRange(balances, virtualBalances[0], virtualBalances[1])).to.be.deep.eq(
+        computePriceRange(balances, virtualBalances[0], virtualBalances[1], Rounding.ROUND_DOWN)
+      );
+    });
+  });
+
+  describe('swap rounding audit', () => {
+    let report: RoundingAuditReport;
+
+    before(async () => {
+      report = auditSwapRounding({ seed: SEED });
+    });
+
+    it('contract rounding never favors the user', async () => {
+      // The contract rounds the amount out down (ExactIn), and the amount in up (ExactOut).
+      const contractPaths = report.paths.filter(({ path }) =>
+        path.kind == 'ExactIn' ? path.rounding == Rounding.ROUND_DOWN : path.rounding == Rounding.ROUND_UP
+      );
+      expect(contractPaths).to.have.length(4);
+
+      for (const pathReport of contractPaths) {
+        const path = formatRoundingAuditPath(pathReport.path);
+        expect(pathReport.swaps, path).to.be.gt(0);
+        expect(pathReport.amountViolations, formatRoundingAuditReport(report)).to.be.eq(0);
+        expect(pathReport.invariantViolations, formatRoundingAuditReport(report)).to.be.eq(0);
+        expect(pathReport.worstViolation, path).to.be.undefined;
+      }
+    });
+
+    it('reports the paths with the opposite rounding', async () => {
+      const oppositePaths = report.paths.filter(({ path }) =>
+        path.kind == 'ExactIn' ? path.rounding == Rounding.ROUND_UP : path.rounding == Rounding.ROUND_DOWN
+      );
+      expect(oppositePaths).to.have.length(4);
+
+      for (const pathReport of oppositePaths) {
+        const path = formatRoundingAuditPath(pathReport.path);
+        expect(pathReport.amountViolations, path).to.be.gt(0);
+        expect(pathReport.invariantViolations, path).to.be.gt(0);
+        // A single division rounded the wrong way is off by at most 1 wei.
+        expect(pathReport.maxAmountError, path).to.be.eq(1n);
+        expect(pathReport.maxInvariantDecrease, path).to.be.gt(0n);
+        expect(pathReport.worstViolation?.amountError, path).to.be.eq(1n);
+      }
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { expect } from 'chai';
+import { fp } from '@balancer-labs/v3-helpers/src/numbers';
+import { HOUR } from '@balancer-labs/v3-helpers/src/time';
+import { optimizeParameters } from './utils/parameterOptimizer';
+import { MAX_CENTEREDNESS_MARGIN, MAX_DAILY_PRICE_SHIFT_EXPONENT } from './utils/reClammPoolData';
+
+describe('ReClammPool parameter optimizer', function () {
+  it('ranks parameter sets within the pool limits', async () => {
+    // Slow uptrend, so that the pool needs to follow the price.
+    const prices = Array.from({ length: 48 }, (_, i) => ({
+      timestamp: BigInt((i + 1) * HOUR),
+      price: fp(3 + i * 0.1),
+    }));
+
+    const results = optimizeParameters(
+      {
+        initialMinPrice: fp(0.5),
+        initialMaxPrice: fp(8),
+        initialTargetPrice: fp(3),
+        swapFeePercentage: fp(0.01),
+        initialBalanceA: fp(100),
+        initializationTimestamp: 0,
+      },
+      prices,
+      {
+        limits: {
+          maxDailyPriceShiftExponent: MAX_DAILY_PRICE_SHIFT_EXPONENT,
+          maxCenterednessMargin: MAX_CENTEREDNESS_MARGIN,
+        },
+        gridSize: 3,
+        refinementRounds: 1,
+      }
+    );
+
+    expect(results.map((result) => result.rank)).to.be.deep.eq(results.map((_, i) => i + 1));
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i].netReturn).to.be.lte(results[i - 1].netReturn);
+    }
+
+    for (const { dailyPriceShiftExponent, centerednessMargin } of results) {
+      expect(dailyPriceShiftExponent).to.be.lte(MAX_DAILY_PRICE_SHIFT_EXPONENT);
+      expect(centerednessMargin).to.be.lte(MAX_CENTEREDNESS_MARGIN);
+    }
+
+    // The initial grid covers the bounds of the allowed space.
+    const evaluatedSets = results.map((result) => [result.dailyPriceShiftExponent, result.centerednessMargin]);
+    expect(evaluatedSets).to.deep.include([0n, 0n]);
+    expect(evaluatedSets).to.deep.include([MAX_DAILY_PRICE_SHIFT_EXPONENT, MAX_CENTEREDNESS_MARGIN]);
+  });
+});
@@ -0,0 +1,169 @@
+import { ethers } from 'hardhat';
+import { VoidSigner } from 'ethers';
+import { expect } from 'chai';
+import { deploy } from '@balancer-labs/v3-helpers/src/contract';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { BatchRouter } from '@balancer-labs/v3-vault/typechain-types/contracts/BatchRouter';
+import { ERC20TestToken } from '@balancer-labs/v3-solidity-utils/typechain-types/contracts/test/ERC20TestToken';
+import { ERC4626TestToken } from '@balancer-labs/v3-solidity-utils/typechain-types/contracts/test/ERC4626TestToken';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { fp } from '@balancer-labs/v3-helpers/src/numbers';
+import { MAX_UINT256, MAX_UINT160, MAX_UINT48, ZERO_ADDRESS } from '@balancer-labs/v3-helpers/src/constants';
+import { IVaultMock } from '@balancer-labs/v3-interfaces/typechain-types';
+import { IPermit2 } from '@balancer-labs/v3-vault/typechain-types/permit2/src/interfaces/IPermit2';
+import { ReClammPool, ReClammPoolExtension } from '../typechain-types';
+import { advanceTime, currentTimestamp, HOUR } from '@balancer-labs/v3-helpers/src/time';
+import { PathModels, quoteBatchSwapExactIn, quoteBatchSwapExactOut } from './utils/pathQuoter';
+import { deployReClammPoolFixture, INITIAL_BALANCE_A, ROUTER_VERSION } from './utils/reClammPoolFixture';
+
+describe('ReClammPool path quoter', function () {
+  let permit2: IPermit2;
+  let vault: IVaultMock;
+  let pool: ReClammPool;
+  let extensionEntryPoint: ReClammPoolExtension;
+  let router: Router;
+  let bob: SignerWithAddress;
+  let tokenA: ERC20TestToken;
+  let tokenB: ERC20TestToken;
+  let tokenAAddress: string;
+  let tokenBAddress: string;
+
+  let batchRouter: BatchRouter;
+  let wrappedTokenA: ERC4626TestToken;
+  let wrappedTokenAAddress: string;
+  let zero: VoidSigner;
+
+  before('setup static call signer', async () => {
+    // Router queries must be static calls from the zero address.
+    zero = new VoidSigner(ZERO_ADDRESS, ethers.provider);
+  });
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({ permit2, vault, pool, extensionEntryPoint, router, bob, tokenA, tokenB, tokenAAddress, tokenBAddress } =
+      await deployReClammPoolFixture());
+  });
+
+  sharedBeforeEach('deploy batch router and buffer', async () => {
+    const WETH = await deploy('v3-solidity-utils/WETHTestToken');
+    batchRouter = await deploy('v3-vault/BatchRouter', { args: [vault, WETH, permit2, ROUTER_VERSION] });
+    const bufferRouter = await deploy('v3-vault/BufferRouter', { args: [vault, WETH, permit2, ROUTER_VERSION] });
+
+    wrappedTokenA = await deploy('v3-solidity-utils/ERC4626TestToken', {
+      args: [tokenA, 'Wrapped Token A', 'WTKN_A', 18],
+    });
+    wrappedTokenAAddress = await wrappedTokenA.getAddress();
+
+    // With `totalAssets + 1 = 1.5 * (totalSupply + 1)`, the previews of the wrapper round like a rate of exactly 1.5.
+    await tokenA.connect(bob).approve(wrappedTokenA, MAX_UINT256);
+    await wrappedTokenA.connect(bob).deposit(fp(1000) - 1n, bob);
+    await tokenA.connect(bob).transfer(wrappedTokenA, fp(500));
+
+    for (const token of [tokenA, wrappedTokenA]) {
+      await token.connect(bob).approve(permit2, MAX_UINT256);
+      await permit2.connect(bob).approve(token, bufferRouter, MAX_UINT160, MAX_UINT48);
+    }
+    await bufferRouter.connect(bob).initializeBuffer(wrappedTokenA, fp(100), fp(100), 0);
+  });
+
+  async function loadPathModels(): Promise<PathModels> {
+    return {
+      pools: {
+        [await pool.getAddress()]: {
+          dynamicData: await extensionEntryPoint.getReClammPoolDynamicData(),
+          immutableData: await extensionEntryPoint.getReClammPoolImmutableData(),
+        },
+      },
+      buffers: {
+        [wrappedTokenAAddress]: {
+          underlyingToken: tokenAAddress,
+          rate: await wrappedTokenA.convertToAssets(fp(1)),
+        },
+      },
+    };
+  }
+
+  // Unwraps token A, goes through the pool twice and wraps the result again.
+  function roundTripSteps(poolAddress: string) {
+    return [
+      { pool: wrappedTokenAAddress, tokenOut: tokenAAddress, isBuffer: true },
+      { pool: poolAddress, tokenOut: tokenBAddress, isBuffer: false },
+      { pool: poolAddress, tokenOut: tokenAAddress, isBuffer: false },
+      { pool: wrappedTokenAAddress, tokenOut: wrappedTokenAAddress, isBuffer: true },
+    ];
+  }
+
+  sharedBeforeEach('move the pool out of range', async () => {
+    await router
+      .connect(bob)
+      .swapSingleTokenExactIn(pool, tokenA, tokenB, INITIAL_BALANCE_A / 2n, 0, MAX_UINT256, false, '0x');
+    // Let the virtual balances drift, so that the first hop updates them.
+    await advanceTime(HOUR);
+  });
+
+  it('exact in quotes match the batch router query', async () => {
+    const poolAddress = await pool.getAddress();
+    const models = await loadPathModels();
+    expect(models.buffers?.[wrappedTokenAAddress].rate).to.be.eq(fp(1.5));
+
+    const paths = [
+      { tokenIn: wrappedTokenAAddress, steps: roundTripSteps(poolAddress), exactAmountIn: fp(10), minAmountOut: 0n },
+      {
+        tokenIn: tokenAAddress,
+        steps: [{ pool: poolAddress, tokenOut: tokenBAddress, isBuffer: false }],
+        exactAmountIn: fp(1),
+        minAmountOut: 0n,
+      },
+    ];
+
+    // Queries are executed with the timestamp of the last block.
+    const quote = quoteBatchSwapExactIn(paths, models, { timestamp: await currentTimestamp() });
+    const [pathAmountsOut, tokensOut, amountsOut] = await batchRouter
+      .connect(zero)
+      .querySwapExactIn.staticCall(paths, ZERO_ADDRESS, '0x');
+
+    expect(quote.paths.map((path) => path.amountOutRaw)).to.be.deep.eq([...pathAmountsOut]);
+    expect(quote.tokens).to.be.deep.eq([...tokensOut]);
+    expect(quote.amounts).to.be.deep.eq([...amountsOut]);
+
+    // Every hop feeds the next one, and the first ReClamm hop updates the virtual balances.
+    const [unwrap, sell, buy, wrap] = quote.paths[0].hops;
+    expect(unwrap.amountOutRaw).to.be.eq(sell.amountInRaw);
+    expect(sell.amountOutRaw).to.be.eq(buy.amountInRaw);
+    expect(buy.amountOutRaw).to.be.eq(wrap.amountInRaw);
+    expect(sell.swapQuote?.virtualBalances).to.not.be.deep.eq([
+      ...models.pools[poolAddress].dynamicData.lastVirtualBalances,
+    ]);
+  });
+
+  it('exact out quotes match the batch router query', async () => {
+    const poolAddress = await pool.getAddress();
+    const paths = [
+      {
+        tokenIn: wrappedTokenAAddress,
+        steps: roundTripSteps(poolAddress),
+        maxAmountIn: MAX_UINT256,
+        exactAmountOut: fp(5),
+      },
+      {
+        tokenIn: tokenBAddress,
+        steps: [{ pool: poolAddress, tokenOut: tokenAAddress, isBuffer: false }],
+        maxAmountIn: MAX_UINT256,
+        exactAmountOut: fp(1),
+      },
+    ];
+
+    const quote = quoteBatchSwapExactOut(paths, await loadPathModels(), { timestamp: await currentTimestamp() });
+    const [pathAmountsIn, tokensIn, amountsIn] = await batchRouter
+      .connect(zero)
+      .querySwapExactOut.staticCall(paths, ZERO_ADDRESS, '0x');
+
+    expect(quote.paths.map((path) => path.amountInRaw)).to.be.deep.eq([...pathAmountsIn]);
+    expect(quote.tokens).to.be.deep.eq([...tokensIn]);
+    expect(quote.amounts).to.be.deep.eq([...amountsIn]);
+
+    const [unwrap, , , wrap] = quote.paths[0].hops;
+    expect(wrap.amountOutRaw).to.be.eq(fp(5));
+    expect(unwrap.amountInRaw).to.be.eq(quote.paths[0].amountInRaw);
+  });
+});
@@ -31,7 +31,7 @@ import {
   Rounding,
   pureComputeInvariant,
   toDailyPriceShiftBase,
-  fourthRoot,
+  fourthRootScaled18,
   pow4
 } from './utils/reClammMath';
 import { expectEqualWithError } from './utils/relativeError';
@@ -363,8 +363,8 @@ describe('ReClammPool', function () {
 
       // Since price shift daily is 100%, prices will double each day. It's exponential, so we expect that
       // after 6 hours the new prices are oldPrice * 2^(1/4).
-      const expectedMinPriceOOR = fpMulDown(minPriceAfterBigSwap, fourthRoot(fp(2)));
-      const expectedMaxPriceOOR = fpMulDown(maxPriceAfterBigSwap, fourthRoot(fp(2)));
+      const expectedMinPriceOOR = fpMulDown(minPriceAfterBigSwap, fourthRootScaled18(fp(2)));
+      const expectedMaxPriceOOR = fpMulDown(maxPriceAfterBigSwap, fourthRootScaled18(fp(2)));
 
       // Pool is OOR, so min and max prices moved. However, the price ratio should be the same.
       const { minPrice: minPriceOOR, maxPrice: maxPriceOOR } = await checkPoolPrices(
@@ -405,7 +405,7 @@ describe('ReClammPool', function () {
       // (final ratio / initial ratio)^1/4.
       const expectedPriceRatioAfterConcentration = fpMulDown(
         initialFourthRootPriceRatio,
-        fourthRoot(fpDivDown(endFourthRootPriceRatio, initialFourthRootPriceRatio))
+        fourthRootScaled18(fpDivDown(endFourthRootPriceRatio, initialFourthRootPriceRatio))
       );
       expectEqualWithError(
         await extensionEntryPoint.computeCurrentFourthRootPriceRatio(),
@@ -522,8 +522,8 @@ describe('ReClammPool', function () {
 
       // Since price shift daily is 100%, prices will halve each day. It's exponential, so we expect that
       // after 6 hours the new prices are oldPrice / 2^(1/4).
-      const expectedMinPriceOOR = fpDivDown(minPriceAfterBigSwap, fourthRoot(fp(2)));
-      const expectedMaxPriceOOR = fpDivDown(maxPriceAfterBigSwap, fourthRoot(fp(2)));
+      const expectedMinPriceOOR = fpDivDown(minPriceAfterBigSwap, fourthRootScaled18(fp(2)));
+      const expectedMaxPriceOOR = fpDivDown(maxPriceAfterBigSwap, fourthRootScaled18(fp(2)));
 
       // Pool is OOR, so min and max prices moved. However, the price ratio should be the same.
       const { minPrice: minPriceOOR, maxPrice: maxPriceOOR } = await checkPoolPrices(
@@ -561,7 +561,7 @@ describe('ReClammPool', function () {
       // (final ratio / initial ratio)^1/4.
       const expectedPriceRatioAfterConcentration = fpMulDown(
         initialFourthRootPriceRatio,
-        fourthRoot(fpDivDown(endFourthRootPriceRatio, initialFourthRootPriceRatio))
+        fourthRootScaled18(fpDivDown(endFourthRootPriceRatio, initialFourthRootPriceRatio))
       );
       expectEqualWithError(
         await extensionEntryPoint.computeCurrentFourthRootPriceRatio(),
@@ -583,8 +583,14 @@ describe('ReClammPool', function () {
 
       // Also, the prices are shifting since the pool is OOR. The prices should have moved by the same factor
       // 2ˆ(1/4), applied to the previous min and max prices.
-      const expectedMinPriceOORAfterConcentration = fpDivDown(expectedMinPriceIRAfterConcentration, fourthRoot(fp(2)));
-      const expectedMaxPriceOORAfterConcentration = fpDivDown(expectedMaxPriceIRAfterConcentration, fourthRoot(fp(2)));
+      const expectedMinPriceOORAfterConcentration = fpDivDown(
+        expectedMinPriceIRAfterConcentration,
+        fourthRootScaled18(fp(2))
+      );
+      const expectedMaxPriceOORAfterConcentration = fpDivDown(
+        expectedMaxPriceIRAfterConcentration,
+        fourthRootScaled18(fp(2))
+      );
       const { minPrice: minPriceAfterPriceShift, maxPrice: maxPriceAfterPriceShift } = await checkPoolPrices(
         pool,
         expectedPriceRatioAfterConcentration,
@@ -677,8 +683,8 @@ describe('ReClammPool', function () {
 
       // Since price shift daily is 100%, prices will double each day. It's exponential, so we expect that
       // after 6 hours the new prices are oldPrice * 2^(1/4).
-      const expectedMinPriceOOR = fpMulDown(minPriceAfterBigSwap, fourthRoot(fp(2)));
-      const expectedMaxPriceOOR = fpMulDown(maxPriceAfterBigSwap, fourthRoot(fp(2)));
+      const expectedMinPriceOOR = fpMulDown(minPriceAfterBigSwap, fourthRootScaled18(fp(2)));
+      const expectedMaxPriceOOR = fpMulDown(maxPriceAfterBigSwap, fourthRootScaled18(fp(2)));
 
       // Pool is OOR, so min and max prices moved. However, the price ratio should be the same.
       const { minPrice: minPriceOOR, maxPrice: maxPriceOOR } = await checkPoolPrices(
@@ -719,7 +725,7 @@ describe('ReClammPool', function () {
       // (final ratio / initial ratio)^1/4.
       const expectedPriceRatioAfterConcentration = fpMulDown(
         initialFourthRootPriceRatio,
-        fourthRoot(fpDivDown(endFourthRootPriceRatio, initialFourthRootPriceRatio))
+        fourthRootScaled18(fpDivDown(endFourthRootPriceRatio, initialFourthRootPriceRatio))
       );
       expectEqualWithError(
         await extensionEntryPoint.computeCurrentFourthRootPriceRatio(),
@@ -835,8 +841,8 @@ describe('ReClammPool', function () {
 
       // Since price shift daily is 100%, prices will halve each day. It's exponential, so we expect that
       // after 6 hours the new prices are oldPrice / 2^(1/4).
-      const expectedMinPriceOOR = fpDivDown(minPriceAfterBigSwap, fourthRoot(fp(2)));
-      const expectedMaxPriceOOR = fpDivDown(maxPriceAfterBigSwap, fourthRoot(fp(2)));
+      const expectedMinPriceOOR = fpDivDown(minPriceAfterBigSwap, fourthRootScaled18(fp(2)));
+      const expectedMaxPriceOOR = fpDivDown(maxPriceAfterBigSwap, fourthRootScaled18(fp(2)));
 
       // Pool is OOR, so min and max prices moved. However, the price ratio should be the same.
       const { minPrice: minPriceOOR, maxPrice: maxPriceOOR } = await checkPoolPrices(
@@ -874,7 +880,7 @@ describe('ReClammPool', function () {
       // (final ratio / initial ratio)^1/4.
       const expectedPriceRatioAfterConcentration = fpMulDown(
         initialFourthRootPriceRatio,
-        fourthRoot(fpDivDown(endFourthRootPriceRatio, initialFourthRootPriceRatio))
+        fourthRootScaled18(fpDivDown(endFourthRootPriceRatio, initialFourthRootPriceRatio))
       );
       expectEqualWithError(
         await extensionEntryPoint.computeCurrentFourthRootPriceRatio(),
@@ -896,8 +902,14 @@ describe('ReClammPool', function () {
 
       // Also, the prices are shifting since the pool is OOR. The prices should have moved by the same factor
       // 2ˆ(1/4), applied to the previous min and max prices.
-      const expectedMinPriceOORAfterConcentration = fpDivDown(expectedMinPriceIRAfterConcentration, fourthRoot(fp(2)));
-      const expectedMaxPriceOORAfterConcentration = fpDivDown(expectedMaxPriceIRAfterConcentration, fourthRoot(fp(2)));
+      const expectedMinPriceOORAfterConcentration = fpDivDown(
+        expectedMinPriceIRAfterConcentration,
+        fourthRootScaled18(fp(2))
+      );
+      const expectedMaxPriceOORAfterConcentration = fpDivDown(
+        expectedMaxPriceIRAfterConcentration,
+        fourthRootScaled18(fp(2))
+      );
       const { minPrice: minPriceAfterPriceShift, maxPrice: maxPriceAfterPriceShift } = await checkPoolPrices(
         pool,
         expectedPriceRatioAfterConcentration,
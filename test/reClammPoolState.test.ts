@@ -0,0 +1,114 @@
+import { expect } from 'chai';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { ERC20TestToken } from '@balancer-labs/v3-solidity-utils/typechain-types/contracts/test/ERC20TestToken';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { fp, fpDivDown } from '@balancer-labs/v3-helpers/src/numbers';
+import { MAX_UINT256 } from '@balancer-labs/v3-helpers/src/constants';
+import { ReClammPool, ReClammPoolExtension } from '../typechain-types';
+import { advanceTime, currentTimestamp, DAY, HOUR } from '@balancer-labs/v3-helpers/src/time';
+import { pow4 } from './utils/reClammMath';
+import { ReClammPoolState } from './utils/reClammPoolState';
+import { deployReClammPoolFixture } from './utils/reClammPoolFixture';
+
+describe('ReClammPool state model', function () {
+  let pool: ReClammPool;
+  let extensionEntryPoint: ReClammPoolExtension;
+  let router: Router;
+  let bob: SignerWithAddress;
+  let tokenA: ERC20TestToken;
+  let tokenB: ERC20TestToken;
+  let tokenBIdx: number;
+  let initialBalances: bigint[];
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({ pool, extensionEntryPoint, router, bob, tokenA, tokenB, tokenBIdx, initialBalances } =
+      await deployReClammPoolFixture());
+  });
+
+  async function checkPoolStateModel() {
+    const state = ReClammPoolState.fromPoolData(
+      await extensionEntryPoint.getReClammPoolDynamicData(),
+      await extensionEntryPoint.getReClammPoolImmutableData()
+    );
+    // Views are executed with the timestamp of the last block.
+    const timestamp = await currentTimestamp();
+
+    // A JSON snapshot must answer the same as the state it was taken from.
+    for (const model of [state, ReClammPoolState.fromJSON(JSON.stringify(state))]) {
+      expect(model.computeCurrentVirtualBalances(timestamp)).to.be.deep.eq([
+        ...(await extensionEntryPoint.computeCurrentVirtualBalances()),
+      ]);
+      expect(model.computeCurrentPriceRatio(timestamp)).to.be.eq(await extensionEntryPoint.computeCurrentPriceRatio());
+      expect(model.computeCurrentFourthRootPriceRatio(timestamp)).to.be.eq(
+        await extensionEntryPoint.computeCurrentFourthRootPriceRatio()
+      );
+      expect(model.computeCurrentPriceRange(timestamp)).to.be.deep.eq([
+        ...(await extensionEntryPoint.computeCurrentPriceRange()),
+      ]);
+      expect(model.computeCurrentPoolCenteredness()).to.be.deep.eq([
+        ...(await extensionEntryPoint.computeCurrentPoolCenteredness()),
+      ]);
+      expect(model.computeCurrentSpotPrice(timestamp)).to.be.eq(await extensionEntryPoint.computeCurrentSpotPrice());
+      expect(model.isPoolWithinTargetRange()).to.be.eq(await pool.isPoolWithinTargetRange());
+      expect(model.isPoolWithinTargetRangeUsingCurrentVirtualBalances(timestamp)).to.be.deep.eq([
+        ...(await extensionEntryPoint.isPoolWithinTargetRangeUsingCurrentVirtualBalances()),
+      ]);
+    }
+  }
+
+  it('state model matches the pool views (in range)', async () => {
+    await checkPoolStateModel();
+  });
+
+  it('state model matches the pool views (out of range)', async () => {
+    // Big swap, taking the pool out of range.
+    const exactAmountOut = (initialBalances[tokenBIdx] * 9n) / 10n;
+    await router
+      .connect(bob)
+      .swapSingleTokenExactOut(pool, tokenA, tokenB, exactAmountOut, MAX_UINT256, MAX_UINT256, false, '0x');
+
+    // The price range only moves with time.
+    await checkPoolStateModel();
+    await advanceTime(HOUR);
+    await checkPoolStateModel();
+  });
+
+  it('state model matches the pool views (price ratio updating)', async () => {
+    const startFourthRootPriceRatio = await extensionEntryPoint.computeCurrentFourthRootPriceRatio();
+    const updateStartTimestamp = (await currentTimestamp()) + 1n;
+    const updateEndTimestamp = updateStartTimestamp + BigInt(DAY);
+    const endFourthRootPriceRatio = fpDivDown(startFourthRootPriceRatio, fp(1.1));
+    await pool
+      .connect(bob)
+      .startPriceRatioUpdate(pow4(endFourthRootPriceRatio), updateStartTimestamp, updateEndTimestamp);
+
+    await advanceTime(HOUR);
+    await checkPoolStateModel();
+    await advanceTime(DAY);
+    await checkPoolStateModel();
+  });
+
+  it('state model can be evaluated ahead of time', async () => {
+    const exactAmountOut = (initialBalances[tokenBIdx] * 9n) / 10n;
+    await router
+      .connect(bob)
+      .swapSingleTokenExactOut(pool, tokenA, tokenB, exactAmountOut, MAX_UINT256, MAX_UINT256, false, '0x');
+
+    const state = ReClammPoolState.fromPoolData(
+      await extensionEntryPoint.getReClammPoolDynamicData(),
+      await extensionEntryPoint.getReClammPoolImmutableData()
+    );
+
+    // Nothing happens in the pool for a day.
+    await advanceTime(DAY);
+    const futureTimestamp = await currentTimestamp();
+
+    expect(state.computeCurrentVirtualBalances(futureTimestamp)).to.be.deep.eq([
+      ...(await extensionEntryPoint.computeCurrentVirtualBalances()),
+    ]);
+    expect(state.computeCurrentPriceRange(futureTimestamp)).to.be.deep.eq([
+      ...(await extensionEntryPoint.computeCurrentPriceRange()),
+    ]);
+  });
+});
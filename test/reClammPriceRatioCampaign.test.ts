@@ -0,0 +1,86 @@
+import { expect } from 'chai';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { ERC20TestToken } from '@balancer-labs/v3-solidity-utils/typechain-types/contracts/test/ERC20TestToken';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { fp } from '@balancer-labs/v3-helpers/src/numbers';
+import { MAX_UINT256 } from '@balancer-labs/v3-helpers/src/constants';
+import { ReClammPool, ReClammPoolExtension } from '../typechain-types';
+import { currentTimestamp, DAY } from '@balancer-labs/v3-helpers/src/time';
+import { expectEqualWithError } from './utils/relativeError';
+import { ReClammPoolState } from './utils/reClammPoolState';
+import { executePriceRatioCampaign, planPriceRatioCampaign } from './utils/priceRatioCampaign';
+import { deployReClammPoolFixture, INITIAL_BALANCE_A } from './utils/reClammPoolFixture';
+
+describe('ReClammPool price ratio campaign', function () {
+  const priceRatioError = 0.00001; // 0.001% error tolerance.
+
+  let pool: ReClammPool;
+  let extensionEntryPoint: ReClammPoolExtension;
+  let router: Router;
+  let bob: SignerWithAddress;
+  let tokenA: ERC20TestToken;
+  let tokenB: ERC20TestToken;
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({ pool, extensionEntryPoint, router, bob, tokenA, tokenB } = await deployReClammPoolFixture());
+  });
+
+  it('campaign reaches a price ratio beyond a single update', async () => {
+    // Move the pool away from the center, so that the centeredness is meaningful.
+    await router
+      .connect(bob)
+      .swapSingleTokenExactIn(pool, tokenA, tokenB, INITIAL_BALANCE_A / 10n, 0, MAX_UINT256, false, '0x');
+
+    const state = ReClammPoolState.fromPoolData(
+      await extensionEntryPoint.getReClammPoolDynamicData(),
+      await extensionEntryPoint.getReClammPoolImmutableData()
+    );
+    const startTimestamp = (await currentTimestamp()) + 10n;
+    const targetPriceRatio = fp(1.5);
+
+    await expect(
+      pool.connect(bob).startPriceRatioUpdate(targetPriceRatio, startTimestamp, startTimestamp + BigInt(DAY))
+    ).to.be.revertedWithCustomError(pool, 'PriceRatioUpdateTooFast');
+
+    const campaign = planPriceRatioCampaign(state, { endPriceRatio: targetPriceRatio }, { startTimestamp });
+    // The price ratio can at most halve every day: 16 -> 8 -> 4 -> 2 -> 1.5.
+    expect(campaign.stages.length).to.be.eq(4);
+
+    const results = await executePriceRatioCampaign(pool, bob, campaign);
+    expect(results.length).to.be.eq(campaign.stages.length);
+
+    for (const result of results) {
+      expect(result.achievedFourthRootPriceRatio).to.be.eq(result.simulatedFourthRootPriceRatio);
+      expectEqualWithError(result.achievedFourthRootPriceRatio, result.plannedFourthRootPriceRatio, priceRatioError);
+
+      expect(result.achievedCenterednessBefore).to.be.eq(result.simulatedCenterednessBefore);
+      expect(result.achievedCenterednessAfter).to.be.eq(result.simulatedCenterednessAfter);
+    }
+
+    expectEqualWithError(await extensionEntryPoint.computeCurrentPriceRatio(), targetPriceRatio, priceRatioError);
+  });
+
+  it('campaign stops when a capped stage ends within the minimum delta of the target', async () => {
+    const state = ReClammPoolState.fromPoolData(
+      await extensionEntryPoint.getReClammPoolDynamicData(),
+      await extensionEntryPoint.getReClammPoolImmutableData()
+    );
+    const { minPriceRatioDelta } = state.immutableData;
+    const startTimestamp = (await currentTimestamp()) + 10n;
+
+    // The first stage towards a far target is capped by the maximum update rate.
+    const [cappedStage] = planPriceRatioCampaign(state, { endPriceRatio: fp(1.5) }, { startTimestamp }).stages;
+
+    // Just beyond the capped end price ratio, so the stage is still capped, but the pool would reject another update.
+    const targetPriceRatio = cappedStage.plan.endPriceRatio - minPriceRatioDelta / 2n;
+
+    const campaign = planPriceRatioCampaign(state, { endPriceRatio: targetPriceRatio }, { startTimestamp });
+    expect(campaign.stages.length).to.be.eq(1);
+    expect(campaign.stages[0].plan.endPriceRatio).to.be.eq(cappedStage.plan.endPriceRatio);
+
+    await executePriceRatioCampaign(pool, bob, campaign);
+
+    expect((await extensionEntryPoint.computeCurrentPriceRatio()) - targetPriceRatio).to.be.lt(minPriceRatioDelta);
+  });
+});
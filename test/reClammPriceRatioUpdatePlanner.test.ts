@@ -0,0 +1,99 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { ReClammPool, ReClammPoolExtension } from '../typechain-types';
+import { currentTimestamp, DAY, HOUR } from '@balancer-labs/v3-helpers/src/time';
+import { ReClammPoolState } from './utils/reClammPoolState';
+import { planPriceRatioUpdate } from './utils/priceRatioUpdatePlanner';
+import { deployReClammPoolFixture } from './utils/reClammPoolFixture';
+
+describe('ReClammPool price ratio update planner', function () {
+  let pool: ReClammPool;
+  let extensionEntryPoint: ReClammPoolExtension;
+  let bob: SignerWithAddress;
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({ pool, extensionEntryPoint, bob } = await deployReClammPoolFixture());
+  });
+
+  it('planned update succeeds and matches the preview', async () => {
+    const state = ReClammPoolState.fromPoolData(
+      await extensionEntryPoint.getReClammPoolDynamicData(),
+      await extensionEntryPoint.getReClammPoolImmutableData()
+    );
+    const executionTimestamp = (await currentTimestamp()) + 10n;
+    const endPriceRatio = state.computeCurrentPriceRatio(executionTimestamp) * 4n;
+
+    const plan = planPriceRatioUpdate(state, { endPriceRatio }, { executionTimestamp });
+    expect(plan.endPriceRatio).to.be.eq(endPriceRatio);
+    expect(plan.startTime).to.be.eq(executionTimestamp);
+    // The price ratio can at most double every day.
+    expect(plan.endTime - plan.startTime).to.be.eq(plan.minDuration);
+    expect(plan.minDuration).to.be.eq(2n * BigInt(DAY));
+    expect(plan.preview.length).to.be.eq(2 * 24 + 1);
+
+    await ethers.provider.send('evm_setNextBlockTimestamp', [Number(executionTimestamp)]);
+    await bob.sendTransaction({ to: await pool.getAddress(), data: plan.calldata });
+
+    const [startPoint] = plan.preview;
+    const { priceRatioUpdateStartTime, priceRatioUpdateEndTime } = await extensionEntryPoint.getPriceRatioState();
+    expect([priceRatioUpdateStartTime, priceRatioUpdateEndTime]).to.be.deep.eq([plan.startTime, plan.endTime]);
+
+    for (const point of [startPoint, plan.preview[1], plan.preview[24], plan.preview[plan.preview.length - 1]]) {
+      if (point != startPoint) {
+        await ethers.provider.send('evm_mine', [Number(point.timestamp)]);
+      }
+
+      expect(await extensionEntryPoint.computeCurrentPriceRatio()).to.be.eq(point.priceRatio);
+      expect([...(await extensionEntryPoint.computeCurrentPriceRange())]).to.be.deep.eq([
+        point.minPrice,
+        point.maxPrice,
+      ]);
+    }
+  });
+
+  it('plan adjusts infeasible updates', async () => {
+    const state = ReClammPoolState.fromPoolData(
+      await extensionEntryPoint.getReClammPoolDynamicData(),
+      await extensionEntryPoint.getReClammPoolImmutableData()
+    );
+    const executionTimestamp = (await currentTimestamp()) + 10n;
+    const startPriceRatio = state.computeCurrentPriceRatio(executionTimestamp);
+
+    // The minimum change is added to a request that does not change the price ratio.
+    const unchangedPlan = planPriceRatioUpdate(state, { endPriceRatio: startPriceRatio }, { executionTimestamp });
+    expect(unchangedPlan.endPriceRatio - startPriceRatio).to.be.eq(state.immutableData.minPriceRatioDelta);
+
+    expect(() =>
+      planPriceRatioUpdate(
+        state,
+        { endPriceRatio: startPriceRatio * 2n },
+        { executionTimestamp, endTime: executionTimestamp + BigInt(HOUR) }
+      )
+    ).to.throw('PriceRatioUpdateDurationTooShort');
+
+    // Multiplying the price ratio by 10 in a day is too fast, so the plan caps it.
+    const startTime = executionTimestamp + 100n;
+    const endTime = startTime + BigInt(DAY);
+    const plan = planPriceRatioUpdate(
+      state,
+      { endPriceRatio: startPriceRatio * 10n },
+      { executionTimestamp, startTime, endTime }
+    );
+    expect(plan.endPriceRatio).to.be.lt(plan.requestedEndPriceRatio);
+    expect(plan.dailyPriceRatioUpdateRate).to.be.eq(state.immutableData.maxDailyPriceRatioUpdateRate);
+
+    await expect(
+      pool.connect(bob).startPriceRatioUpdate(plan.requestedEndPriceRatio, startTime, endTime)
+    ).to.be.revertedWithCustomError(pool, 'PriceRatioUpdateTooFast');
+
+    await ethers.provider.send('evm_setNextBlockTimestamp', [Number(executionTimestamp)]);
+    await bob.sendTransaction({ to: await pool.getAddress(), data: plan.calldata });
+
+    await ethers.provider.send('evm_mine', [Number(endTime)]);
+    expect(await extensionEntryPoint.computeCurrentPriceRatio()).to.be.eq(
+      plan.preview[plan.preview.length - 1].priceRatio
+    );
+  });
+});
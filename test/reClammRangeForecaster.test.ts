@@ -0,0 +1,93 @@
+import { expect } from 'chai';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { ERC20TestToken } from '@balancer-labs/v3-solidity-utils/typechain-types/contracts/test/ERC20TestToken';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { bn } from '@balancer-labs/v3-helpers/src/numbers';
+import { MAX_UINT256 } from '@balancer-labs/v3-helpers/src/constants';
+import { ReClammPool, ReClammPoolExtension } from '../typechain-types';
+import { advanceTime, currentTimestamp, DAY, HOUR } from '@balancer-labs/v3-helpers/src/time';
+import { ReClammPoolState } from './utils/reClammPoolState';
+import { forecastRangeDrift } from './utils/rangeForecaster';
+import { deployReClammPoolFixture } from './utils/reClammPoolFixture';
+
+describe('ReClammPool range drift forecast', function () {
+  let pool: ReClammPool;
+  let extensionEntryPoint: ReClammPoolExtension;
+  let router: Router;
+  let bob: SignerWithAddress;
+  let tokenA: ERC20TestToken;
+  let tokenB: ERC20TestToken;
+  let tokenBIdx: number;
+  let initialBalances: bigint[];
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({ pool, extensionEntryPoint, router, bob, tokenA, tokenB, tokenBIdx, initialBalances } =
+      await deployReClammPoolFixture());
+  });
+
+  it('forecast matches the pool views of an idle pool', async () => {
+    // Big swap, taking the pool out of range.
+    const exactAmountOut = (initialBalances[tokenBIdx] * 9n) / 10n;
+    await router
+      .connect(bob)
+      .swapSingleTokenExactOut(pool, tokenA, tokenB, exactAmountOut, MAX_UINT256, MAX_UINT256, false, '0x');
+
+    const state = ReClammPoolState.fromPoolData(
+      await extensionEntryPoint.getReClammPoolDynamicData(),
+      await extensionEntryPoint.getReClammPoolImmutableData()
+    );
+    const startTimestamp = await currentTimestamp();
+
+    const forecast = forecastRangeDrift(state, { startTimestamp, horizon: 3 * DAY, step: HOUR });
+    expect(forecast.length).to.be.eq(3 * 24 + 1);
+    expect(forecast[0].isWithinTargetRange).to.be.false;
+
+    // Token B is scarce, so the price of A dropped and the range moves down towards it.
+    const lastPoint = forecast[forecast.length - 1];
+    expect(lastPoint.minPrice).to.be.lt(forecast[0].minPrice);
+    expect(lastPoint.maxPrice).to.be.lt(forecast[0].maxPrice);
+
+    for (const elapsed of [HOUR, DAY]) {
+      await advanceTime(elapsed);
+      const timestamp = await currentTimestamp();
+
+      // Pick the step that lands exactly on the current block.
+      const elapsedSinceSnapshot = timestamp - startTimestamp;
+      const [, point] = forecastRangeDrift(state, {
+        startTimestamp,
+        horizon: elapsedSinceSnapshot,
+        step: elapsedSinceSnapshot,
+      });
+      expect(point.timestamp).to.be.eq(timestamp);
+
+      const [minPrice, maxPrice] = await extensionEntryPoint.computeCurrentPriceRange();
+      expect(point.minPrice).to.be.eq(minPrice);
+      expect(point.maxPrice).to.be.eq(maxPrice);
+      expect(point.spotPrice).to.be.eq(await extensionEntryPoint.computeCurrentSpotPrice());
+
+      const [virtualBalanceA, virtualBalanceB] = await extensionEntryPoint.computeCurrentVirtualBalances();
+      expect(point.virtualBalances).to.be.deep.eq([virtualBalanceA, virtualBalanceB]);
+
+      const [isWithinTargetRange] = await extensionEntryPoint.isPoolWithinTargetRangeUsingCurrentVirtualBalances();
+      expect(point.isWithinTargetRange).to.be.eq(isWithinTargetRange);
+    }
+  });
+
+  it('forecast ends at the horizon', async () => {
+    const state = ReClammPoolState.fromPoolData(
+      await extensionEntryPoint.getReClammPoolDynamicData(),
+      await extensionEntryPoint.getReClammPoolImmutableData()
+    );
+
+    const startTimestamp = await currentTimestamp();
+
+    const forecast = forecastRangeDrift(state, { startTimestamp, horizon: DAY + 1, step: HOUR });
+    expect(forecast.map((point) => point.timestamp).slice(-2)).to.be.deep.eq([
+      startTimestamp + bn(DAY),
+      startTimestamp + bn(DAY + 1),
+    ]);
+
+    expect(() => forecastRangeDrift(state, { horizon: DAY, step: 0 })).to.throw('Forecast step must be positive');
+  });
+});
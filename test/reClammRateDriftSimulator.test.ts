@@ -0,0 +1,207 @@
+import { ethers } from 'hardhat';
+import { BigNumberish, VoidSigner } from 'ethers';
+import { expect } from 'chai';
+import { deploy } from '@balancer-labs/v3-helpers/src/contract';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { ERC20TestToken } from '@balancer-labs/v3-solidity-utils/typechain-types/contracts/test/ERC20TestToken';
+import { RateProviderMock } from '@balancer-labs/v3-vault/typechain-types/contracts/test/RateProviderMock';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { FP_ZERO, bn, fp, fpDivDown, fpMulDown } from '@balancer-labs/v3-helpers/src/numbers';
+import { MAX_UINT256, ZERO_ADDRESS } from '@balancer-labs/v3-helpers/src/constants';
+import { IVaultMock } from '@balancer-labs/v3-interfaces/typechain-types';
+import { ReClammPool, ReClammPoolExtension, ReClammPoolFactory } from '../typechain-types';
+import { advanceTime, currentTimestamp, DAY } from '@balancer-labs/v3-helpers/src/time';
+import { expectEqualWithError } from './utils/relativeError';
+import { quoteSwapExactIn } from './utils/swapQuoter';
+import { ReClammPoolState } from './utils/reClammPoolState';
+import { CreateTokenConfig } from './utils/createParamsValidator';
+import { linearRateCurve, RateCurve, simulateRateDrift } from './utils/rateDriftSimulator';
+import { buildCreateParams, createPool, deployReClammPoolFixture, INITIAL_BALANCE_A } from './utils/reClammPoolFixture';
+
+describe('ReClammPool rate drift simulation', function () {
+  const INITIAL_RATE_A = fp(1.1);
+  const INITIAL_RATE_B = fp(1.2);
+
+  const pricesSmallError = 0.0001; // 0.01% error tolerance.
+
+  let vault: IVaultMock;
+  let factory: ReClammPoolFactory;
+  let router: Router;
+  let bob: SignerWithAddress;
+  let tokenA: ERC20TestToken;
+  let tokenB: ERC20TestToken;
+  let poolTokens: string[];
+  let tokenAAddress: string;
+  let tokenBAddress: string;
+  let tokenAIdx: number;
+  let tokenBIdx: number;
+
+  let ratePool: ReClammPool;
+  let ratePoolExtension: ReClammPoolExtension;
+  let rateProviderA: RateProviderMock;
+  let rateProviderB: RateProviderMock;
+  let zero: VoidSigner;
+
+  // The rate of token A grows by 0.5 once a day, when its rate provider is updated.
+  const rateCurveA: RateCurve = (elapsed: bigint) => INITIAL_RATE_A + (elapsed / bn(DAY)) * fp(0.5);
+
+  before('setup static call signer', async () => {
+    // Router queries must be static calls from the zero address.
+    zero = new VoidSigner(ZERO_ADDRESS, ethers.provider);
+  });
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({ vault, factory, router, bob, tokenA, tokenB, poolTokens, tokenAAddress, tokenBAddress, tokenAIdx, tokenBIdx } =
+      await deployReClammPoolFixture());
+  });
+
+  sharedBeforeEach('create and initialize pool with rates', async () => {
+    rateProviderA = await deploy('v3-vault/RateProviderMock');
+    rateProviderB = await deploy('v3-vault/RateProviderMock');
+    await rateProviderA.mockRate(INITIAL_RATE_A);
+    await rateProviderB.mockRate(INITIAL_RATE_B);
+
+    const tokens: CreateTokenConfig[] = [];
+    for (const token of poolTokens) {
+      tokens.push({
+        token,
+        tokenType: 1, // WITH_RATE
+        rateProvider: await (token == tokenAAddress ? rateProviderA : rateProviderB).getAddress(),
+        paysYieldFees: false,
+      });
+    }
+
+    // Only the price of token A includes its rate. The flags follow the token order of the pool.
+    const priceParams = {
+      initialMinPrice: fp(0.5),
+      initialMaxPrice: fp(2),
+      initialTargetPrice: fp(1),
+      tokenAPriceIncludesRate: tokenAIdx == 0,
+      tokenBPriceIncludesRate: tokenAIdx == 1,
+    };
+
+    ({ pool: ratePool, extensionEntryPoint: ratePoolExtension } = await createPool(factory, {
+      ...buildCreateParams(poolTokens),
+      tokens,
+      priceParams,
+    }));
+
+    const initialBalancesRaw = await ratePool.computeInitialBalancesRaw(tokenAAddress, INITIAL_BALANCE_A);
+    await router.connect(bob).initialize(ratePool, poolTokens, [...initialBalancesRaw], FP_ZERO, false, '0x');
+  });
+
+  // Spot price of token A in token B, whatever the token order of the pool.
+  function priceOfTokenA(spotPrice: bigint): bigint {
+    return tokenAIdx == 0 ? spotPrice : fpDivDown(fp(1), spotPrice);
+  }
+
+  async function loadRatePoolState(): Promise<ReClammPoolState> {
+    return ReClammPoolState.fromPoolData(
+      await ratePoolExtension.getReClammPoolDynamicData(),
+      await ratePoolExtension.getReClammPoolImmutableData()
+    );
+  }
+
+  it('simulation matches the pool as the rates grow', async () => {
+    const state = await loadRatePoolState();
+    const [, , balancesRaw] = await vault.getPoolTokenInfo(ratePool);
+    const startTimestamp = await currentTimestamp();
+
+    const rateCurves: (RateCurve | undefined)[] = [undefined, undefined];
+    rateCurves[tokenAIdx] = rateCurveA;
+    const simulate = (horizon: BigNumberish, step: BigNumberish) =>
+      simulateRateDrift(state, { startTimestamp, horizon, step, rateCurves, balancesRaw: [...balancesRaw] });
+
+    const simulation = simulate(3 * DAY, DAY);
+    expectEqualWithError(simulation[0].spotPriceAsConfigured, fp(1), pricesSmallError);
+
+    // The live balance of token A grows with its rate, which decenters the pool without any trades. The pool leaves
+    // its target range on the third day, and the virtual balances start to follow the price.
+    const [start, firstDay, secondDay, thirdDay] = simulation;
+    expect(firstDay.centeredness).to.be.lt(start.centeredness);
+    expect(secondDay.centeredness).to.be.lt(firstDay.centeredness);
+    expect(secondDay.isWithinTargetRange).to.be.true;
+    expect(secondDay.virtualBalances).to.be.deep.eq(start.virtualBalances);
+    expect(thirdDay.virtualBalances).to.not.be.deep.eq(start.virtualBalances);
+    expect(priceOfTokenA(thirdDay.spotPrice)).to.be.lt(priceOfTokenA(secondDay.spotPrice));
+
+    const exactAmountIn = fp(1);
+
+    for (const days of [1, 3]) {
+      await advanceTime(Number(startTimestamp + bn(days * DAY) - (await currentTimestamp())));
+      await rateProviderA.mockRate(rateCurveA(bn(days * DAY)));
+
+      const timestamp = await currentTimestamp();
+      const elapsed = timestamp - startTimestamp;
+      const [, point] = simulate(elapsed, elapsed);
+      expect(point.timestamp).to.be.eq(timestamp);
+
+      const dynamicData = await ratePoolExtension.getReClammPoolDynamicData();
+      expect(point.tokenRates).to.be.deep.eq([...dynamicData.tokenRates]);
+      expect(point.balancesLiveScaled18).to.be.deep.eq([...dynamicData.balancesLiveScaled18]);
+
+      // The pool views use the live balances of the last interaction, but swaps see the current rates.
+      const quote = quoteSwapExactIn(
+        point.state.dynamicData,
+        point.state.immutableData,
+        tokenAAddress,
+        tokenBAddress,
+        exactAmountIn,
+        { timestamp }
+      );
+      expect(quote.amountOutRaw).to.be.eq(
+        await router
+          .connect(zero)
+          .querySwapSingleTokenExactIn.staticCall(ratePool, tokenA, tokenB, exactAmountIn, ZERO_ADDRESS, '0x')
+      );
+    }
+
+    // The swap stores the virtual balances the simulation predicted for its block.
+    const balanceBBefore = await tokenB.balanceOf(bob);
+    await router
+      .connect(bob)
+      .swapSingleTokenExactIn(ratePool, tokenA, tokenB, exactAmountIn, 0, MAX_UINT256, false, '0x');
+
+    const swapTimestamp = await currentTimestamp();
+    const [, swapPoint] = simulate(swapTimestamp - startTimestamp, swapTimestamp - startTimestamp);
+    const swapQuote = quoteSwapExactIn(
+      swapPoint.state.dynamicData,
+      swapPoint.state.immutableData,
+      tokenAAddress,
+      tokenBAddress,
+      exactAmountIn,
+      { timestamp: swapTimestamp }
+    );
+
+    expect((await tokenB.balanceOf(bob)) - balanceBBefore).to.be.eq(swapQuote.amountOutRaw);
+    expect(swapQuote.virtualBalances).to.be.deep.eq([...(await ratePoolExtension.getLastVirtualBalances())]);
+  });
+
+  it('simulation follows rate curves of both tokens', async () => {
+    const state = await loadRatePoolState();
+    const startTimestamp = await currentTimestamp();
+
+    const rateCurves: (RateCurve | undefined)[] = [undefined, undefined];
+    rateCurves[tokenAIdx] = linearRateCurve(INITIAL_RATE_A, fp(0.02));
+    rateCurves[tokenBIdx] = linearRateCurve(INITIAL_RATE_B, fp(0.05));
+
+    const simulation = simulateRateDrift(state, { startTimestamp, horizon: 365 * DAY, step: 73 * DAY, rateCurves });
+    expect(simulation.length).to.be.eq(6);
+
+    const [start] = simulation;
+    const end = simulation[simulation.length - 1];
+    expect(start.tokenRates).to.be.deep.eq([...state.dynamicData.tokenRates]);
+    expect(end.tokenRates[tokenAIdx]).to.be.eq(fpMulDown(INITIAL_RATE_A, fp(1.02)));
+    expect(end.tokenRates[tokenBIdx]).to.be.eq(fpMulDown(INITIAL_RATE_B, fp(1.05)));
+
+    // Token B grows faster, so token A gets more expensive in underlying terms. Only the rate of token B is undone
+    // from the price as configured, since the price of token A already includes its rate.
+    expect(priceOfTokenA(end.spotPrice)).to.be.gt(priceOfTokenA(start.spotPrice));
+    expect(end.spotPriceAsConfigured).to.be.eq(
+      tokenAIdx == 0
+        ? fpDivDown(end.spotPrice, end.tokenRates[tokenBIdx])
+        : fpMulDown(end.spotPrice, end.tokenRates[tokenBIdx])
+    );
+  });
+});
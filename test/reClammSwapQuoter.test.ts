@@ -0,0 +1,127 @@
+import { ethers } from 'hardhat';
+import { VoidSigner } from 'ethers';
+import { expect } from 'chai';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { ERC20TestToken } from '@balancer-labs/v3-solidity-utils/typechain-types/contracts/test/ERC20TestToken';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { bn, fp } from '@balancer-labs/v3-helpers/src/numbers';
+import { MAX_UINT256, ZERO_ADDRESS } from '@balancer-labs/v3-helpers/src/constants';
+import { ReClammPool, ReClammPoolExtension } from '../typechain-types';
+import { advanceTime, currentTimestamp, HOUR } from '@balancer-labs/v3-helpers/src/time';
+import { quoteSwapExactIn, quoteSwapExactOut } from './utils/swapQuoter';
+import { deployReClammPoolFixture } from './utils/reClammPoolFixture';
+
+describe('ReClammPool swap quotes', function () {
+  let pool: ReClammPool;
+  let extensionEntryPoint: ReClammPoolExtension;
+  let router: Router;
+  let bob: SignerWithAddress;
+  let tokenA: ERC20TestToken;
+  let tokenB: ERC20TestToken;
+  let tokenAAddress: string;
+  let tokenBAddress: string;
+  let tokenBIdx: number;
+  let initialBalances: bigint[];
+
+  let zero: VoidSigner;
+
+  before('setup static call signer', async () => {
+    // Router queries must be static calls from the zero address.
+    zero = new VoidSigner(ZERO_ADDRESS, ethers.provider);
+  });
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({
+      pool,
+      extensionEntryPoint,
+      router,
+      bob,
+      tokenA,
+      tokenB,
+      tokenAAddress,
+      tokenBAddress,
+      tokenBIdx,
+      initialBalances,
+    } = await deployReClammPoolFixture());
+  });
+
+  // Token A has 18 decimals and token B has 6 decimals.
+  const toRaw = (token: ERC20TestToken, tokenAmount: number) =>
+    token == tokenA ? fp(tokenAmount) : bn(tokenAmount * 1e6);
+
+  async function checkQuotes(tokenAmount: number) {
+    const dynamicData = await extensionEntryPoint.getReClammPoolDynamicData();
+    const immutableData = await extensionEntryPoint.getReClammPoolImmutableData();
+    // Queries are executed with the timestamp of the last block.
+    const timestamp = await currentTimestamp();
+
+    for (const [tokenIn, tokenOut] of [
+      [tokenA, tokenB],
+      [tokenB, tokenA],
+    ]) {
+      const exactAmountIn = toRaw(tokenIn, tokenAmount);
+      const exactAmountOut = toRaw(tokenOut, tokenAmount);
+
+      const queryAmountOut = await router
+        .connect(zero)
+        .querySwapSingleTokenExactIn.staticCall(pool, tokenIn, tokenOut, exactAmountIn, ZERO_ADDRESS, '0x');
+      const exactInQuote = quoteSwapExactIn(
+        dynamicData,
+        immutableData,
+        await tokenIn.getAddress(),
+        await tokenOut.getAddress(),
+        exactAmountIn,
+        { timestamp }
+      );
+      expect(exactInQuote.amountOutRaw).to.be.eq(queryAmountOut);
+      expect(exactInQuote.swapFeeAmountScaled18).to.be.gt(0n);
+
+      const queryAmountIn = await router
+        .connect(zero)
+        .querySwapSingleTokenExactOut.staticCall(pool, tokenIn, tokenOut, exactAmountOut, ZERO_ADDRESS, '0x');
+      const exactOutQuote = quoteSwapExactOut(
+        dynamicData,
+        immutableData,
+        await tokenIn.getAddress(),
+        await tokenOut.getAddress(),
+        exactAmountOut,
+        { timestamp }
+      );
+      expect(exactOutQuote.amountInRaw).to.be.eq(queryAmountIn);
+      expect(exactOutQuote.swapFeeAmountScaled18).to.be.gt(0n);
+    }
+  }
+
+  it('quotes match the router queries (in range)', async () => {
+    await checkQuotes(1);
+  });
+
+  it('quotes match the router queries (out of range)', async () => {
+    // Big swap, taking the pool out of range.
+    const exactAmountOut = (initialBalances[tokenBIdx] * 9n) / 10n;
+    await router
+      .connect(bob)
+      .swapSingleTokenExactOut(pool, tokenA, tokenB, exactAmountOut, MAX_UINT256, MAX_UINT256, false, '0x');
+
+    // The virtual balances of the last interaction are stale, so the quoter needs to move the price range.
+    await advanceTime(HOUR);
+
+    await checkQuotes(0.1);
+  });
+
+  it('quotes revert like the vault', async () => {
+    const dynamicData = await extensionEntryPoint.getReClammPoolDynamicData();
+    const immutableData = await extensionEntryPoint.getReClammPoolImmutableData();
+
+    expect(() => quoteSwapExactIn(dynamicData, immutableData, tokenAAddress, tokenBAddress, 0n)).to.throw(
+      'AmountGivenZero'
+    );
+    expect(() => quoteSwapExactIn(dynamicData, immutableData, tokenAAddress, tokenAAddress, fp(1))).to.throw(
+      'CannotSwapSameToken'
+    );
+    expect(() =>
+      quoteSwapExactOut(dynamicData, immutableData, tokenAAddress, tokenBAddress, initialBalances[tokenBIdx] + 1n)
+    ).to.throw('AmountOutGreaterThanBalance');
+  });
+});
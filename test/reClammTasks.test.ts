@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers, run } from 'hardhat';
+import { expect } from 'chai';
+import { deployedAt } from '@balancer-labs/v3-helpers/src/contract';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { ERC20TestToken } from '@balancer-labs/v3-solidity-utils/typechain-types/contracts/test/ERC20TestToken';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { ZERO_ADDRESS } from '@balancer-labs/v3-helpers/src/constants';
+import { IVaultMock } from '@balancer-labs/v3-interfaces/typechain-types';
+import { IPermit2 } from '@balancer-labs/v3-vault/typechain-types/permit2/src/interfaces/IPermit2';
+import { ReClammPool, ReClammPoolFactory } from '../typechain-types';
+import { MONTH } from '@balancer-labs/v3-helpers/src/time';
+import { RECLAMM_CONFIG_VERSION, ReClammDeploymentConfig } from '../tasks/reClammTasks';
+import {
+  deployReClammPoolFixture,
+  FACTORY_VERSION,
+  INITIAL_BALANCE_A,
+  nextSalt,
+  POOL_VERSION,
+  TOKEN_AMOUNT,
+} from './utils/reClammPoolFixture';
+
+describe('ReClammPool deployment tasks', function () {
+  const SALT = nextSalt();
+
+  let permit2: IPermit2;
+  let vault: IVaultMock;
+  let factory: ReClammPoolFactory;
+  let router: Router;
+  let tokenA: ERC20TestToken;
+  let tokenB: ERC20TestToken;
+  let poolTokens: string[];
+  let tokenAAddress: string;
+
+  let admin: SignerWithAddress;
+  let config: ReClammDeploymentConfig;
+  let configDir: string;
+  let configFile: string;
+
+  before('create config directory', async () => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reclamm-deployment-'));
+    configFile = path.join(configDir, 'config.json');
+  });
+
+  after('remove config directory', async () => {
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({ permit2, vault, factory, router, tokenA, tokenB, poolTokens, tokenAAddress } = await deployReClammPoolFixture());
+  });
+
+  sharedBeforeEach('build deployment config', async () => {
+    [admin] = await ethers.getSigners();
+
+    config = {
+      version: RECLAMM_CONFIG_VERSION,
+      factory: {
+        address: await factory.getAddress(),
+        vault: await vault.getAddress(),
+        pauseWindowDuration: MONTH * 12,
+        factoryVersion: FACTORY_VERSION,
+        poolVersion: POOL_VERSION,
+      },
+      pool: {
+        name: 'ReClammPool',
+        symbol: 'Test',
+        tokens: poolTokens.map((token) => ({ address: token, tokenType: 'STANDARD' as const })),
+        swapFeePercentage: '0.01',
+        priceParams: { initialMinPrice: '0.5', initialMaxPrice: '8', initialTargetPrice: '3' },
+        dailyPriceShiftExponent: '1',
+        centerednessMargin: '0.5',
+        salt: SALT,
+        initialization: {
+          router: await router.getAddress(),
+          permit2: await permit2.getAddress(),
+          referenceToken: tokenAAddress,
+          referenceAmountRaw: INITIAL_BALANCE_A.toString(),
+        },
+      },
+    };
+
+    await tokenA.mint(admin, 100n * TOKEN_AMOUNT);
+    await tokenB.mint(admin, 100n * TOKEN_AMOUNT);
+  });
+
+  // Tests may change the file, so it is written again before each one.
+  beforeEach('write deployment config', async () => {
+    fs.writeFileSync(configFile, JSON.stringify(config));
+  });
+
+  it('deploys the factory', async () => {
+    const factoryAddress = await run('reclamm:deploy-factory', { configFile });
+
+    const newFactory = (await deployedAt('ReClammPoolFactory', factoryAddress)) as unknown as ReClammPoolFactory;
+    expect(await newFactory.version()).to.be.eq(FACTORY_VERSION);
+    expect(await newFactory.getPoolVersion()).to.be.eq(POOL_VERSION);
+  });
+
+  it('creates and initializes the pool', async () => {
+    const predictedAddress = await factory.connect(admin).getDeploymentAddress(SALT);
+
+    const poolAddress = await run('reclamm:create-pool', { configFile, initialize: true });
+    expect(poolAddress).to.be.eq(predictedAddress);
+    expect(await factory.isPoolFromFactory(poolAddress)).to.be.true;
+
+    const newPool = (await deployedAt('ReClammPool', poolAddress)) as unknown as ReClammPool;
+    const expectedBalancesRaw = await newPool.computeInitialBalancesRaw(tokenAAddress, INITIAL_BALANCE_A);
+    const [, , balancesRaw] = await vault.getPoolTokenInfo(newPool);
+
+    expect(await vault.isPoolInitialized(newPool)).to.be.true;
+    expect([...balancesRaw]).to.be.deep.eq([...expectedBalancesRaw]);
+  });
+
+  it('rejects invalid configs before sending transactions', async () => {
+    const invalidConfig = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+    invalidConfig.pool.priceParams.initialTargetPrice = '10';
+    fs.writeFileSync(configFile, JSON.stringify(invalidConfig));
+
+    await expect(run('reclamm:create-pool', { configFile, initialize: false })).to.be.rejectedWith(
+      'InvalidInitialPrice'
+    );
+    expect(await factory.getPoolCount()).to.be.eq(1);
+  });
+
+  it('rejects invalid initialization configs before creating the pool', async () => {
+    const invalidConfig = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+    invalidConfig.pool.initialization.referenceToken = ZERO_ADDRESS;
+    fs.writeFileSync(configFile, JSON.stringify(invalidConfig));
+
+    await expect(run('reclamm:create-pool', { configFile, initialize: true })).to.be.rejectedWith(
+      `pool.initialization.referenceToken is not a pool token: ${ZERO_ADDRESS}`
+    );
+    expect(await factory.getPoolCount()).to.be.eq(1);
+
+    delete invalidConfig.pool.initialization;
+    fs.writeFileSync(configFile, JSON.stringify(invalidConfig));
+
+    await expect(run('reclamm:create-pool', { configFile, initialize: true })).to.be.rejectedWith(
+      'Missing pool.initialization section in ReClamm config'
+    );
+    expect(await factory.getPoolCount()).to.be.eq(1);
+
+    // Without --initialize, the initialization section is not needed.
+    await run('reclamm:create-pool', { configFile, initialize: false });
+    expect(await factory.getPoolCount()).to.be.eq(2);
+  });
+});
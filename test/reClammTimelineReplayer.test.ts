@@ -0,0 +1,99 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { sharedBeforeEach } from '@balancer-labs/v3-common/sharedBeforeEach';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { ERC20TestToken } from '@balancer-labs/v3-solidity-utils/typechain-types/contracts/test/ERC20TestToken';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { fp } from '@balancer-labs/v3-helpers/src/numbers';
+import { MAX_UINT256 } from '@balancer-labs/v3-helpers/src/constants';
+import { IVaultMock } from '@balancer-labs/v3-interfaces/typechain-types';
+import { ReClammPool, ReClammPoolExtension } from '../typechain-types';
+import { advanceTime, currentTimestamp, DAY, HOUR } from '@balancer-labs/v3-helpers/src/time';
+import { decodeTimelineLogs, fetchTimelineLogs } from './utils/eventTimeline';
+import { formatTimelineDivergence, replayTimeline } from './utils/timelineReplayer';
+import { deployReClammPoolFixture, INITIAL_BALANCE_A } from './utils/reClammPoolFixture';
+
+describe('ReClammPool timeline replay', function () {
+  let vault: IVaultMock;
+  let pool: ReClammPool;
+  let extensionEntryPoint: ReClammPoolExtension;
+  let router: Router;
+  let bob: SignerWithAddress;
+  let tokenA: ERC20TestToken;
+  let tokenB: ERC20TestToken;
+
+  sharedBeforeEach('deploy vault, router, tokens, and pool', async () => {
+    ({ vault, pool, extensionEntryPoint, router, bob, tokenA, tokenB } = await deployReClammPoolFixture());
+  });
+
+  sharedBeforeEach('trade, change liquidity and update the price ratio', async () => {
+    await router
+      .connect(bob)
+      .swapSingleTokenExactIn(pool, tokenA, tokenB, INITIAL_BALANCE_A / 10n, 0, MAX_UINT256, false, '0x');
+    await advanceTime(HOUR);
+    await router.connect(bob).addLiquidityProportional(pool, [MAX_UINT256, MAX_UINT256], fp(10), false, '0x');
+
+    const updateStartTimestamp = (await currentTimestamp()) + 1n;
+    await pool.connect(bob).startPriceRatioUpdate(fp(8), updateStartTimestamp, updateStartTimestamp + BigInt(DAY));
+    await advanceTime(DAY / 2);
+
+    await router
+      .connect(bob)
+      .swapSingleTokenExactOut(pool, tokenB, tokenA, INITIAL_BALANCE_A / 20n, MAX_UINT256, MAX_UINT256, false, '0x');
+    await router.connect(bob).removeLiquidityProportional(pool, fp(5), [0, 0], false, '0x');
+    await advanceTime(DAY);
+    // Token B has 6 decimals.
+    await router.connect(bob).swapSingleTokenExactIn(pool, tokenB, tokenA, 10n ** 6n, 0, MAX_UINT256, false, '0x');
+  });
+
+  async function getPoolTimeline() {
+    const poolAddress = await pool.getAddress();
+    const logs = await fetchTimelineLogs(ethers.provider, { vault: await vault.getAddress(), pools: [poolAddress] });
+
+    return decodeTimelineLogs(logs, [poolAddress]);
+  }
+
+  it('model reproduces the pool history', async () => {
+    const timeline = await getPoolTimeline();
+    const replay = replayTimeline(timeline, await extensionEntryPoint.getReClammPoolImmutableData());
+
+    expect(replay.divergence).to.be.undefined;
+    expect(replay.checkedVirtualBalancesUpdates).to.be.eq(
+      timeline.filter((event) => event.event == 'VirtualBalancesUpdated').length
+    );
+
+    const { state } = replay.blockStates[replay.blockStates.length - 1];
+    const { balancesLiveScaled18, totalSupply } = await extensionEntryPoint.getReClammPoolDynamicData();
+
+    expect(state.dynamicData.lastVirtualBalances).to.be.deep.eq([
+      ...(await extensionEntryPoint.getLastVirtualBalances()),
+    ]);
+    expect(state.dynamicData.lastTimestamp).to.be.eq(await extensionEntryPoint.getLastTimestamp());
+    expect(state.dynamicData.balancesLiveScaled18).to.be.deep.eq([...balancesLiveScaled18]);
+    expect(state.dynamicData.totalSupply).to.be.eq(totalSupply);
+  });
+
+  it('reports the first divergence', async () => {
+    const timeline = await getPoolTimeline();
+    const virtualBalancesUpdates = timeline.filter((event) => event.event == 'VirtualBalancesUpdated');
+    const tamperedEvent = virtualBalancesUpdates[virtualBalancesUpdates.length - 2];
+
+    const tamperedTimeline = timeline.map((event) =>
+      event == tamperedEvent
+        ? { ...event, args: { ...event.args, virtualBalanceA: (event.args.virtualBalanceA as bigint) + 1n } }
+        : event
+    );
+    const replay = replayTimeline(tamperedTimeline, await extensionEntryPoint.getReClammPoolImmutableData());
+
+    expect(replay.divergence?.kind).to.be.eq('mismatch');
+    expect(replay.divergence?.event.logIndex).to.be.eq(tamperedEvent.logIndex);
+    expect(replay.divergence?.expectedVirtualBalances).to.be.deep.eq([
+      tamperedEvent.args.virtualBalanceA,
+      tamperedEvent.args.virtualBalanceB,
+    ]);
+    expect(replay.checkedVirtualBalancesUpdates).to.be.eq(virtualBalancesUpdates.length - 2);
+
+    const report = formatTimelineDivergence(replay.divergence as NonNullable<typeof replay.divergence>);
+    expect(report).to.contain(tamperedEvent.transactionHash);
+  });
+});
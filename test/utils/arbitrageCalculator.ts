@@ -0,0 +1,224 @@
+import { BigNumberish } from 'ethers';
+import { FP_ONE, fpDivDown, fpMulDown, fpMulUp } from '@balancer-labs/v3-helpers/src/numbers';
+import { sqrtScaled18 } from './reClammMath';
+import { ReClammPoolDynamicData, ReClammPoolImmutableData } from './reClammPoolData';
+import { ReClammPoolState } from './reClammPoolState';
+import { computeRateRoundUp, toRawUndoRateRoundDown } from './scalingHelpers';
+import { DEFAULT_MINIMUM_TRADE_AMOUNT, quoteSwapExactIn, quoteSwapExactOut, SwapQuote } from './swapQuoter';
+
+export type ArbitrageOptions = {
+  // Timestamp of the block in which the trade would be executed; defaults to the current time.
+  timestamp?: BigNumberish;
+  minimumTradeAmount?: bigint;
+  // Protocol and pool creator share of the swap fees, which leaves the pool; defaults to zero.
+  aggregateSwapFeePercentage?: bigint;
+};
+
+export type ArbitrageTrade = {
+  kind: 'ExactIn' | 'ExactOut';
+  tokenIn: string;
+  tokenOut: string;
+  amountGivenRaw: bigint;
+  amountInRaw: bigint;
+  amountOutRaw: bigint;
+  swapFeeAmountRaw: bigint;
+  // Net profit (after swap fees), valued in token B at the market price.
+  profit: bigint;
+  // Fee-adjusted market price the trade moves the pool to.
+  targetSpotPrice: bigint;
+  // Spot price after the trade, including the swap fee kept by the pool (i.e., net of the aggregate fee).
+  spotPriceAfter: bigint;
+  // The trade takes all the token out the pool can give, so the spot price does not reach the target.
+  clampedAtBalance: boolean;
+  // Quote of the trade, including the virtual balances of the swap (updated if the pool was idle and out of range).
+  quote: SwapQuote;
+};
+
+/**
+ * Computes the profit-maximizing swap against an external market price (of token A in token B). Arbitrageurs pay
+ * the fee on the amount in, so the trade moves the spot price to `marketPrice * (1 - fee)` when buying token A, and to
+ * `marketPrice / (1 - fee)` when selling it. The pool keeps the swap fee net of the aggregate fee, which also moves
+ * its price, so the trade is sized for the balances after the fee is added. The virtual balances are those the swap
+ * would use at the given timestamp, and the trade is capped so that the pool keeps `minimumTradeAmount` of token out, since the math reverts
+ * with `AmountOutGreaterThanBalance` beyond the real balance. Returns undefined if no profitable trade exists.
+ */
+export function computeOptimalArbitrage(
+  dynamicData: ReClammPoolDynamicData,
+  immutableData: ReClammPoolImmutableData,
+  marketPrice: bigint,
+  options: ArbitrageOptions = {}
+): ArbitrageTrade | undefined {
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const minimumTradeAmount = options.minimumTradeAmount ?? DEFAULT_MINIMUM_TRADE_AMOUNT;
+  const balancesScaled18 = dynamicData.balancesLiveScaled18;
+  const swapFeePercentage = dynamicData.staticSwapFeePercentage;
+  const aggregateSwapFeePercentage = options.aggregateSwapFeePercentage ?? 0n;
+
+  const [virtualBalanceA, virtualBalanceB] = new ReClammPoolState(
+    dynamicData,
+    immutableData
+  ).computeCurrentVirtualBalances(timestamp);
+  const totalBalances = [balancesScaled18[0] + virtualBalanceA, balancesScaled18[1] + virtualBalanceB];
+  const spotPrice = fpDivDown(totalBalances[1], totalBalances[0]);
+
+  // Arbitrageurs only trade while the pool price net of fees is better than the market price: they buy token A while
+  // `spotPrice / (1 - fee) < marketPrice`, and sell it while `spotPrice * (1 - fee) > marketPrice`.
+  let indexIn: number;
+  let targetSpotPrice: bigint;
+  if (spotPrice < fpMulDown(marketPrice, FP_ONE - swapFeePercentage)) {
+    indexIn = 1;
+    targetSpotPrice = fpMulDown(marketPrice, FP_ONE - swapFeePercentage);
+  } else if (fpMulDown(spotPrice, FP_ONE - swapFeePercentage) > marketPrice) {
+    indexIn = 0;
+    targetSpotPrice = fpDivDown(marketPrice, FP_ONE - swapFeePercentage);
+  } else {
+    return undefined;
+  }
+  const indexOut = 1 - indexIn;
+
+  const targetTotalBalanceIn = computeTargetTotalBalanceIn(
+    totalBalances,
+    indexIn,
+    targetSpotPrice,
+    computeRetainedSwapFeeRate(swapFeePercentage, aggregateSwapFeePercentage)
+  );
+  const amountInScaled18 = targetTotalBalanceIn - totalBalances[indexIn];
+  // The pool cannot be fully drained, so leave dust if the market price is outside the price range.
+  const maxAmountOutScaled18 = balancesScaled18[indexOut] - minimumTradeAmount;
+  if (amountInScaled18 <= 0n || maxAmountOutScaled18 <= 0n) {
+    return undefined;
+  }
+
+  const arbitrageSwap = quoteArbitrageSwap(
+    dynamicData,
+    immutableData,
+    { timestamp, minimumTradeAmount },
+    indexIn,
+    amountInScaled18,
+    maxAmountOutScaled18
+  );
+  if (arbitrageSwap === undefined) {
+    return undefined;
+  }
+  const { kind, amountGivenRaw, quote } = arbitrageSwap;
+
+  const amountInPaidScaled18 = quote.amountInScaled18 + quote.swapFeeAmountScaled18;
+  const profit =
+    indexIn == 0
+      ? quote.amountOutScaled18 - fpMulUp(amountInPaidScaled18, marketPrice)
+      : fpMulDown(quote.amountOutScaled18, marketPrice) - amountInPaidScaled18;
+
+  if (profit <= 0n) {
+    return undefined;
+  }
+
+  const retainedSwapFeeAmountScaled18 =
+    quote.swapFeeAmountScaled18 - fpMulDown(quote.swapFeeAmountScaled18, aggregateSwapFeePercentage);
+  const totalBalancesAfter = [...totalBalances];
+  totalBalancesAfter[indexIn] += quote.amountInScaled18 + retainedSwapFeeAmountScaled18;
+  totalBalancesAfter[indexOut] -= quote.amountOutScaled18;
+
+  return {
+    kind,
+    tokenIn: immutableData.tokens[indexIn],
+    tokenOut: immutableData.tokens[indexOut],
+    amountGivenRaw,
+    amountInRaw: quote.amountInRaw,
+    amountOutRaw: quote.amountOutRaw,
+    swapFeeAmountRaw: quote.swapFeeAmountRaw,
+    profit,
+    targetSpotPrice,
+    spotPriceAfter: fpDivDown(totalBalancesAfter[1], totalBalancesAfter[0]),
+    clampedAtBalance: kind == 'ExactOut',
+    quote,
+  };
+}
+
+/**
+ * Swap fee the pool keeps (i.e., net of the aggregate fee), per unit of amount in given to the pool math. The Vault
+ * charges the fee on the amount given, so the fee is `fee / (1 - fee)` of the amount that reaches the pool math.
+ */
+export function computeRetainedSwapFeeRate(swapFeePercentage: bigint, aggregateSwapFeePercentage: bigint): bigint {
+  return fpDivDown(fpMulDown(swapFeePercentage, FP_ONE - aggregateSwapFeePercentage), FP_ONE - swapFeePercentage);
+}
+
+/**
+ * Total balance of token in (scaled18, including the virtual balance) after a swap that takes the pool to
+ * `targetSpotPrice`, not counting the swap fee the pool keeps. The pool math keeps the invariant
+ * `L = (Ra + Va) * (Rb + Vb)`, so with `u` the total balance in seen by the math, the balance out is `L / u`, while
+ * the retained fee rate `c` makes the actual balance in `(1 + c) * u - c * Tin`. The spot price `(Rb + Vb) / (Ra + Va)`
+ * reaches the target when `(1 + c) * u^2 - c * Tin * u = K`, with `K = L / P` when selling token A and `K = L * P`
+ * when buying it. Without fees, this is `sqrt(K)`. The invariant is not rounded, and the roots round down, so the
+ * trade never overshoots the target.
+ */
+export function computeTargetTotalBalanceIn(
+  totalBalances: bigint[],
+  indexIn: number,
+  targetSpotPrice: bigint,
+  retainedSwapFeeRate: bigint
+): bigint {
+  const invariant = totalBalances[0] * totalBalances[1];
+  const squaredTotalBalanceIn =
+    indexIn == 0 ? invariant / targetSpotPrice : (invariant * targetSpotPrice) / (FP_ONE * FP_ONE);
+  if (retainedSwapFeeRate == 0n) {
+    return sqrtScaled18(squaredTotalBalanceIn);
+  }
+
+  // u = (c * Tin + sqrt((c * Tin)^2 + 4 * (1 + c) * K)) / (2 * (1 + c))
+  const linearTerm = fpMulDown(retainedSwapFeeRate, totalBalances[indexIn]);
+  const discriminant =
+    (linearTerm * linearTerm) / FP_ONE + 4n * fpMulDown(FP_ONE + retainedSwapFeeRate, squaredTotalBalanceIn);
+
+  return fpDivDown(linearTerm + sqrtScaled18(discriminant), 2n * (FP_ONE + retainedSwapFeeRate));
+}
+
+// Quotes the swap that adds `amountInScaled18` (net of fees) to the pool. If that would take out more than
+// `maxAmountOutScaled18`, quotes an ExactOut swap of `maxAmountOutScaled18` instead.
+function quoteArbitrageSwap(
+  dynamicData: ReClammPoolDynamicData,
+  immutableData: ReClammPoolImmutableData,
+  options: { timestamp: BigNumberish; minimumTradeAmount: bigint },
+  indexIn: number,
+  amountInScaled18: bigint,
+  maxAmountOutScaled18: bigint
+): { kind: ArbitrageTrade['kind']; amountGivenRaw: bigint; quote: SwapQuote } | undefined {
+  const indexOut = 1 - indexIn;
+  const tokenIn = immutableData.tokens[indexIn];
+  const tokenOut = immutableData.tokens[indexOut];
+
+  // The fee is charged on top of the amount that goes into the pool math.
+  const exactAmountInRaw = toRawUndoRateRoundDown(
+    fpDivDown(amountInScaled18, FP_ONE - dynamicData.staticSwapFeePercentage),
+    immutableData.decimalScalingFactors[indexIn],
+    dynamicData.tokenRates[indexIn]
+  );
+
+  try {
+    const quote = quoteSwapExactIn(dynamicData, immutableData, tokenIn, tokenOut, exactAmountInRaw, options);
+    if (quote.amountOutScaled18 <= maxAmountOutScaled18) {
+      return { kind: 'ExactIn', amountGivenRaw: exactAmountInRaw, quote };
+    }
+  } catch (error) {
+    if ((error as Error).message == 'TradeAmountTooSmall') {
+      return undefined;
+    } else if ((error as Error).message != 'AmountOutGreaterThanBalance') {
+      throw error;
+    }
+  }
+
+  const exactAmountOutRaw = toRawUndoRateRoundDown(
+    maxAmountOutScaled18,
+    immutableData.decimalScalingFactors[indexOut],
+    computeRateRoundUp(dynamicData.tokenRates[indexOut])
+  );
+
+  try {
+    const quote = quoteSwapExactOut(dynamicData, immutableData, tokenIn, tokenOut, exactAmountOutRaw, options);
+    return { kind: 'ExactOut', amountGivenRaw: exactAmountOutRaw, quote };
+  } catch (error) {
+    if ((error as Error).message == 'TradeAmountTooSmall') {
+      return undefined;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,417 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BigNumberish, ZeroAddress } from 'ethers';
+import { bn, fp, FP_ONE, fpDivDown, fpMulDown } from '@balancer-labs/v3-helpers/src/numbers';
+import { fourthRootScaled18, pureComputeInvariant, Rounding, toDailyPriceShiftBase } from './reClammMath';
+import {
+  BALANCE_RATIO_AND_PRICE_TOLERANCE,
+  MAX_CENTEREDNESS_MARGIN,
+  MAX_DAILY_PRICE_RATIO_UPDATE_RATE,
+  MAX_DAILY_PRICE_SHIFT_EXPONENT,
+  MAX_SWAP_FEE_PERCENTAGE,
+  MIN_PRICE_RATIO_DELTA,
+  MIN_PRICE_RATIO_UPDATE_DURATION,
+  MIN_SWAP_FEE_PERCENTAGE,
+  ReClammPoolDynamicData,
+  ReClammPoolImmutableData,
+} from './reClammPoolData';
+import { planInitialization } from './initializationPlanner';
+import { ReClammPoolState } from './reClammPoolState';
+import { toRawUndoRateRoundDown, toScaled18ApplyRateRoundDown } from './scalingHelpers';
+import { computeOptimalArbitrage } from './arbitrageCalculator';
+
+// Placeholder token addresses of modeled pools.
+const BACKTEST_TOKEN_A = '0x000000000000000000000000000000000000000a';
+const BACKTEST_TOKEN_B = '0x000000000000000000000000000000000000000b';
+
+// ISO 8601 date, optionally with a time and a time zone (e.g., 2025-01-01 or 2025-01-01T12:00:00Z).
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+// Market price of token A, denominated in token B (the same unit as `computeCurrentSpotPrice`).
+export type PricePoint = {
+  timestamp: bigint;
+  price: bigint;
+};
+
+// Parameters of a modeled pool with two 18-decimal tokens without rates, initialized at the target price.
+export type BacktestPoolParams = {
+  initialMinPrice: bigint;
+  initialMaxPrice: bigint;
+  initialTargetPrice: bigint;
+  dailyPriceShiftExponent: bigint;
+  centerednessMargin: bigint;
+  swapFeePercentage: bigint;
+  initialBalanceA: bigint;
+  initializationTimestamp: BigNumberish;
+};
+
+export type BacktestOptions = {
+  // Raw pool balances, as returned by `IVault.getPoolTokenInfo`. They are derived from the live balances if not
+  // given, which is exact for tokens without rates.
+  balancesRaw?: bigint[];
+  // Share of the swap fees taken by the protocol and the pool creator; defaults to zero.
+  aggregateSwapFeePercentage?: bigint;
+  minimumTradeAmount?: bigint;
+};
+
+export type BacktestTrade = {
+  kind: 'ExactIn' | 'ExactOut';
+  tokenIn: string;
+  tokenOut: string;
+  amountGivenRaw: bigint;
+  amountInRaw: bigint;
+  amountOutRaw: bigint;
+  swapFeeAmountRaw: bigint;
+  // Arbitrageur profit, valued in token B at the market price.
+  profit: bigint;
+};
+
+export type BacktestTick = {
+  timestamp: bigint;
+  marketPrice: bigint;
+  // Pool state after the arbitrage (if any).
+  spotPrice: bigint;
+  minPrice: bigint;
+  maxPrice: bigint;
+  balancesScaled18: bigint[];
+  virtualBalances: bigint[];
+  isWithinTargetRange: boolean;
+  trade?: BacktestTrade;
+  // Values in token B at the market price.
+  lpValue: bigint;
+  holdValue: bigint;
+  // Cumulative swap fees kept by the pool, valued at the market price of each trade.
+  feesEarned: bigint;
+};
+
+export type BacktestSummary = {
+  initialValue: bigint;
+  finalLpValue: bigint;
+  finalHoldValue: bigint;
+  feesEarned: bigint;
+  // `finalLpValue - finalHoldValue`: positive if providing liquidity beat holding the initial balances.
+  valueVersusHold: bigint;
+  // `finalLpValue / finalHoldValue`, as an 18-decimal number.
+  lpValueToHoldRatio: bigint;
+  tradeCount: number;
+  lowestMinPrice: bigint;
+  highestMaxPrice: bigint;
+};
+
+export type BacktestResult = {
+  ticks: BacktestTick[];
+  summary: BacktestSummary;
+  // Pool state after the last tick.
+  finalState: ReClammPoolState;
+  finalBalancesRaw: bigint[];
+};
+
+type BacktestPool = {
+  dynamicData: ReClammPoolDynamicData;
+  immutableData: ReClammPoolImmutableData;
+  balancesRaw: bigint[];
+};
+
+/**
+ * Loads a price series from a `.csv` file (with `timestamp` and `price` columns) or a `.json` file (an array of
+ * `{ timestamp, price }` objects). Timestamps are unix seconds or ISO 8601 dates; prices are positive decimal numbers.
+ */
+export function loadPriceSeries(filePath: string): PricePoint[] {
+  const contents = fs.readFileSync(filePath, 'utf8');
+
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.csv':
+      return parsePriceSeriesCsv(contents);
+    case '.json':
+      return parsePriceSeriesJson(contents);
+    default:
+      throw new Error(`Unsupported price series format: ${filePath}`);
+  }
+}
+
+export function parsePriceSeriesCsv(csv: string): PricePoint[] {
+  const [header, ...rows] = csv
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  const columns = header.split(',').map((column) => column.trim().toLowerCase());
+  const timestampColumn = columns.indexOf('timestamp');
+  const priceColumn = columns.indexOf('price');
+
+  if (timestampColumn < 0 || priceColumn < 0) {
+    throw new Error('Price series CSV must have `timestamp` and `price` columns');
+  }
+
+  return sortPriceSeries(
+    rows.map((row, i) => {
+      const values = row.split(',').map((value) => value.trim());
+      return toPricePoint(values[timestampColumn], values[priceColumn], i + 1);
+    })
+  );
+}
+
+export function parsePriceSeriesJson(json: string): PricePoint[] {
+  const points: { timestamp: string | number; price: string | number }[] = JSON.parse(json);
+
+  return sortPriceSeries(points.map(({ timestamp, price }, i) => toPricePoint(timestamp, price, i + 1)));
+}
+
+/**
+ * Creates the state of a modeled pool right after initialization, with the balance of token B given by
+ * `computeInitialBalancesRaw`, and the virtual balances and price ratio set up as in `onBeforeInitialize`.
+ */
+export function createBacktestPoolState(params: BacktestPoolParams): ReClammPoolState {
+  const timestamp = bn(params.initializationTimestamp);
+
+  const immutableData: ReClammPoolImmutableData = {
+    tokens: [BACKTEST_TOKEN_A, BACKTEST_TOKEN_B],
+    decimalScalingFactors: [1n, 1n],
+    tokenAPriceIncludesRate: false,
+    tokenBPriceIncludesRate: false,
+    minSwapFeePercentage: MIN_SWAP_FEE_PERCENTAGE,
+    maxSwapFeePercentage: MAX_SWAP_FEE_PERCENTAGE,
+    initialMinPrice: params.initialMinPrice,
+    initialMaxPrice: params.initialMaxPrice,
+    initialTargetPrice: params.initialTargetPrice,
+    initialDailyPriceShiftExponent: params.dailyPriceShiftExponent,
+    initialCenterednessMargin: params.centerednessMargin,
+    hookContract: ZeroAddress,
+    externalHookHasBeforeInitialize: false,
+    externalHookHasBeforeAddLiquidity: false,
+    externalHookHasBeforeRemoveLiquidity: false,
+    maxCenterednessMargin: MAX_CENTEREDNESS_MARGIN,
+    maxDailyPriceShiftExponent: MAX_DAILY_PRICE_SHIFT_EXPONENT,
+    maxDailyPriceRatioUpdateRate: MAX_DAILY_PRICE_RATIO_UPDATE_RATE,
+    minPriceRatioUpdateDuration: MIN_PRICE_RATIO_UPDATE_DURATION,
+    minPriceRatioDelta: MIN_PRICE_RATIO_DELTA,
+    balanceRatioAndPriceTolerance: BALANCE_RATIO_AND_PRICE_TOLERANCE,
+  };
+
+  const tokenRates = [FP_ONE, FP_ONE];
+  const {
+    initialBalancesScaled18: balancesScaled18,
+    virtualBalances: lastVirtualBalances,
+    priceRatio,
+    revertReason,
+  } = planInitialization(immutableData, tokenRates, BACKTEST_TOKEN_A, params.initialBalanceA);
+
+  if (revertReason !== undefined) {
+    throw new Error(revertReason);
+  }
+
+  const fourthRootPriceRatio = fourthRootScaled18(priceRatio);
+
+  const dynamicData: ReClammPoolDynamicData = {
+    balancesLiveScaled18: balancesScaled18,
+    tokenRates,
+    staticSwapFeePercentage: params.swapFeePercentage,
+    // The Vault mints the invariant as BPT on initialization.
+    totalSupply: pureComputeInvariant(balancesScaled18, lastVirtualBalances, Rounding.ROUND_DOWN),
+    lastTimestamp: timestamp,
+    lastVirtualBalances,
+    dailyPriceShiftExponent: params.dailyPriceShiftExponent,
+    dailyPriceShiftBase: toDailyPriceShiftBase(params.dailyPriceShiftExponent),
+    centerednessMargin: params.centerednessMargin,
+    currentPriceRatio: priceRatio,
+    currentFourthRootPriceRatio: fourthRootPriceRatio,
+    startFourthRootPriceRatio: fourthRootPriceRatio,
+    endFourthRootPriceRatio: fourthRootPriceRatio,
+    priceRatioUpdateStartTime: timestamp,
+    priceRatioUpdateEndTime: timestamp,
+    isPoolInitialized: true,
+    isPoolPaused: false,
+    isPoolInRecoveryMode: false,
+  };
+
+  return new ReClammPoolState(dynamicData, immutableData);
+}
+
+/**
+ * Replays a market price series against a pool. At each tick, the pool moves its virtual balances as it would on-chain
+ * for the elapsed time, and a profit-maximizing arbitrageur swaps the pool price to the market price (net of the
+ * static swap fee). Swaps are executed with the same math as the Vault (see `swapQuoter`), and balances are updated
+ * the way the Vault updates them, so the resulting pool state matches an on-chain replay of the same trades.
+ *
+ * Values are denominated in token B at the market price, using scaled18 balances (i.e., including token rates).
+ */
+export function runBacktest(
+  initialState: ReClammPoolState,
+  prices: PricePoint[],
+  options: BacktestOptions = {}
+): BacktestResult {
+  if (prices.length == 0) {
+    throw new Error('Empty price series');
+  }
+
+  const { dynamicData, immutableData } = initialState;
+  const pool: BacktestPool = {
+    dynamicData: { ...dynamicData, balancesLiveScaled18: [...dynamicData.balancesLiveScaled18] },
+    immutableData,
+    balancesRaw:
+      options.balancesRaw ??
+      dynamicData.balancesLiveScaled18.map((balance, i) =>
+        toRawUndoRateRoundDown(balance, immutableData.decimalScalingFactors[i], dynamicData.tokenRates[i])
+      ),
+  };
+
+  const initialBalancesScaled18 = [...dynamicData.balancesLiveScaled18];
+  const ticks: BacktestTick[] = [];
+  let feesEarned = 0n;
+
+  for (const { timestamp, price } of prices) {
+    if (timestamp < pool.dynamicData.lastTimestamp) {
+      throw new Error('Price series starts before the last pool interaction');
+    }
+
+    const trade = arbitragePool(pool, timestamp, price, options);
+
+    if (trade !== undefined) {
+      const indexIn = findTokenIndex(immutableData.tokens, trade.tokenIn);
+      const feesKeptRaw = trade.swapFeeAmountRaw - computeAggregateSwapFeeAmountRaw(trade, options);
+      const feesKeptScaled18 = toScaled18ApplyRateRoundDown(
+        feesKeptRaw,
+        immutableData.decimalScalingFactors[indexIn],
+        pool.dynamicData.tokenRates[indexIn]
+      );
+      feesEarned += indexIn == 0 ? fpMulDown(feesKeptScaled18, price) : feesKeptScaled18;
+    }
+
+    const state = new ReClammPoolState(pool.dynamicData, immutableData);
+    const [virtualBalanceA, virtualBalanceB] = state.computeCurrentVirtualBalances(timestamp);
+    const [minPrice, maxPrice] = state.computeCurrentPriceRange(timestamp);
+    const [isWithinTargetRange] = state.isPoolWithinTargetRangeUsingCurrentVirtualBalances(timestamp);
+
+    ticks.push({
+      timestamp,
+      marketPrice: price,
+      spotPrice: state.computeCurrentSpotPrice(timestamp),
+      minPrice,
+      maxPrice,
+      balancesScaled18: [...pool.dynamicData.balancesLiveScaled18],
+      virtualBalances: [virtualBalanceA, virtualBalanceB],
+      isWithinTargetRange,
+      trade,
+      lpValue: valueInTokenB(pool.dynamicData.balancesLiveScaled18, price),
+      holdValue: valueInTokenB(initialBalancesScaled18, price),
+      feesEarned,
+    });
+  }
+
+  return {
+    ticks,
+    summary: summarizeBacktest(ticks, initialBalancesScaled18),
+    finalState: new ReClammPoolState(pool.dynamicData, immutableData),
+    finalBalancesRaw: [...pool.balancesRaw],
+  };
+}
+
+// `row` is the 1-based position of the point in the series (not counting the CSV header), for error messages.
+function toPricePoint(timestamp: string | number, price: string | number, row: number): PricePoint {
+  const timestampString = String(timestamp);
+  let unixTimestamp: bigint;
+  if (/^\d+$/.test(timestampString)) {
+    unixTimestamp = BigInt(timestampString);
+  } else {
+    // `Date.parse` also accepts other formats (e.g., "-5" is a date of year -5), so only ISO dates are parsed.
+    const milliseconds = ISO_DATE_REGEX.test(timestampString) ? Date.parse(timestampString) : NaN;
+    if (Number.isNaN(milliseconds)) {
+      throw new Error(`Invalid timestamp in price series row ${row}: ${timestampString}`);
+    }
+    unixTimestamp = BigInt(Math.floor(milliseconds / 1000));
+  }
+
+  const priceNumber = String(price).trim() == '' ? NaN : Number(price);
+  if (Number.isFinite(priceNumber) == false || priceNumber <= 0) {
+    throw new Error(`Invalid price in price series row ${row}: ${price}`);
+  }
+
+  return { timestamp: unixTimestamp, price: fp(price) };
+}
+
+function sortPriceSeries(points: PricePoint[]): PricePoint[] {
+  return points.sort((a, b) => (a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0));
+}
+
+function findTokenIndex(tokens: string[], token: string): number {
+  return tokens.findIndex((poolToken) => poolToken.toLowerCase() == token.toLowerCase());
+}
+
+// Finds the swap that moves the pool price to the market price, executes it and updates the pool.
+function arbitragePool(
+  pool: BacktestPool,
+  timestamp: bigint,
+  marketPrice: bigint,
+  options: BacktestOptions
+): BacktestTrade | undefined {
+  const { dynamicData, immutableData } = pool;
+
+  const arbitrage = computeOptimalArbitrage(dynamicData, immutableData, marketPrice, {
+    timestamp,
+    minimumTradeAmount: options.minimumTradeAmount,
+    aggregateSwapFeePercentage: options.aggregateSwapFeePercentage,
+  });
+  if (arbitrage === undefined) {
+    return undefined;
+  }
+  const { kind, tokenIn, tokenOut, amountGivenRaw, amountInRaw, amountOutRaw, swapFeeAmountRaw, profit, quote } =
+    arbitrage;
+  const trade: BacktestTrade = {
+    kind,
+    tokenIn,
+    tokenOut,
+    amountGivenRaw,
+    amountInRaw,
+    amountOutRaw,
+    swapFeeAmountRaw,
+    profit,
+  };
+
+  // Mirror the Vault and `onSwap`: the pool keeps the amount in minus the aggregate fees, and stores the virtual
+  // balances used by the swap along with the swap timestamp.
+  const indexIn = findTokenIndex(immutableData.tokens, tokenIn);
+  const indexOut = 1 - indexIn;
+  pool.balancesRaw[indexIn] += amountInRaw - computeAggregateSwapFeeAmountRaw(trade, options);
+  pool.balancesRaw[indexOut] -= amountOutRaw;
+  for (const i of [indexIn, indexOut]) {
+    dynamicData.balancesLiveScaled18[i] = toScaled18ApplyRateRoundDown(
+      pool.balancesRaw[i],
+      immutableData.decimalScalingFactors[i],
+      dynamicData.tokenRates[i]
+    );
+  }
+  dynamicData.lastVirtualBalances = quote.virtualBalances;
+  dynamicData.lastTimestamp = timestamp;
+
+  return trade;
+}
+
+function computeAggregateSwapFeeAmountRaw(trade: BacktestTrade, options: BacktestOptions): bigint {
+  return fpMulDown(trade.swapFeeAmountRaw, options.aggregateSwapFeePercentage ?? 0n);
+}
+
+function valueInTokenB(balancesScaled18: bigint[], price: bigint): bigint {
+  return fpMulDown(balancesScaled18[0], price) + balancesScaled18[1];
+}
+
+function summarizeBacktest(ticks: BacktestTick[], initialBalancesScaled18: bigint[]): BacktestSummary {
+  const lastTick = ticks[ticks.length - 1];
+
+  return {
+    initialValue: valueInTokenB(initialBalancesScaled18, ticks[0].marketPrice),
+    finalLpValue: lastTick.lpValue,
+    finalHoldValue: lastTick.holdValue,
+    feesEarned: lastTick.feesEarned,
+    valueVersusHold: lastTick.lpValue - lastTick.holdValue,
+    lpValueToHoldRatio: fpDivDown(lastTick.lpValue, lastTick.holdValue),
+    tradeCount: ticks.filter((tick) => tick.trade !== undefined).length,
+    lowestMinPrice: ticks.reduce(
+      (lowest, tick) => (tick.minPrice < lowest ? tick.minPrice : lowest),
+      lastTick.minPrice
+    ),
+    highestMaxPrice: ticks.reduce(
+      (highest, tick) => (tick.maxPrice > highest ? tick.maxPrice : highest),
+      lastTick.maxPrice
+    ),
+  };
+}
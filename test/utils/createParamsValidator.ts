@@ -0,0 +1,343 @@
+import { BigNumberish, ZeroAddress } from 'ethers';
+import { bn } from '@balancer-labs/v3-helpers/src/numbers';
+import {
+  MAX_CENTEREDNESS_MARGIN,
+  MAX_DAILY_PRICE_SHIFT_EXPONENT,
+  MAX_SWAP_FEE_PERCENTAGE,
+  MIN_SWAP_FEE_PERCENTAGE,
+} from './reClammPoolData';
+
+// `TokenType` values of `VaultTypes.sol`.
+const TOKEN_TYPE_STANDARD = 0n;
+const TOKEN_TYPE_WITH_RATE = 1n;
+
+const MIN_TOKENS = 2;
+const MAX_TOKENS = 2;
+const MAX_TOKEN_DECIMALS = 18;
+const MAX_UINT64 = 2n ** 64n - 1n;
+
+// Same shape as `TokenConfigStruct`; token decimals are optional, and only checked if given.
+export type CreateTokenConfig = {
+  token: string;
+  tokenType: BigNumberish;
+  rateProvider: string;
+  paysYieldFees: boolean;
+  decimals?: number;
+};
+
+// Arguments of `ReClammPoolFactory.create` that are validated on-chain.
+export type ReClammCreateParams = {
+  tokens: CreateTokenConfig[];
+  swapFeePercentage: BigNumberish;
+  priceParams: {
+    initialMinPrice: BigNumberish;
+    initialMaxPrice: BigNumberish;
+    initialTargetPrice: BigNumberish;
+    tokenAPriceIncludesRate: boolean;
+    tokenBPriceIncludesRate: boolean;
+  };
+  dailyPriceShiftExponent: BigNumberish;
+  centerednessMargin: BigNumberish;
+};
+
+export type CreateParamsViolation = {
+  // Name of the custom error the transaction would revert with.
+  error: string;
+  // Interface (or library) that declares the error.
+  errorSource: 'IReClammErrors' | 'IVaultErrors' | 'InputHelpers' | 'SafeCast';
+  // Offending argument, e.g. `priceParams.initialTargetPrice` or `tokens[1].rateProvider`.
+  parameter: string;
+  value: string;
+  // Allowed values, in the units of the argument.
+  bound: string;
+  // `create` reverts on the factory (or on pool registration), while `initialize` reverts on pool initialization,
+  // since the pool only validates its dynamic parameters then.
+  revertsOn: 'create' | 'initialize';
+};
+
+/**
+ * Validates `ReClammPoolFactory.create` arguments, reporting every violation instead of only the first one like the
+ * contracts do. Covers `ReClammPoolLib.validateTokenAndPriceConfig`, the token and swap fee checks of the Vault pool
+ * registration, and the checks of the daily price shift exponent and centeredness margin on initialization.
+ */
+export function validateCreateParams(params: ReClammCreateParams): CreateParamsViolation[] {
+  return [
+    ...validateTokenConfig(params.tokens, params.priceParams),
+    ...validatePriceParams(params.priceParams),
+    ...validateSwapFeePercentage(params.swapFeePercentage),
+    ...validateDynamicParams(params.dailyPriceShiftExponent, params.centerednessMargin),
+  ];
+}
+
+// Throws a single error listing every violation, if any.
+export function ensureValidCreateParams(params: ReClammCreateParams) {
+  const violations = validateCreateParams(params);
+
+  if (violations.length > 0) {
+    const descriptions = violations.map(
+      (violation) => `${violation.error}: ${violation.parameter} = ${violation.value} (expected ${violation.bound})`
+    );
+    throw new Error(`Invalid ReClamm pool create params:\n${descriptions.join('\n')}`);
+  }
+}
+
+function validateTokenConfig(
+  tokens: CreateTokenConfig[],
+  priceParams: ReClammCreateParams['priceParams']
+): CreateParamsViolation[] {
+  const violations: CreateParamsViolation[] = [];
+
+  if (tokens.length > MAX_TOKENS) {
+    violations.push(
+      violation('MaxTokens', 'IVaultErrors', 'tokens.length', tokens.length, `<= ${MAX_TOKENS}`, 'create')
+    );
+  } else if (tokens.length < MIN_TOKENS) {
+    violations.push(
+      violation('MinTokens', 'IVaultErrors', 'tokens.length', tokens.length, `>= ${MIN_TOKENS}`, 'create')
+    );
+  }
+
+  // The price of a token can only include its rate if the token has a rate.
+  const priceIncludesRateFlags: [string, boolean][] = [
+    ['priceParams.tokenAPriceIncludesRate', priceParams.tokenAPriceIncludesRate],
+    ['priceParams.tokenBPriceIncludesRate', priceParams.tokenBPriceIncludesRate],
+  ];
+  priceIncludesRateFlags.forEach(([parameter, priceIncludesRate], i) => {
+    if (priceIncludesRate && (tokens[i] === undefined || bn(tokens[i].tokenType) != TOKEN_TYPE_WITH_RATE)) {
+      violations.push(
+        violation(
+          'InvalidTokenType',
+          'IVaultErrors',
+          parameter,
+          true,
+          `false unless tokens[${i}] is WITH_RATE`,
+          'create'
+        )
+      );
+    }
+  });
+
+  tokens.forEach((tokenConfig, i) => {
+    const tokenType = bn(tokenConfig.tokenType);
+    const hasRateProvider = tokenConfig.rateProvider != ZeroAddress;
+
+    if (tokenConfig.token == ZeroAddress) {
+      violations.push(
+        violation('InvalidToken', 'IVaultErrors', `tokens[${i}].token`, tokenConfig.token, 'non-zero address', 'create')
+      );
+    }
+
+    if (i > 0) {
+      const previousToken = BigInt(tokens[i - 1].token);
+      const token = BigInt(tokenConfig.token);
+
+      if (token < previousToken) {
+        violations.push(
+          violation('TokensNotSorted', 'InputHelpers', `tokens[${i}].token`, tokenConfig.token, 'sorted', 'create')
+        );
+      } else if (token == previousToken) {
+        violations.push(
+          violation(
+            'TokenAlreadyRegistered',
+            'IVaultErrors',
+            `tokens[${i}].token`,
+            tokenConfig.token,
+            'unique',
+            'create'
+          )
+        );
+      }
+    }
+
+    if (tokenType == TOKEN_TYPE_STANDARD) {
+      if (hasRateProvider) {
+        violations.push(
+          violation(
+            'InvalidTokenConfiguration',
+            'IVaultErrors',
+            `tokens[${i}].rateProvider`,
+            tokenConfig.rateProvider,
+            'zero address for STANDARD tokens',
+            'create'
+          )
+        );
+      }
+      if (tokenConfig.paysYieldFees) {
+        violations.push(
+          violation(
+            'InvalidTokenConfiguration',
+            'IVaultErrors',
+            `tokens[${i}].paysYieldFees`,
+            true,
+            'false for STANDARD tokens',
+            'create'
+          )
+        );
+      }
+    } else if (tokenType == TOKEN_TYPE_WITH_RATE) {
+      if (hasRateProvider == false) {
+        violations.push(
+          violation(
+            'InvalidTokenConfiguration',
+            'IVaultErrors',
+            `tokens[${i}].rateProvider`,
+            tokenConfig.rateProvider,
+            'non-zero address for WITH_RATE tokens',
+            'create'
+          )
+        );
+      }
+    } else {
+      violations.push(
+        violation(
+          'InvalidTokenType',
+          'IVaultErrors',
+          `tokens[${i}].tokenType`,
+          tokenType,
+          'STANDARD or WITH_RATE',
+          'create'
+        )
+      );
+    }
+
+    if (tokenConfig.decimals !== undefined && tokenConfig.decimals > MAX_TOKEN_DECIMALS) {
+      violations.push(
+        violation(
+          'InvalidTokenDecimals',
+          'IVaultErrors',
+          `tokens[${i}].decimals`,
+          tokenConfig.decimals,
+          `<= ${MAX_TOKEN_DECIMALS}`,
+          'create'
+        )
+      );
+    }
+  });
+
+  return violations;
+}
+
+// Mirrors `ReClammPoolLib.validatePriceConfig`, reporting which price breaks which condition.
+function validatePriceParams(priceParams: ReClammCreateParams['priceParams']): CreateParamsViolation[] {
+  const violations: CreateParamsViolation[] = [];
+  const minPrice = bn(priceParams.initialMinPrice);
+  const maxPrice = bn(priceParams.initialMaxPrice);
+  const targetPrice = bn(priceParams.initialTargetPrice);
+
+  const invalidInitialPrice = (parameter: string, value: bigint, bound: string) =>
+    violations.push(violation('InvalidInitialPrice', 'IReClammErrors', parameter, value, bound, 'create'));
+
+  if (minPrice == 0n) {
+    invalidInitialPrice('priceParams.initialMinPrice', minPrice, '> 0');
+  }
+  if (maxPrice == 0n) {
+    invalidInitialPrice('priceParams.initialMaxPrice', maxPrice, '> 0');
+  }
+  if (targetPrice == 0n) {
+    invalidInitialPrice('priceParams.initialTargetPrice', targetPrice, '> 0');
+  }
+  if (minPrice >= maxPrice) {
+    invalidInitialPrice('priceParams.initialMinPrice', minPrice, `< initialMaxPrice (${maxPrice})`);
+  }
+  if (targetPrice < minPrice) {
+    invalidInitialPrice('priceParams.initialTargetPrice', targetPrice, `>= initialMinPrice (${minPrice})`);
+  }
+  if (targetPrice > maxPrice) {
+    invalidInitialPrice('priceParams.initialTargetPrice', targetPrice, `<= initialMaxPrice (${maxPrice})`);
+  }
+
+  return violations;
+}
+
+// The Vault checks the swap fee against the pool bounds on registration.
+function validateSwapFeePercentage(swapFeePercentage: BigNumberish): CreateParamsViolation[] {
+  const swapFee = bn(swapFeePercentage);
+
+  if (swapFee < MIN_SWAP_FEE_PERCENTAGE) {
+    return [
+      violation(
+        'SwapFeePercentageTooLow',
+        'IVaultErrors',
+        'swapFeePercentage',
+        swapFee,
+        `>= ${MIN_SWAP_FEE_PERCENTAGE}`,
+        'create'
+      ),
+    ];
+  } else if (swapFee > MAX_SWAP_FEE_PERCENTAGE) {
+    return [
+      violation(
+        'SwapFeePercentageTooHigh',
+        'IVaultErrors',
+        'swapFeePercentage',
+        swapFee,
+        `<= ${MAX_SWAP_FEE_PERCENTAGE}`,
+        'create'
+      ),
+    ];
+  }
+
+  return [];
+}
+
+function validateDynamicParams(
+  dailyPriceShiftExponent: BigNumberish,
+  centerednessMargin: BigNumberish
+): CreateParamsViolation[] {
+  const violations: CreateParamsViolation[] = [];
+  const exponent = bn(dailyPriceShiftExponent);
+  const margin = bn(centerednessMargin);
+
+  // The factory downcasts the margin before deploying the pool.
+  if (margin > MAX_UINT64) {
+    violations.push(
+      violation(
+        'SafeCastOverflowedUintDowncast',
+        'SafeCast',
+        'centerednessMargin',
+        margin,
+        `<= ${MAX_UINT64}`,
+        'create'
+      )
+    );
+  }
+
+  if (margin > MAX_CENTEREDNESS_MARGIN) {
+    violations.push(
+      violation(
+        'InvalidCenterednessMargin',
+        'IReClammErrors',
+        'centerednessMargin',
+        margin,
+        `<= ${MAX_CENTEREDNESS_MARGIN}`,
+        'initialize'
+      )
+    );
+  }
+
+  if (exponent > MAX_DAILY_PRICE_SHIFT_EXPONENT) {
+    violations.push(
+      violation(
+        'DailyPriceShiftExponentTooHigh',
+        'IReClammErrors',
+        'dailyPriceShiftExponent',
+        exponent,
+        `<= ${MAX_DAILY_PRICE_SHIFT_EXPONENT}`,
+        'initialize'
+      )
+    );
+  }
+
+  return violations;
+}
+
+function violation(
+  error: string,
+  errorSource: CreateParamsViolation['errorSource'],
+  parameter: string,
+  value: bigint | number | boolean | string,
+  bound: string,
+  revertsOn: CreateParamsViolation['revertsOn']
+): CreateParamsViolation {
+  return { error, errorSource, parameter, value: value.toString(), bound, revertsOn };
+}
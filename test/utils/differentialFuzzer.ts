@@ -0,0 +1,643 @@
+import { Contract, Result } from 'ethers';
+import { ethers } from 'hardhat';
+import { fp, FP_ONE, fpMulDown } from '@balancer-labs/v3-helpers/src/numbers';
+import {
+  computeCenteredness,
+  computeCurrentVirtualBalances,
+  computeFourthRootPriceRatio,
+  computeInGivenOut,
+  computeInvariant,
+  computeOutGivenIn,
+  computePriceRange,
+  computePriceRatio,
+  computeTheoreticalPriceRatioAndBalances,
+  computeVirtualBalancesUpdatingPriceRange,
+  computeVirtualBalancesUpdatingPriceRatio,
+  fourthRootScaled18,
+  isAboveCenter,
+  isPoolWithinTargetRange,
+  PriceRatioState,
+  Rounding,
+  toDailyPriceShiftBase,
+} from './reClammMath';
+import { createRandom, Random } from './random';
+
+const DAY = 86400;
+
+const DEFAULT_CASES_PER_FUNCTION = 50;
+const DEFAULT_MAX_SHRINK_STEPS = 500;
+
+export type FuzzCase<Args extends unknown[] = unknown[]> = {
+  args: Args;
+  // Stored in the mock before calling functions that read the price ratio state from storage.
+  priceRatioState?: PriceRatioState;
+  // Timestamp the case was generated for (see `FuzzSpec.generate`).
+  now: number;
+};
+
+export type FuzzSpec<Args extends unknown[] = unknown[]> = {
+  // Timestamps must be drawn relative to `now`, so that a seed always generates the same case relative to the time of
+  // the call. The indices of timestamp arguments go in `timestampArgs`.
+  generate: (random: Random, now: number) => Omit<FuzzCase<Args>, 'now'>;
+  // Computes the mock output with the TS model, at the timestamp of the call.
+  model: (args: Args, currentTimestamp: number, priceRatioState?: PriceRatioState) => unknown;
+  timestampArgs?: number[];
+  // Largest accepted absolute difference between the contract and the model outputs; defaults to zero.
+  maxAbsoluteError?: bigint;
+};
+
+// Types the model arguments after the generated ones, and erases them so that the specs of different functions fit in
+// the same record.
+export function fuzzSpec<Args extends unknown[] | []>(spec: FuzzSpec<Args>): FuzzSpec {
+  return {
+    ...spec,
+    model: (args, currentTimestamp, priceRatioState) => spec.model(args as Args, currentTimestamp, priceRatioState),
+  };
+}
+
+// Runs cases against the implementation under test (i.e., `ReClammMathMock`).
+export type FuzzExecutor = {
+  // Timestamp of the next call.
+  now(): Promise<number>;
+  // Executes the case at `now`, returning the contract output or `reverted`.
+  run(signature: string, fuzzCase: FuzzCase, now: number): Promise<{ result?: unknown; reverted: boolean }>;
+};
+
+export type FuzzFailure = {
+  signature: string;
+  // `createRandom(caseSeed)` regenerates the case; see `replayFuzzCase`.
+  caseSeed: bigint;
+  reason: string;
+  fuzzCase: FuzzCase;
+  // Minimal case that still fails, and the shrinking attempts it took.
+  shrunkCase: FuzzCase;
+  shrunkReason: string;
+  shrinkSteps: number;
+};
+
+export type FunctionFuzzStats = {
+  cases: number;
+  // Cases where both the contract and the model reverted.
+  reverts: number;
+  maxAbsoluteError: bigint;
+  // Absolute error divided by the contract output, as an 18-decimal number.
+  maxRelativeError: bigint;
+  failures: FuzzFailure[];
+};
+
+export type FuzzReport = {
+  seed: number;
+  stats: Record<string, FunctionFuzzStats>;
+};
+
+export type FuzzOptions = {
+  seed: number;
+  casesPerFunction?: number;
+  // Functions to fuzz (signatures); defaults to all of them.
+  functions?: string[];
+  maxShrinkSteps?: number;
+};
+
+type FuzzEvaluation = {
+  reverted: boolean;
+  absoluteError: bigint;
+  relativeError: bigint;
+  failure?: string;
+};
+
+/**
+ * Seeded differential fuzzing: every case is drawn from its own seed (derived from the run seed, the function and the
+ * case index), executed by both the executor and the TS model, and compared output by output. The maximum absolute and
+ * relative errors are recorded per function. A case fails if only one side reverts, or if an output differs by more
+ * than the spec allows; failing cases are shrunk to a minimal reproduction.
+ */
+export async function runDifferentialFuzz(
+  executor: FuzzExecutor,
+  specs: Record<string, FuzzSpec>,
+  options: FuzzOptions
+): Promise<FuzzReport> {
+  const casesPerFunction = options.casesPerFunction ?? DEFAULT_CASES_PER_FUNCTION;
+  const signatures = options.functions ?? Object.keys(specs);
+  const report: FuzzReport = { seed: options.seed, stats: {} };
+
+  for (const signature of signatures) {
+    const spec = specs[signature];
+    if (spec === undefined) {
+      throw new Error(`Unknown fuzz function: ${signature}`);
+    }
+
+    const specIndex = Object.keys(specs).indexOf(signature);
+    const stats: FunctionFuzzStats = { cases: 0, reverts: 0, maxAbsoluteError: 0n, maxRelativeError: 0n, failures: [] };
+
+    for (let caseIndex = 0; caseIndex < casesPerFunction; caseIndex++) {
+      const caseSeed = deriveCaseSeed(options.seed, specIndex, caseIndex);
+      const fuzzCase = generateCase(spec, caseSeed, await executor.now());
+      const evaluation = await evaluateCase(executor, signature, spec, fuzzCase);
+
+      stats.cases++;
+      stats.reverts += evaluation.reverted ? 1 : 0;
+      stats.maxAbsoluteError = max(stats.maxAbsoluteError, evaluation.absoluteError);
+      stats.maxRelativeError = max(stats.maxRelativeError, evaluation.relativeError);
+
+      if (evaluation.failure !== undefined) {
+        const shrunk = await shrinkCase(executor, signature, spec, fuzzCase, options.maxShrinkSteps);
+
+        stats.failures.push({
+          signature,
+          caseSeed,
+          reason: evaluation.failure,
+          fuzzCase,
+          shrunkCase: shrunk.fuzzCase,
+          shrunkReason: shrunk.reason ?? evaluation.failure,
+          shrinkSteps: shrunk.steps,
+        });
+      }
+    }
+
+    report.stats[signature] = stats;
+  }
+
+  return report;
+}
+
+// Regenerates the case of a seed (e.g., from a failure report) and runs it again. Returns the failure, if any.
+export async function replayFuzzCase(
+  executor: FuzzExecutor,
+  signature: string,
+  spec: FuzzSpec,
+  caseSeed: bigint
+): Promise<string | undefined> {
+  const fuzzCase = generateCase(spec, caseSeed, await executor.now());
+
+  return (await evaluateCase(executor, signature, spec, fuzzCase)).failure;
+}
+
+export function deriveCaseSeed(seed: number, specIndex: number, caseIndex: number): bigint {
+  return (BigInt(seed) << 32n) | (BigInt(specIndex) << 16n) | BigInt(caseIndex);
+}
+
+/**
+ * Greedily replaces uint arguments (including the price ratio state) with simpler values (zero, one, fewer significant
+ * digits, half) as long as the case keeps failing. Numbers (indices, enums and timestamps) are kept as they are.
+ */
+export async function shrinkCase(
+  executor: FuzzExecutor,
+  signature: string,
+  spec: FuzzSpec,
+  fuzzCase: FuzzCase,
+  maxSteps = DEFAULT_MAX_SHRINK_STEPS
+): Promise<{ fuzzCase: FuzzCase; reason?: string; steps: number }> {
+  let current = fuzzCase;
+  let reason: string | undefined;
+  let steps = 0;
+  let shrunk = true;
+
+  while (shrunk && steps < maxSteps) {
+    shrunk = false;
+
+    for (const path of findUintPaths(current)) {
+      for (const candidate of shrinkCandidates(getPath(current, path) as bigint)) {
+        if (steps == maxSteps) {
+          return { fuzzCase: current, reason, steps };
+        }
+        steps++;
+
+        const candidateCase = setPath(current, path, candidate);
+        const { failure } = await evaluateCase(executor, signature, spec, candidateCase);
+
+        if (failure !== undefined) {
+          current = candidateCase;
+          reason = failure;
+          shrunk = true;
+          break;
+        }
+      }
+    }
+  }
+
+  return { fuzzCase: current, reason, steps };
+}
+
+export function formatFuzzReport(report: FuzzReport): string {
+  const lines = [`Differential fuzzing (seed ${report.seed})`];
+
+  for (const [signature, stats] of Object.entries(report.stats)) {
+    lines.push(
+      `  ${signature.split('(')[0].padEnd(42)}cases ${stats.cases}, reverts ${stats.reverts}, ` +
+        `max abs. error ${stats.maxAbsoluteError}, max rel. error ${stats.maxRelativeError}, ` +
+        `failures ${stats.failures.length}`
+    );
+  }
+
+  for (const failure of Object.values(report.stats).flatMap((stats) => stats.failures)) {
+    lines.push(
+      `FAIL ${failure.signature} (case seed ${failure.caseSeed}): ${failure.reason}`,
+      `  shrunk in ${failure.shrinkSteps} steps: ${failure.shrunkReason}`,
+      `  ${stringify(failure.shrunkCase)}`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Executor of `ReClammMathMock` on the Hardhat network. Every case runs in a new block at `now`, so that the view
+ * functions reading `block.timestamp` see the timestamp the case was generated for.
+ */
+export function createMathMockExecutor(mathLib: Contract): FuzzExecutor {
+  return {
+    now: async () => {
+      const block = await ethers.provider.getBlock('latest');
+      if (block === null) {
+        throw new Error('Latest block not found');
+      }
+
+      return block.timestamp + 1;
+    },
+    run: async (signature, fuzzCase, now) => {
+      await ethers.provider.send('evm_setNextBlockTimestamp', [now]);
+      if (fuzzCase.priceRatioState !== undefined) {
+        await (await mathLib.startPriceRatioUpdate(fuzzCase.priceRatioState)).wait();
+      } else {
+        await ethers.provider.send('evm_mine', []);
+      }
+
+      try {
+        return { result: await mathLib.getFunction(signature).staticCall(...fuzzCase.args), reverted: false };
+      } catch {
+        return { reverted: true };
+      }
+    },
+  };
+}
+
+function generateCase(spec: FuzzSpec, caseSeed: bigint, now: number): FuzzCase {
+  return { ...spec.generate(createRandom(caseSeed), now), now };
+}
+
+async function evaluateCase(
+  executor: FuzzExecutor,
+  signature: string,
+  spec: FuzzSpec,
+  fuzzCase: FuzzCase
+): Promise<FuzzEvaluation> {
+  const now = await executor.now();
+  const shiftedCase = shiftCase(spec, fuzzCase, now - fuzzCase.now);
+  const contract = await executor.run(signature, shiftedCase, now);
+
+  let modelResult: unknown;
+  let modelError: string | undefined;
+  try {
+    modelResult = spec.model(shiftedCase.args, now, shiftedCase.priceRatioState);
+  } catch (error) {
+    modelError = (error as Error).message;
+  }
+
+  const evaluation: FuzzEvaluation = { reverted: false, absoluteError: 0n, relativeError: 0n };
+
+  if (contract.reverted || modelError !== undefined) {
+    evaluation.reverted = contract.reverted && modelError !== undefined;
+    if (evaluation.reverted == false) {
+      evaluation.failure = contract.reverted ? 'contract reverted' : `model reverted (${modelError})`;
+    }
+    return evaluation;
+  }
+
+  const contractOutputs = flattenOutputs(contract.result);
+  const modelOutputs = flattenOutputs(modelResult);
+  if (contractOutputs.length != modelOutputs.length) {
+    evaluation.failure = `output length mismatch: ${contractOutputs.length} != ${modelOutputs.length}`;
+    return evaluation;
+  }
+
+  contractOutputs.forEach((contractOutput, i) => {
+    const absoluteError = abs(contractOutput - modelOutputs[i]);
+    const relativeError = (absoluteError * FP_ONE) / max(abs(contractOutput), 1n);
+
+    evaluation.absoluteError = max(evaluation.absoluteError, absoluteError);
+    evaluation.relativeError = max(evaluation.relativeError, relativeError);
+
+    if (evaluation.failure === undefined && absoluteError > (spec.maxAbsoluteError ?? 0n)) {
+      evaluation.failure = `output #${i}: contract ${contractOutput} != model ${modelOutputs[i]}`;
+    }
+  });
+
+  return evaluation;
+}
+
+// Moves the timestamps of a case generated at another time, keeping them relative to the time of the call.
+function shiftCase(spec: FuzzSpec, fuzzCase: FuzzCase, delta: number): FuzzCase {
+  const args = fuzzCase.args.map((arg, i) => (spec.timestampArgs?.includes(i) ? (arg as number) + delta : arg));
+  const priceRatioState =
+    fuzzCase.priceRatioState === undefined
+      ? undefined
+      : {
+          ...fuzzCase.priceRatioState,
+          priceRatioUpdateStartTime: fuzzCase.priceRatioState.priceRatioUpdateStartTime + delta,
+          priceRatioUpdateEndTime: fuzzCase.priceRatioState.priceRatioUpdateEndTime + delta,
+        };
+
+  return { args, priceRatioState, now: fuzzCase.now + delta };
+}
+
+// Outputs as a flat list of integers (booleans are 0 or 1), so that they can be compared one by one.
+function flattenOutputs(value: unknown): bigint[] {
+  if (value instanceof Result) {
+    return flattenOutputs(value.toArray());
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap(flattenOutputs);
+  }
+
+  if (typeof value == 'boolean') {
+    return [value ? 1n : 0n];
+  }
+
+  return [BigInt(value as bigint | number)];
+}
+
+type Path = (string | number)[];
+
+function findUintPaths(fuzzCase: FuzzCase): Path[] {
+  const paths: Path[] = [];
+  const visit = (value: unknown, path: Path) => {
+    if (typeof value == 'bigint') {
+      paths.push(path);
+    } else if (Array.isArray(value)) {
+      value.forEach((item, i) => visit(item, [...path, i]));
+    } else if (typeof value == 'object' && value !== null) {
+      Object.entries(value).forEach(([key, item]) => visit(item, [...path, key]));
+    }
+  };
+
+  visit({ args: fuzzCase.args, priceRatioState: fuzzCase.priceRatioState }, []);
+  return paths;
+}
+
+function getPath(value: unknown, path: Path): unknown {
+  return path.reduce((item, key) => (item as Record<string | number, unknown>)[key], value);
+}
+
+function setPath(fuzzCase: FuzzCase, path: Path, newValue: bigint): FuzzCase {
+  const update = (value: unknown, [key, ...rest]: Path): unknown => {
+    if (key === undefined) {
+      return newValue;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, i) => (i == key ? update(item, rest) : item));
+    }
+
+    const record = value as Record<string, unknown>;
+    return { ...record, [key]: update(record[key], rest) };
+  };
+
+  return update(fuzzCase, path) as FuzzCase;
+}
+
+// Simpler values than `value`, simplest first. All are smaller, so shrinking always terminates.
+function shrinkCandidates(value: bigint): bigint[] {
+  const candidates = [0n, 1n];
+
+  const digits = value.toString().length;
+  for (let significantDigits = 1; significantDigits < digits; significantDigits++) {
+    const unit = 10n ** BigInt(digits - significantDigits);
+    candidates.push((value / unit) * unit);
+  }
+
+  candidates.push(value / 2n, value - 1n);
+
+  return candidates.filter(
+    (candidate, i) => candidate >= 0n && candidate < value && candidates.indexOf(candidate) == i
+  );
+}
+
+function stringify(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v == 'bigint' ? v.toString() : v));
+}
+
+function abs(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+type PoolState = {
+  balancesScaled18: bigint[];
+  virtualBalances: bigint[];
+};
+
+// Pool initialized on a random price interval with random liquidity, then moved by a random swap (possibly out of its
+// target range).
+function randomPoolState(random: Random): PoolState {
+  const minPrice = random.nextBigInt(fp(0.001), fp(1000));
+  const maxPrice = fpMulDown(minPrice, random.nextBigInt(fp(1.01), fp(1000)));
+  const targetPrice = random.nextBigInt(fpMulDown(minPrice, fp(1.001)), fpMulDown(maxPrice, fp(0.999)));
+
+  const { realBalances, virtualBalances } = computeTheoreticalPriceRatioAndBalances(minPrice, maxPrice, targetPrice);
+  const liquidityFactor = random.nextBigInt(fp(0.001), fp(1000));
+  const pool = {
+    balancesScaled18: realBalances.map((balance) => fpMulDown(balance, liquidityFactor)),
+    virtualBalances: virtualBalances.map((balance) => fpMulDown(balance, liquidityFactor)),
+  };
+
+  const tokenInIndex = random.nextInt(0, 1);
+  const amountIn = fpMulDown(pool.balancesScaled18[tokenInIndex], random.nextBigInt(0n, fp(3)));
+  try {
+    const amountOut = computeOutGivenIn(
+      pool.balancesScaled18,
+      pool.virtualBalances,
+      tokenInIndex,
+      1 - tokenInIndex,
+      amountIn
+    );
+    pool.balancesScaled18[tokenInIndex] += amountIn;
+    pool.balancesScaled18[1 - tokenInIndex] -= amountOut;
+  } catch {
+    // The swap would drain the pool; keep it centered.
+  }
+
+  return pool;
+}
+
+function randomPriceRatioState(random: Random, pool: PoolState, now: number): PriceRatioState {
+  const priceRatioUpdateStartTime = now + random.nextInt(-2 * DAY, DAY);
+
+  return {
+    priceRatioUpdateStartTime,
+    priceRatioUpdateEndTime: priceRatioUpdateStartTime + random.nextInt(0, 4 * DAY),
+    startFourthRootPriceRatio: fourthRootScaled18(
+      computePriceRatio(pool.balancesScaled18, pool.virtualBalances[0], pool.virtualBalances[1])
+    ),
+    endFourthRootPriceRatio: fourthRootScaled18(random.nextBigInt(fp(1.01), fp(1000))),
+  };
+}
+
+const randomLastTimestamp = (random: Random, now: number): number => now - random.nextInt(0, 40 * DAY);
+
+const randomDailyPriceShiftBase = (random: Random): bigint => toDailyPriceShiftBase(random.nextBigInt(0n, fp(1)));
+
+const randomCenterednessMargin = (random: Random): bigint => random.nextBigInt(0n, fp(0.9));
+
+// `ReClammMathMock` functions taking pool states, keyed by signature.
+export const RECLAMM_MATH_FUZZ_SPECS: Record<string, FuzzSpec> = {
+  'computeInvariant(uint256[],uint256[],uint256,uint32,uint64,uint8)': fuzzSpec({
+    generate: (random, now) => {
+      const pool = randomPoolState(random);
+      return {
+        args: [
+          pool.balancesScaled18,
+          pool.virtualBalances,
+          randomDailyPriceShiftBase(random),
+          randomLastTimestamp(random, now),
+          randomCenterednessMargin(random),
+          random.nextBool() ? Rounding.ROUND_UP : Rounding.ROUND_DOWN,
+        ],
+        priceRatioState: randomPriceRatioState(random, pool, now),
+      };
+    },
+    model: ([balances, virtualBalances, base, lastTimestamp, margin, rounding], currentTimestamp, priceRatioState) =>
+      computeInvariant(
+        balances,
+        virtualBalances,
+        base,
+        lastTimestamp,
+        currentTimestamp,
+        margin,
+        priceRatioState as PriceRatioState,
+        rounding
+      ),
+    timestampArgs: [3],
+  }),
+  'computeCurrentVirtualBalances(uint256[],uint256[],uint256,uint32,uint64)': fuzzSpec({
+    generate: (random, now) => {
+      const pool = randomPoolState(random);
+      return {
+        args: [
+          pool.balancesScaled18,
+          pool.virtualBalances,
+          randomDailyPriceShiftBase(random),
+          randomLastTimestamp(random, now),
+          randomCenterednessMargin(random),
+        ],
+        priceRatioState: randomPriceRatioState(random, pool, now),
+      };
+    },
+    model: ([balances, virtualBalances, base, lastTimestamp, margin], currentTimestamp, priceRatioState) =>
+      computeCurrentVirtualBalances(
+        balances,
+        virtualBalances,
+        base,
+        lastTimestamp,
+        currentTimestamp,
+        margin,
+        priceRatioState as PriceRatioState
+      ),
+    timestampArgs: [3],
+  }),
+  'computeOutGivenIn(uint256[],uint256[],uint256,uint256,uint256)': fuzzSpec({
+    generate: (random) => {
+      const pool = randomPoolState(random);
+      const tokenInIndex = random.nextInt(0, 1);
+      const amountIn = random.nextBigInt(1n, pool.balancesScaled18[1 - tokenInIndex] * 10n + 1n);
+      return { args: [pool.balancesScaled18, pool.virtualBalances, tokenInIndex, 1 - tokenInIndex, amountIn] };
+    },
+    model: ([balances, virtualBalances, tokenInIndex, tokenOutIndex, amountIn]) =>
+      computeOutGivenIn(balances, virtualBalances, tokenInIndex, tokenOutIndex, amountIn),
+  }),
+  'computeInGivenOut(uint256[],uint256[],uint256,uint256,uint256)': fuzzSpec({
+    generate: (random) => {
+      const pool = randomPoolState(random);
+      const tokenInIndex = random.nextInt(0, 1);
+      const amountOut = random.nextBigInt(1n, (pool.balancesScaled18[1 - tokenInIndex] * 11n) / 10n + 1n);
+      return { args: [pool.balancesScaled18, pool.virtualBalances, tokenInIndex, 1 - tokenInIndex, amountOut] };
+    },
+    model: ([balances, virtualBalances, tokenInIndex, tokenOutIndex, amountOut]) =>
+      computeInGivenOut(balances, virtualBalances, tokenInIndex, tokenOutIndex, amountOut),
+  }),
+  'computeVirtualBalancesUpdatingPriceRatio(uint256,uint256[],uint256[])': fuzzSpec({
+    generate: (random) => {
+      const pool = randomPoolState(random);
+      const fourthRootPriceRatio = fourthRootScaled18(random.nextBigInt(fp(1.01), fp(1000)));
+      return { args: [fourthRootPriceRatio, pool.balancesScaled18, pool.virtualBalances] };
+    },
+    model: ([fourthRootPriceRatio, balances, virtualBalances]) =>
+      computeVirtualBalancesUpdatingPriceRatio(fourthRootPriceRatio, balances, virtualBalances),
+  }),
+  'computeVirtualBalancesUpdatingPriceRange(uint256[],uint256[],bool,uint256,uint32,uint32)': fuzzSpec({
+    generate: (random, now) => {
+      const pool = randomPoolState(random);
+      return {
+        args: [
+          pool.balancesScaled18,
+          pool.virtualBalances,
+          isAboveCenter(pool.balancesScaled18, pool.virtualBalances),
+          randomDailyPriceShiftBase(random),
+          now,
+          randomLastTimestamp(random, now),
+        ],
+      };
+    },
+    model: ([balances, virtualBalances, isPoolAboveCenter, base, currentTimestamp, lastTimestamp]) =>
+      computeVirtualBalancesUpdatingPriceRange(
+        balances,
+        virtualBalances,
+        isPoolAboveCenter,
+        base,
+        currentTimestamp,
+        lastTimestamp
+      ),
+    timestampArgs: [4, 5],
+  }),
+  'computeCenteredness(uint256[],uint256[])': fuzzSpec({
+    generate: (random) => {
+      const pool = randomPoolState(random);
+      return { args: [pool.balancesScaled18, pool.virtualBalances] };
+    },
+    model: ([balances, virtualBalances]) => computeCenteredness(balances, virtualBalances),
+  }),
+  'isPoolWithinTargetRange(uint256[],uint256[],uint256)': fuzzSpec({
+    generate: (random) => {
+      const pool = randomPoolState(random);
+      return { args: [pool.balancesScaled18, pool.virtualBalances, randomCenterednessMargin(random)] };
+    },
+    model: ([balances, virtualBalances, margin]) => isPoolWithinTargetRange(balances, virtualBalances, margin),
+  }),
+  'computeFourthRootPriceRatio(uint32,uint96,uint96,uint32,uint32)': fuzzSpec({
+    generate: (random, now) => {
+      const startTime = now + random.nextInt(-10 * DAY, DAY);
+      const endTime = startTime + random.nextInt(0, 20 * DAY);
+      return {
+        args: [
+          now,
+          fourthRootScaled18(random.nextBigInt(fp(1.01), fp(1000))),
+          fourthRootScaled18(random.nextBigInt(fp(1.01), fp(1000))),
+          startTime,
+          endTime,
+        ],
+      };
+    },
+    model: ([currentTime, startFourthRootPriceRatio, endFourthRootPriceRatio, startTime, endTime]) =>
+      computeFourthRootPriceRatio(currentTime, startFourthRootPriceRatio, endFourthRootPriceRatio, startTime, endTime),
+    timestampArgs: [0, 3, 4],
+  }),
+  'computePriceRange(uint256[],uint256,uint256)': fuzzSpec({
+    generate: (random) => {
+      const pool = randomPoolState(random);
+      return { args: [pool.balancesScaled18, pool.virtualBalances[0], pool.virtualBalances[1]] };
+    },
+    model: ([balances, virtualBalanceA, virtualBalanceB]) =>
+      computePriceRange(balances, virtualBalanceA, virtualBalanceB),
+  }),
+  'computePriceRatio(uint256[],uint256,uint256)': fuzzSpec({
+    generate: (random) => {
+      const pool = randomPoolState(random);
+      return { args: [pool.balancesScaled18, pool.virtualBalances[0], pool.virtualBalances[1]] };
+    },
+    model: ([balances, virtualBalanceA, virtualBalanceB]) =>
+      computePriceRatio(balances, virtualBalanceA, virtualBalanceB),
+  }),
+};
@@ -0,0 +1,253 @@
+import * as fs from 'fs';
+import { Interface, LogDescription, Provider } from 'ethers';
+
+// Events emitted by the pools themselves. The pools also forward them to the Vault as `VaultAuxiliary` events, which
+// are not indexed to avoid duplicates.
+const RECLAMM_EVENTS = new Interface([
+  'event PriceRatioStateUpdated(uint256 startFourthRootPriceRatio, uint256 endFourthRootPriceRatio, uint256 priceRatioUpdateStartTime, uint256 priceRatioUpdateEndTime)',
+  'event VirtualBalancesUpdated(uint256 virtualBalanceA, uint256 virtualBalanceB)',
+  'event DailyPriceShiftExponentUpdated(uint256 dailyPriceShiftExponent, uint256 dailyPriceShiftBase)',
+  'event CenterednessMarginUpdated(uint256 centerednessMargin)',
+  'event LastTimestampUpdated(uint32 lastTimestamp)',
+]);
+
+// Vault events of pool operations. The liquidity kinds are the `AddLiquidityKind` and `RemoveLiquidityKind` enums.
+const VAULT_EVENTS = new Interface([
+  'event Swap(address indexed pool, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut, uint256 swapFeePercentage, uint256 swapFeeAmount)',
+  'event LiquidityAdded(address indexed pool, address indexed liquidityProvider, uint8 indexed kind, uint256 totalSupply, uint256[] amountsAddedRaw, uint256[] swapFeeAmountsRaw)',
+  'event LiquidityRemoved(address indexed pool, address indexed liquidityProvider, uint8 indexed kind, uint256 totalSupply, uint256[] amountsRemovedRaw, uint256[] swapFeeAmountsRaw)',
+]);
+
+export type TimelineEventName =
+  | 'PriceRatioStateUpdated'
+  | 'VirtualBalancesUpdated'
+  | 'DailyPriceShiftExponentUpdated'
+  | 'CenterednessMarginUpdated'
+  | 'LastTimestampUpdated'
+  | 'Swap'
+  | 'LiquidityAdded'
+  | 'LiquidityRemoved';
+
+export type TimelineEventValue = bigint | string | bigint[];
+
+export type TimelineEvent = {
+  pool: string;
+  event: TimelineEventName;
+  // Emitter of the log.
+  source: 'pool' | 'vault';
+  blockNumber: number;
+  // Only known if the node (or the log dump) provides it.
+  blockTimestamp?: bigint;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, TimelineEventValue>;
+};
+
+// Log as returned by `eth_getLogs` (quantities may be hex strings), or by an ethers provider (which uses `index`).
+export type RawLog = {
+  address: string;
+  topics: readonly string[];
+  data: string;
+  blockNumber: number | string;
+  transactionHash: string;
+  logIndex?: number | string;
+  index?: number;
+  blockTimestamp?: number | string;
+};
+
+export type TimelineLogFilter = {
+  vault: string;
+  pools: string[];
+  fromBlock?: number;
+  toBlock?: number | 'latest';
+};
+
+/**
+ * Fetches the logs of the given pools from a node: the events emitted by the pools, and the Vault `Swap`,
+ * `LiquidityAdded` and `LiquidityRemoved` events of the pools. Block timestamps are added to the logs, so that they
+ * can be dumped and indexed later.
+ */
+export async function fetchTimelineLogs(provider: Provider, filter: TimelineLogFilter): Promise<RawLog[]> {
+  const range = { fromBlock: filter.fromBlock ?? 0, toBlock: filter.toBlock ?? 'latest' };
+  const vaultEventTopics: string[] = [];
+  VAULT_EVENTS.forEachEvent((event) => vaultEventTopics.push(event.topicHash));
+  const logs: RawLog[] = [];
+
+  for (const pool of filter.pools) {
+    logs.push(...(await provider.getLogs({ ...range, address: pool })));
+    logs.push(
+      ...(await provider.getLogs({
+        ...range,
+        address: filter.vault,
+        topics: [vaultEventTopics, toAddressTopic(pool)],
+      }))
+    );
+  }
+
+  const blockTimestamps = new Map<number, number>();
+  for (const blockNumber of new Set(logs.map((log) => Number(log.blockNumber)))) {
+    const block = await provider.getBlock(blockNumber);
+    if (block === null) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+    blockTimestamps.set(blockNumber, block.timestamp);
+  }
+
+  return logs.map((log) => ({
+    address: log.address,
+    topics: log.topics,
+    data: log.data,
+    blockNumber: Number(log.blockNumber),
+    transactionHash: log.transactionHash,
+    logIndex: getLogIndex(log),
+    blockTimestamp: blockTimestamps.get(Number(log.blockNumber)),
+  }));
+}
+
+// Reads a JSON array of logs, e.g. the result of `eth_getLogs`, or the output of `fetchTimelineLogs`.
+export function loadLogDump(filePath: string): RawLog[] {
+  const logs = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+  if (Array.isArray(logs) == false) {
+    throw new Error('Log dump must be a JSON array of logs');
+  }
+
+  return logs;
+}
+
+/**
+ * Decodes the ReClamm and Vault events of the given pools, ignoring any other log, and returns them in chain order.
+ * If no pools are given, every log with a known event is decoded.
+ */
+export function decodeTimelineLogs(logs: RawLog[], pools?: string[]): TimelineEvent[] {
+  const poolSet = pools === undefined ? undefined : new Set(pools.map((pool) => pool.toLowerCase()));
+  const isIndexedPool = (pool: string) => poolSet === undefined || poolSet.has(pool.toLowerCase());
+  const events: TimelineEvent[] = [];
+
+  for (const log of logs) {
+    const reClammEvent = parseLog(RECLAMM_EVENTS, log);
+    const vaultEvent = reClammEvent === null ? parseLog(VAULT_EVENTS, log) : null;
+
+    let pool: string;
+    let description: LogDescription;
+    if (reClammEvent !== null) {
+      pool = log.address;
+      description = reClammEvent;
+    } else if (vaultEvent !== null) {
+      pool = vaultEvent.args.pool;
+      description = vaultEvent;
+    } else {
+      continue;
+    }
+
+    if (isIndexedPool(pool) == false) {
+      continue;
+    }
+
+    events.push({
+      pool,
+      event: description.name as TimelineEventName,
+      source: reClammEvent !== null ? 'pool' : 'vault',
+      blockNumber: Number(log.blockNumber),
+      blockTimestamp: log.blockTimestamp === undefined ? undefined : BigInt(log.blockTimestamp),
+      transactionHash: log.transactionHash,
+      logIndex: getLogIndex(log),
+      args: decodeArgs(description),
+    });
+  }
+
+  return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+// Splits a timeline into ordered per-pool timelines, keyed by lowercase pool address.
+export function groupTimelineByPool(events: TimelineEvent[]): Map<string, TimelineEvent[]> {
+  const timelines = new Map<string, TimelineEvent[]>();
+
+  for (const event of events) {
+    const pool = event.pool.toLowerCase();
+    timelines.set(pool, [...(timelines.get(pool) ?? []), event]);
+  }
+
+  return timelines;
+}
+
+export function timelineToJSON(events: TimelineEvent[]): string {
+  return JSON.stringify(events, (_, value) => (typeof value == 'bigint' ? value.toString() : value), 2);
+}
+
+/**
+ * One row per event, with a column per event argument (empty if the event does not have it). Array arguments are
+ * joined with `|`.
+ */
+export function timelineToCSV(events: TimelineEvent[]): string {
+  const argColumns: string[] = [];
+  for (const eventInterface of [RECLAMM_EVENTS, VAULT_EVENTS]) {
+    eventInterface.forEachEvent((event) => {
+      for (const input of event.inputs) {
+        if (input.name != 'pool' && argColumns.includes(input.name) == false) {
+          argColumns.push(input.name);
+        }
+      }
+    });
+  }
+  const header = ['pool', 'event', 'source', 'blockNumber', 'blockTimestamp', 'transactionHash', 'logIndex'];
+
+  const rows = events.map((event) => [
+    event.pool,
+    event.event,
+    event.source,
+    event.blockNumber.toString(),
+    event.blockTimestamp?.toString() ?? '',
+    event.transactionHash,
+    event.logIndex.toString(),
+    ...argColumns.map((column) => formatCsvValue(event.args[column])),
+  ]);
+
+  return [[...header, ...argColumns], ...rows].map((row) => row.join(',')).join('\n') + '\n';
+}
+
+function parseLog(eventInterface: Interface, log: RawLog): LogDescription | null {
+  try {
+    return eventInterface.parseLog({ topics: [...log.topics], data: log.data });
+  } catch {
+    // Same topic but different layout (e.g., indexed arguments); not one of ours.
+    return null;
+  }
+}
+
+function decodeArgs(description: LogDescription): Record<string, TimelineEventValue> {
+  const args: Record<string, TimelineEventValue> = {};
+
+  description.fragment.inputs.forEach((input, i) => {
+    if (input.name == 'pool') {
+      return;
+    }
+
+    const value = description.args[i];
+    args[input.name] =
+      input.baseType == 'array' ? [...value].map(BigInt) : input.type == 'address' ? value : BigInt(value);
+  });
+
+  return args;
+}
+
+function getLogIndex(log: RawLog): number {
+  const logIndex = log.logIndex ?? log.index;
+  if (logIndex === undefined) {
+    throw new Error(`Missing log index in transaction ${log.transactionHash}`);
+  }
+
+  return Number(logIndex);
+}
+
+function toAddressTopic(address: string): string {
+  return '0x' + address.toLowerCase().replace(/^0x/, '').padStart(64, '0');
+}
+
+function formatCsvValue(value: TimelineEventValue | undefined): string {
+  if (value === undefined) {
+    return '';
+  }
+
+  return Array.isArray(value) ? value.join('|') : value.toString();
+}
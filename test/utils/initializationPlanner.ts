@@ -0,0 +1,223 @@
+import { FP_ONE, fpDivDown, fpMulDown } from '@balancer-labs/v3-helpers/src/numbers';
+import { computeTheoreticalPriceRatioAndBalances, pureComputeInvariant, Rounding } from './reClammMath';
+import { ReClammPoolImmutableData } from './reClammPoolData';
+import { toRawUndoRateRoundDown, toScaled18ApplyRateRoundDown } from './scalingHelpers';
+
+// Subset of `ReClammPoolImmutableData` needed to plan an initialization.
+export type InitializationSettings = Pick<
+  ReClammPoolImmutableData,
+  | 'tokens'
+  | 'decimalScalingFactors'
+  | 'tokenAPriceIncludesRate'
+  | 'tokenBPriceIncludesRate'
+  | 'initialMinPrice'
+  | 'initialMaxPrice'
+  | 'initialTargetPrice'
+  | 'balanceRatioAndPriceTolerance'
+>;
+
+export type InitializationPlan = {
+  initialBalancesRaw: bigint[];
+  initialBalancesScaled18: bigint[];
+  // Virtual balances and price ratio the pool would store on initialization.
+  virtualBalances: bigint[];
+  priceRatio: bigint;
+  // Name of the `IReClammErrors` error `onBeforeInitialize` would revert with, if any.
+  revertReason?: 'BalanceRatioExceedsTolerance' | 'WrongInitializationPrices';
+};
+
+/**
+ * Port of `ReClammPool.computeInitialBalancesRaw`: given the raw amount of one token, returns the raw amounts of both
+ * tokens (in token registration order) that match the initial target price. `tokenRates` are the current rates of
+ * the pool tokens (i.e., `FP_ONE` for tokens without a rate provider).
+ */
+export function computeInitialBalancesRaw(
+  settings: InitializationSettings,
+  tokenRates: bigint[],
+  referenceToken: string,
+  referenceAmountInRaw: bigint
+): bigint[] {
+  const [referenceTokenIdx, otherTokenIdx] = findReferenceToken(settings.tokens, referenceToken);
+
+  const balanceRatioScaled18 = computeInitialBalanceRatioScaled18(settings, tokenRates[0], tokenRates[1]);
+
+  const referenceAmountInScaled18 = toScaled18ApplyRateRoundDown(
+    referenceAmountInRaw,
+    settings.decimalScalingFactors[referenceTokenIdx],
+    tokenRates[referenceTokenIdx]
+  );
+
+  // Since the ratio is defined as b/a, multiply if we're given a, and divide if we're given b.
+  const mulOrDiv = referenceTokenIdx == 0 ? fpMulDown : fpDivDown;
+
+  const initialBalancesRaw: bigint[] = [];
+  initialBalancesRaw[referenceTokenIdx] = referenceAmountInRaw;
+  initialBalancesRaw[otherTokenIdx] = toRawUndoRateRoundDown(
+    mulOrDiv(referenceAmountInScaled18, balanceRatioScaled18),
+    settings.decimalScalingFactors[otherTokenIdx],
+    tokenRates[otherTokenIdx]
+  );
+
+  return initialBalancesRaw;
+}
+
+export function computeInitialBalanceRatioScaled18(
+  settings: InitializationSettings,
+  rateA: bigint,
+  rateB: bigint
+): bigint {
+  const [minPrice, maxPrice, targetPrice] = getPriceSettingsAdjustedByRates(settings, rateA, rateB);
+
+  const { realBalances } = computeTheoreticalPriceRatioAndBalances(minPrice, maxPrice, targetPrice);
+
+  return fpDivDown(realBalances[1], realBalances[0]);
+}
+
+/**
+ * Initial prices are given in terms of the underlying tokens, unless the price of a token already includes its rate.
+ * Since the pool math works with live balances (which include the rates), undo the rates from the prices.
+ */
+export function getPriceSettingsAdjustedByRates(
+  settings: InitializationSettings,
+  rateA: bigint,
+  rateB: bigint
+): [minPrice: bigint, maxPrice: bigint, targetPrice: bigint] {
+  rateA = settings.tokenAPriceIncludesRate ? FP_ONE : rateA;
+  rateB = settings.tokenBPriceIncludesRate ? FP_ONE : rateB;
+
+  return [
+    (settings.initialMinPrice * rateB) / rateA,
+    (settings.initialMaxPrice * rateB) / rateA,
+    (settings.initialTargetPrice * rateB) / rateA,
+  ];
+}
+
+export function checkInitializationBalanceRatio(
+  balancesScaled18: bigint[],
+  theoreticalBalances: bigint[],
+  tolerance: bigint
+) {
+  const realBalanceRatio = fpDivDown(balancesScaled18[1], balancesScaled18[0]);
+  const theoreticalBalanceRatio = fpDivDown(theoreticalBalances[1], theoreticalBalances[0]);
+
+  if (isWithinTolerance(realBalanceRatio, theoreticalBalanceRatio, tolerance) == false) {
+    throw new Error('BalanceRatioExceedsTolerance');
+  }
+}
+
+export function checkInitializationPrices(
+  balancesScaled18: bigint[],
+  minPrice: bigint,
+  maxPrice: bigint,
+  targetPrice: bigint,
+  virtualBalanceA: bigint,
+  virtualBalanceB: bigint,
+  tolerance: bigint
+) {
+  const spotPrice = fpDivDown(balancesScaled18[1] + virtualBalanceB, balancesScaled18[0] + virtualBalanceA);
+
+  const currentInvariant = pureComputeInvariant(
+    balancesScaled18,
+    [virtualBalanceA, virtualBalanceB],
+    Rounding.ROUND_DOWN
+  );
+  const currentMinPrice = (virtualBalanceB * virtualBalanceB) / currentInvariant;
+  const currentMaxPrice = fpDivDown(currentInvariant, fpMulDown(virtualBalanceA, virtualBalanceA));
+
+  for (const [currentPrice, initializationPrice] of [
+    [spotPrice, targetPrice],
+    [currentMinPrice, minPrice],
+    [currentMaxPrice, maxPrice],
+  ]) {
+    if (isWithinTolerance(currentPrice, initializationPrice, tolerance) == false) {
+      throw new Error('WrongInitializationPrices');
+    }
+  }
+}
+
+/**
+ * Computes the initial balances from the amount of one token, and runs them through the same steps as
+ * `onBeforeInitialize`, reporting whether `router.initialize` would revert in the pool.
+ */
+export function planInitialization(
+  settings: InitializationSettings,
+  tokenRates: bigint[],
+  referenceToken: string,
+  referenceAmountInRaw: bigint
+): InitializationPlan {
+  const initialBalancesRaw = computeInitialBalancesRaw(settings, tokenRates, referenceToken, referenceAmountInRaw);
+
+  return simulateInitialization(settings, tokenRates, initialBalancesRaw);
+}
+
+/**
+ * Mirrors `onBeforeInitialize` for arbitrary raw amounts (in token registration order), e.g., to check amounts
+ * computed off-chain before sending the initialization transaction.
+ */
+export function simulateInitialization(
+  settings: InitializationSettings,
+  tokenRates: bigint[],
+  exactAmountsInRaw: bigint[]
+): InitializationPlan {
+  // The Vault scales the amounts in rounding down.
+  const initialBalancesScaled18 = exactAmountsInRaw.map((amount, i) =>
+    toScaled18ApplyRateRoundDown(amount, settings.decimalScalingFactors[i], tokenRates[i])
+  );
+
+  const [minPrice, maxPrice, targetPrice] = getPriceSettingsAdjustedByRates(settings, tokenRates[0], tokenRates[1]);
+  const { realBalances, virtualBalances, priceRatio } = computeTheoreticalPriceRatioAndBalances(
+    minPrice,
+    maxPrice,
+    targetPrice
+  );
+
+  const plan: InitializationPlan = {
+    initialBalancesRaw: exactAmountsInRaw,
+    initialBalancesScaled18,
+    virtualBalances: [],
+    priceRatio,
+  };
+
+  try {
+    checkInitializationBalanceRatio(initialBalancesScaled18, realBalances, settings.balanceRatioAndPriceTolerance);
+
+    const scale = fpDivDown(initialBalancesScaled18[0], realBalances[0]);
+    plan.virtualBalances = virtualBalances.map((virtualBalance) => fpMulDown(virtualBalance, scale));
+
+    checkInitializationPrices(
+      initialBalancesScaled18,
+      minPrice,
+      maxPrice,
+      targetPrice,
+      plan.virtualBalances[0],
+      plan.virtualBalances[1],
+      settings.balanceRatioAndPriceTolerance
+    );
+  } catch (error) {
+    const reason = (error as Error).message;
+    if (reason != 'BalanceRatioExceedsTolerance' && reason != 'WrongInitializationPrices') {
+      throw error;
+    }
+
+    plan.revertReason = reason;
+  }
+
+  return plan;
+}
+
+function findReferenceToken(tokens: string[], referenceToken: string): [number, number] {
+  if (tokens[0].toLowerCase() == referenceToken.toLowerCase()) {
+    return [0, 1];
+  } else if (tokens[1].toLowerCase() == referenceToken.toLowerCase()) {
+    return [1, 0];
+  }
+
+  throw new Error('InvalidToken');
+}
+
+function isWithinTolerance(value: bigint, reference: bigint, tolerance: bigint): boolean {
+  const lowerBound = fpMulDown(reference, FP_ONE - tolerance);
+  const upperBound = fpMulDown(reference, FP_ONE + tolerance);
+
+  return value >= lowerBound && value <= upperBound;
+}
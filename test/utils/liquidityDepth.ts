@@ -0,0 +1,223 @@
+import { BigNumberish, formatUnits } from 'ethers';
+import { bn, fp, FP_ONE, fpDivDown, fpDivUp, fpMulDown } from '@balancer-labs/v3-helpers/src/numbers';
+import { computeRetainedSwapFeeRate, computeTargetTotalBalanceIn } from './arbitrageCalculator';
+import { computeInGivenOut, computeOutGivenIn } from './reClammMath';
+import { ReClammPoolState } from './reClammPoolState';
+import { computeRateRoundUp, toRawUndoRateRoundDown, toRawUndoRateRoundUp } from './scalingHelpers';
+
+const DEFAULT_PRICE_MOVES = [fp(0.001), fp(0.01), fp(0.05)];
+
+export type LiquidityDepthOptions = {
+  // Timestamp at which the pool is traded; defaults to the current time.
+  timestamp?: BigNumberish;
+  // Relative moves of the spot price, as 18-decimal FP fractions. Defaults to 0.1%, 1% and 5%.
+  priceMoves?: bigint[];
+  // Protocol and pool creator share of the swap fees, which leaves the pool; defaults to zero.
+  aggregateSwapFeePercentage?: bigint;
+};
+
+export type DepthPoint = {
+  // `up` buys token A with token B, raising its price; `down` sells token A for token B.
+  direction: 'up' | 'down';
+  // Relative move of the spot price, as an 18-decimal FP fraction; undefined for the edge of the price range.
+  priceMove?: bigint;
+  targetSpotPrice: bigint;
+  spotPriceAfter: bigint;
+  // False if the edge of the price range comes first, in which case the trade exhausts the real balance of token out.
+  reachable: boolean;
+  tokenInIndex: number;
+  // The amount in includes the swap fee.
+  amountInScaled18: bigint;
+  amountOutScaled18: bigint;
+  swapFeeAmountScaled18: bigint;
+  amountInRaw: bigint;
+  amountOutRaw: bigint;
+  // Average price of token A in token B, paid (up) or received (down) by the trader, including the swap fee.
+  effectivePrice: bigint;
+};
+
+export type LiquidityDepth = {
+  timestamp: bigint;
+  spotPrice: bigint;
+  minPrice: bigint;
+  maxPrice: bigint;
+  swapFeePercentage: bigint;
+  // Virtual balances at the timestamp (i.e., after the update the first swap would trigger).
+  virtualBalances: bigint[];
+  // For every price move, the down and up trades, followed by the trades to the edges of the price range.
+  points: DepthPoint[];
+  // Largest trades before a real balance is exhausted, by token in index (i.e., the range edge trades).
+  maxAmountsInScaled18: bigint[];
+  maxAmountsOutScaled18: bigint[];
+};
+
+/**
+ * Computes the trades that move the spot price of the pool by the given relative amounts in each direction, and the
+ * trades that take it to the edges of the price range, where the real balance of token out runs out. Amounts come
+ * from `computeOutGivenIn` on the virtual balances of the given timestamp, and the amounts in include the static
+ * swap fee, which the Vault charges on top of the amount given to the pool math. The pool keeps the fee net of the
+ * aggregate fee, so the target prices are those of the pool after the fee is added to its balance.
+ */
+export function computeLiquidityDepth(state: ReClammPoolState, options: LiquidityDepthOptions = {}): LiquidityDepth {
+  const timestamp = bn(options.timestamp ?? Math.floor(Date.now() / 1000));
+  const [virtualBalanceA, virtualBalanceB] = state.computeCurrentVirtualBalances(timestamp);
+  const virtualBalances = [virtualBalanceA, virtualBalanceB];
+  const spotPrice = state.computeCurrentSpotPrice(timestamp);
+  const [minPrice, maxPrice] = state.computeCurrentPriceRange(timestamp);
+  const aggregateSwapFeePercentage = options.aggregateSwapFeePercentage ?? 0n;
+  const depthPoint = (direction: DepthPoint['direction'], targetSpotPrice: bigint, priceMove?: bigint) =>
+    computeDepthPoint(state, virtualBalances, aggregateSwapFeePercentage, direction, targetSpotPrice, priceMove);
+
+  const points: DepthPoint[] = [];
+  for (const priceMove of options.priceMoves ?? DEFAULT_PRICE_MOVES) {
+    points.push(depthPoint('down', fpMulDown(spotPrice, FP_ONE - priceMove), priceMove));
+    points.push(depthPoint('up', fpMulDown(spotPrice, FP_ONE + priceMove), priceMove));
+  }
+
+  const edgePoints = [depthPoint('down', minPrice), depthPoint('up', maxPrice)];
+  points.push(...edgePoints);
+
+  return {
+    timestamp,
+    spotPrice,
+    minPrice,
+    maxPrice,
+    swapFeePercentage: state.dynamicData.staticSwapFeePercentage,
+    virtualBalances,
+    points,
+    maxAmountsInScaled18: edgePoints.map((point) => point.amountInScaled18),
+    maxAmountsOutScaled18: edgePoints.map((point) => point.amountOutScaled18),
+  };
+}
+
+export function formatLiquidityDepthTable(depth: LiquidityDepth, tokenSymbols = ['A', 'B']): string {
+  const header = ['move', 'target price', 'price after', `amount in`, 'amount out', 'swap fee', 'effective price'];
+  const rows = depth.points.map((point) => {
+    const [symbolIn, symbolOut] = point.tokenInIndex == 0 ? tokenSymbols : [...tokenSymbols].reverse();
+    const sign = point.direction == 'up' ? '+' : '-';
+
+    return [
+      point.priceMove === undefined ? `${sign}range edge` : `${sign}${formatUnits(point.priceMove * 100n, 18)}%`,
+      formatUnits(point.targetSpotPrice, 18) + (point.reachable ? '' : ' (unreachable)'),
+      formatUnits(point.spotPriceAfter, 18),
+      `${formatUnits(point.amountInScaled18, 18)} ${symbolIn}`,
+      `${formatUnits(point.amountOutScaled18, 18)} ${symbolOut}`,
+      `${formatUnits(point.swapFeeAmountScaled18, 18)} ${symbolIn}`,
+      formatUnits(point.effectivePrice, 18),
+    ];
+  });
+
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)));
+  const formatRow = (row: string[]) => row.map((value, i) => value.padEnd(widths[i])).join('  ');
+
+  return [
+    `Spot price ${formatUnits(depth.spotPrice, 18)} ${tokenSymbols[1]}/${tokenSymbols[0]}, ` +
+      `range ${formatUnits(depth.minPrice, 18)} - ${formatUnits(depth.maxPrice, 18)}, ` +
+      `swap fee ${formatUnits(depth.swapFeePercentage * 100n, 18)}%`,
+    formatRow(header),
+    ...rows.map(formatRow),
+  ].join('\n');
+}
+
+export function liquidityDepthToJSON(depth: LiquidityDepth): string {
+  return JSON.stringify(depth, (_, value) => (typeof value == 'bigint' ? value.toString() : value), 2);
+}
+
+function computeDepthPoint(
+  state: ReClammPoolState,
+  virtualBalances: bigint[],
+  aggregateSwapFeePercentage: bigint,
+  direction: DepthPoint['direction'],
+  targetSpotPrice: bigint,
+  priceMove?: bigint
+): DepthPoint {
+  const { balancesScaled18, dynamicData, immutableData } = state;
+  const tokenInIndex = direction == 'up' ? 1 : 0;
+  const tokenOutIndex = 1 - tokenInIndex;
+  const totalBalances = [balancesScaled18[0] + virtualBalances[0], balancesScaled18[1] + virtualBalances[1]];
+  const swapFeePercentage = dynamicData.staticSwapFeePercentage;
+
+  const targetTotalBalanceIn = computeTargetTotalBalanceIn(
+    totalBalances,
+    tokenInIndex,
+    targetSpotPrice,
+    computeRetainedSwapFeeRate(swapFeePercentage, aggregateSwapFeePercentage)
+  );
+  let amountInScaled18 =
+    targetTotalBalanceIn > totalBalances[tokenInIndex] ? targetTotalBalanceIn - totalBalances[tokenInIndex] : 0n;
+
+  // The range edges drain the real balance of token out, as do the price moves that would go past them.
+  const isRangeEdge = priceMove === undefined;
+  let amountOutScaled18 = isRangeEdge
+    ? undefined
+    : tryComputeOutGivenIn(state, virtualBalances, tokenInIndex, amountInScaled18);
+  const reachable = isRangeEdge || amountOutScaled18 !== undefined;
+  if (amountOutScaled18 === undefined) {
+    amountOutScaled18 = balancesScaled18[tokenOutIndex];
+    amountInScaled18 = computeInGivenOut(
+      balancesScaled18,
+      virtualBalances,
+      tokenInIndex,
+      tokenOutIndex,
+      amountOutScaled18
+    );
+  }
+
+  // The Vault charges the fee on the amount given: `amountIn = amountInWithFee * (1 - fee)`.
+  const amountInWithFeeScaled18 = fpDivUp(amountInScaled18, FP_ONE - swapFeePercentage);
+  const swapFeeAmountScaled18 = amountInWithFeeScaled18 - amountInScaled18;
+
+  // The pool keeps the amount in with the swap fee, minus the aggregate fee.
+  const totalBalancesAfter = [...totalBalances];
+  totalBalancesAfter[tokenInIndex] +=
+    amountInWithFeeScaled18 - fpMulDown(swapFeeAmountScaled18, aggregateSwapFeePercentage);
+  totalBalancesAfter[tokenOutIndex] -= amountOutScaled18;
+
+  let effectivePrice = 0n;
+  if (amountOutScaled18 > 0n) {
+    effectivePrice =
+      direction == 'up'
+        ? fpDivUp(amountInWithFeeScaled18, amountOutScaled18)
+        : fpDivDown(amountOutScaled18, amountInWithFeeScaled18);
+  }
+
+  return {
+    direction,
+    priceMove,
+    targetSpotPrice,
+    spotPriceAfter: fpDivDown(totalBalancesAfter[1], totalBalancesAfter[0]),
+    reachable,
+    tokenInIndex,
+    amountInScaled18: amountInWithFeeScaled18,
+    amountOutScaled18,
+    swapFeeAmountScaled18,
+    amountInRaw: toRawUndoRateRoundUp(
+      amountInWithFeeScaled18,
+      immutableData.decimalScalingFactors[tokenInIndex],
+      dynamicData.tokenRates[tokenInIndex]
+    ),
+    amountOutRaw: toRawUndoRateRoundDown(
+      amountOutScaled18,
+      immutableData.decimalScalingFactors[tokenOutIndex],
+      computeRateRoundUp(dynamicData.tokenRates[tokenOutIndex])
+    ),
+    effectivePrice,
+  };
+}
+
+// Returns undefined if the amount out would exceed the real balance (i.e., the swap goes past the edge of the range).
+function tryComputeOutGivenIn(
+  state: ReClammPoolState,
+  virtualBalances: bigint[],
+  tokenInIndex: number,
+  amountInScaled18: bigint
+): bigint | undefined {
+  try {
+    return computeOutGivenIn(state.balancesScaled18, virtualBalances, tokenInIndex, 1 - tokenInIndex, amountInScaled18);
+  } catch (error) {
+    if ((error as Error).message == 'AmountOutGreaterThanBalance') {
+      return undefined;
+    }
+    throw error;
+  }
+}
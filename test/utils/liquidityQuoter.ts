@@ -0,0 +1,170 @@
+import { BigNumberish } from 'ethers';
+import { bn } from '@balancer-labs/v3-helpers/src/numbers';
+import { mulDivUp } from './reClammMath';
+import { ReClammPoolDynamicData, ReClammPoolImmutableData } from './reClammPoolData';
+import { ReClammPoolState } from './reClammPoolState';
+import {
+  computeRateRoundUp,
+  toRawUndoRateRoundDown,
+  toRawUndoRateRoundUp,
+  toScaled18ApplyRateRoundDown,
+} from './scalingHelpers';
+import { DEFAULT_MINIMUM_TRADE_AMOUNT } from './swapQuoter';
+
+// The Vault does not let the BPT total supply of an initialized pool go below this amount.
+export const POOL_MINIMUM_TOTAL_SUPPLY = bn(1e6);
+
+export type LiquidityQuoteOptions = {
+  // Timestamp of the block in which the operation would be executed; defaults to the current time.
+  timestamp?: BigNumberish;
+  // Raw pool balances, as returned by `IVault.getPoolTokenInfo`. They are derived from the live balances if not
+  // given, which is exact for tokens without rates.
+  balancesRaw?: bigint[];
+  minimumTradeAmount?: bigint;
+  minimumTotalSupply?: bigint;
+};
+
+export type ProportionalLiquidityQuote = {
+  bptAmount: bigint;
+  // Amounts in (add) or out (remove).
+  amountsRaw: bigint[];
+  amountsScaled18: bigint[];
+  // Last virtual balances set by the pool hook: the current virtual balances, scaled by the change of total supply.
+  virtualBalances: bigint[];
+  // Pool after the operation, so that liquidity flows can be chained.
+  dynamicData: ReClammPoolDynamicData;
+  balancesRaw: bigint[];
+};
+
+/**
+ * Quotes `addLiquidityProportional` for an exact amount of BPT out. The Vault computes the amounts in from the live
+ * balances (rounding up) and converts them to raw (rounding up), while `onBeforeAddLiquidity` moves the virtual
+ * balances to the given timestamp and scales them up with the total supply (rounding down).
+ */
+export function computeProportionalAmountsIn(
+  dynamicData: ReClammPoolDynamicData,
+  immutableData: ReClammPoolImmutableData,
+  exactBptAmountOut: bigint,
+  options: LiquidityQuoteOptions = {}
+): ProportionalLiquidityQuote {
+  ensureLiquidityOperationsAllowed(dynamicData);
+  const { totalSupply, balancesLiveScaled18, tokenRates } = dynamicData;
+
+  const amountsScaled18 = balancesLiveScaled18.map((balance) => mulDivUp(balance, exactBptAmountOut, totalSupply));
+  const amountsRaw = amountsScaled18.map((amount, i) =>
+    toRawUndoRateRoundUp(amount, immutableData.decimalScalingFactors[i], tokenRates[i])
+  );
+
+  return applyProportionalLiquidity(dynamicData, immutableData, {
+    kind: 'add',
+    bptAmount: exactBptAmountOut,
+    amountsScaled18,
+    amountsRaw,
+    options,
+  });
+}
+
+/**
+ * Quotes `removeLiquidityProportional` for an exact amount of BPT in. The Vault computes the amounts out from the live
+ * balances (rounding down) and converts them to raw (rounding down, with the rate rounded up), while
+ * `onBeforeRemoveLiquidity` moves the virtual balances to the given timestamp and scales them down with the total
+ * supply (rounding down).
+ */
+export function computeProportionalAmountsOut(
+  dynamicData: ReClammPoolDynamicData,
+  immutableData: ReClammPoolImmutableData,
+  exactBptAmountIn: bigint,
+  options: LiquidityQuoteOptions = {}
+): ProportionalLiquidityQuote {
+  ensureLiquidityOperationsAllowed(dynamicData);
+  const { totalSupply, balancesLiveScaled18, tokenRates } = dynamicData;
+
+  if (exactBptAmountIn > totalSupply) {
+    throw new Error('ERC20InsufficientBalance');
+  }
+
+  const amountsScaled18 = balancesLiveScaled18.map((balance) => (balance * exactBptAmountIn) / totalSupply);
+  const amountsRaw = amountsScaled18.map((amount, i) =>
+    toRawUndoRateRoundDown(amount, immutableData.decimalScalingFactors[i], computeRateRoundUp(tokenRates[i]))
+  );
+
+  return applyProportionalLiquidity(dynamicData, immutableData, {
+    kind: 'remove',
+    bptAmount: exactBptAmountIn,
+    amountsScaled18,
+    amountsRaw,
+    options,
+  });
+}
+
+type ProportionalLiquidityChange = {
+  kind: 'add' | 'remove';
+  bptAmount: bigint;
+  amountsScaled18: bigint[];
+  amountsRaw: bigint[];
+  options: LiquidityQuoteOptions;
+};
+
+function ensureLiquidityOperationsAllowed(dynamicData: ReClammPoolDynamicData) {
+  if (dynamicData.isPoolInitialized == false) {
+    throw new Error('PoolNotInitialized');
+  }
+
+  if (dynamicData.isPoolPaused) {
+    throw new Error('PoolPaused');
+  }
+}
+
+function applyProportionalLiquidity(
+  dynamicData: ReClammPoolDynamicData,
+  immutableData: ReClammPoolImmutableData,
+  change: ProportionalLiquidityChange
+): ProportionalLiquidityQuote {
+  const { kind, bptAmount, amountsScaled18, amountsRaw, options } = change;
+  const newTotalSupply = kind == 'add' ? dynamicData.totalSupply + bptAmount : dynamicData.totalSupply - bptAmount;
+
+  const minimumTradeAmount = options.minimumTradeAmount ?? DEFAULT_MINIMUM_TRADE_AMOUNT;
+  // Unlike swaps, zero amounts are allowed (e.g., when a token balance is zero).
+  if (amountsScaled18.some((amount) => amount != 0n && amount < minimumTradeAmount)) {
+    throw new Error('TradeAmountTooSmall');
+  }
+
+  if (newTotalSupply < (options.minimumTotalSupply ?? POOL_MINIMUM_TOTAL_SUPPLY)) {
+    throw new Error('PoolTotalSupplyTooLow');
+  }
+
+  const timestamp = bn(options.timestamp ?? Math.floor(Date.now() / 1000));
+  // Copies the struct members by name, since typechain `Result` objects cannot be spread.
+  const state = new ReClammPoolState(dynamicData, immutableData);
+  const [currentVirtualBalanceA, currentVirtualBalanceB] = state.computeCurrentVirtualBalances(timestamp);
+
+  // Like the pool hooks, round the virtual balances down, which favors the Vault in swaps.
+  const virtualBalances = [currentVirtualBalanceA, currentVirtualBalanceB].map(
+    (virtualBalance) => (virtualBalance * newTotalSupply) / dynamicData.totalSupply
+  );
+
+  const balancesRaw = (
+    options.balancesRaw ??
+    dynamicData.balancesLiveScaled18.map((balance, i) =>
+      toRawUndoRateRoundDown(balance, immutableData.decimalScalingFactors[i], dynamicData.tokenRates[i])
+    )
+  ).map((balance, i) => (kind == 'add' ? balance + amountsRaw[i] : balance - amountsRaw[i]));
+
+  return {
+    bptAmount,
+    amountsRaw,
+    amountsScaled18,
+    virtualBalances,
+    dynamicData: {
+      ...state.dynamicData,
+      // The Vault recomputes the live balances from the new raw balances, rounding down.
+      balancesLiveScaled18: balancesRaw.map((balance, i) =>
+        toScaled18ApplyRateRoundDown(balance, immutableData.decimalScalingFactors[i], dynamicData.tokenRates[i])
+      ),
+      totalSupply: newTotalSupply,
+      lastVirtualBalances: virtualBalances,
+      lastTimestamp: timestamp,
+    },
+    balancesRaw,
+  };
+}
@@ -0,0 +1,220 @@
+// Bigint port of the Balancer `LogExpMath` library (`@balancer-labs/v3-solidity-utils/contracts/math`).
+// Every step reproduces the Solidity integer arithmetic (signed divisions truncate towards zero in both languages),
+// so results match the contract down to the wei.
+
+const ONE_18 = 10n ** 18n;
+const ONE_20 = 10n ** 20n;
+const ONE_36 = 10n ** 36n;
+
+const MAX_NATURAL_EXPONENT = 130n * ONE_18;
+const MIN_NATURAL_EXPONENT = -41n * ONE_18;
+
+const LN_36_LOWER_BOUND = ONE_18 - 10n ** 17n;
+const LN_36_UPPER_BOUND = ONE_18 + 10n ** 17n;
+
+const MILD_EXPONENT_BOUND = 2n ** 254n / ONE_20;
+
+// 18 decimal constants
+const x0 = 128000000000000000000n; // 2ˆ7
+const a0 = 38877084059945950922200000000000000000000000000000000000n; // eˆ(x0) (no decimals)
+const x1 = 64000000000000000000n; // 2ˆ6
+const a1 = 6235149080811616882910000000n; // eˆ(x1) (no decimals)
+
+// 20 decimal constants
+const x2 = 3200000000000000000000n; // 2ˆ5
+const a2 = 7896296018268069516100000000000000n; // eˆ(x2)
+const x3 = 1600000000000000000000n; // 2ˆ4
+const a3 = 888611052050787263676000000n; // eˆ(x3)
+const x4 = 800000000000000000000n; // 2ˆ3
+const a4 = 298095798704172827474000n; // eˆ(x4)
+const x5 = 400000000000000000000n; // 2ˆ2
+const a5 = 5459815003314423907810n; // eˆ(x5)
+const x6 = 200000000000000000000n; // 2ˆ1
+const a6 = 738905609893065022723n; // eˆ(x6)
+const x7 = 100000000000000000000n; // 2ˆ0
+const a7 = 271828182845904523536n; // eˆ(x7)
+const x8 = 50000000000000000000n; // 2ˆ-1
+const a8 = 164872127070012814685n; // eˆ(x8)
+const x9 = 25000000000000000000n; // 2ˆ-2
+const a9 = 128402541668774148407n; // eˆ(x9)
+const x10 = 12500000000000000000n; // 2ˆ-3
+const a10 = 113314845306682631683n; // eˆ(x10)
+const x11 = 6250000000000000000n; // 2ˆ-4
+const a11 = 106449445891785942956n; // eˆ(x11)
+
+export function pow(x: bigint, y: bigint): bigint {
+  if (y == 0n) {
+    // We solve the 0^0 indetermination by making it equal one.
+    return ONE_18;
+  }
+
+  if (x == 0n) {
+    return 0n;
+  }
+
+  if (x >> 255n != 0n) {
+    throw new Error('BaseOutOfBounds');
+  }
+
+  if (y >= MILD_EXPONENT_BOUND) {
+    throw new Error('ExponentOutOfBounds');
+  }
+
+  let logxTimesY: bigint;
+  if (LN_36_LOWER_BOUND < x && x < LN_36_UPPER_BOUND) {
+    const ln36X = _ln36(x);
+
+    // ln36X has 36 decimal places, so perform two 18 decimal multiplications and add the results.
+    logxTimesY = (ln36X / ONE_18) * y + ((ln36X % ONE_18) * y) / ONE_18;
+  } else {
+    logxTimesY = _ln(x) * y;
+  }
+  logxTimesY /= ONE_18;
+
+  if (!(MIN_NATURAL_EXPONENT <= logxTimesY && logxTimesY <= MAX_NATURAL_EXPONENT)) {
+    throw new Error('ProductOutOfBounds');
+  }
+
+  return exp(logxTimesY);
+}
+
+export function exp(x: bigint): bigint {
+  if (!(x >= MIN_NATURAL_EXPONENT && x <= MAX_NATURAL_EXPONENT)) {
+    throw new Error('InvalidExponent');
+  }
+
+  let negativeExponent = false;
+
+  if (x < 0n) {
+    x = -x;
+    negativeExponent = true;
+  }
+
+  let firstAN: bigint;
+  if (x >= x0) {
+    x -= x0;
+    firstAN = a0;
+  } else if (x >= x1) {
+    x -= x1;
+    firstAN = a1;
+  } else {
+    firstAN = 1n; // One with no decimal places
+  }
+
+  // Transform x into a 20 decimal fixed point number, to have enhanced precision when computing the smaller terms.
+  x *= 100n;
+
+  let product = ONE_20;
+
+  for (const [xn, an] of [
+    [x2, a2],
+    [x3, a3],
+    [x4, a4],
+    [x5, a5],
+    [x6, a6],
+    [x7, a7],
+    [x8, a8],
+    [x9, a9],
+  ]) {
+    if (x >= xn) {
+      x -= xn;
+      product = (product * an) / ONE_20;
+    }
+  }
+
+  // Taylor series expansion for e^x: 1 + x + (x^2 / 2!) + (x^3 / 3!) + ... + (x^n / n!).
+  let seriesSum = ONE_20;
+  let term = x;
+  seriesSum += term;
+
+  for (let n = 2n; n <= 12n; n++) {
+    term = (term * x) / ONE_20 / n;
+    seriesSum += term;
+  }
+
+  const result = (((product * seriesSum) / ONE_20) * firstAN) / 100n;
+
+  return negativeExponent ? (ONE_18 * ONE_18) / result : result;
+}
+
+function _ln(a: bigint): bigint {
+  let negativeExponent = false;
+
+  if (a < ONE_18) {
+    // ln(a) = -ln(1/a), so compute ln(1/a) and negate the final result.
+    a = (ONE_18 * ONE_18) / a;
+    negativeExponent = true;
+  }
+
+  let sum = 0n;
+
+  // The first two a_n are plain integers, so these are integer (not fixed point) divisions.
+  if (a >= a0 * ONE_18) {
+    a /= a0;
+    sum += x0;
+  }
+
+  if (a >= a1 * ONE_18) {
+    a /= a1;
+    sum += x1;
+  }
+
+  // All other a_n and x_n are stored as 20 digit fixed point numbers.
+  sum *= 100n;
+  a *= 100n;
+
+  for (const [xn, an] of [
+    [x2, a2],
+    [x3, a3],
+    [x4, a4],
+    [x5, a5],
+    [x6, a6],
+    [x7, a7],
+    [x8, a8],
+    [x9, a9],
+    [x10, a10],
+    [x11, a11],
+  ]) {
+    if (a >= an) {
+      a = (a * ONE_20) / an;
+      sum += xn;
+    }
+  }
+
+  // Let z = (a - 1) / (a + 1).
+  // ln(a) = 2 * (z + z^3 / 3 + z^5 / 5 + z^7 / 7 + ... + z^(2 * n + 1) / (2 * n + 1))
+  const z = ((a - ONE_20) * ONE_20) / (a + ONE_20);
+  const zSquared = (z * z) / ONE_20;
+
+  let num = z;
+  let seriesSum = num;
+
+  for (let n = 3n; n <= 11n; n += 2n) {
+    num = (num * zSquared) / ONE_20;
+    seriesSum += num / n;
+  }
+
+  seriesSum *= 2n;
+
+  const result = (sum + seriesSum) / 100n;
+
+  return negativeExponent ? -result : result;
+}
+
+function _ln36(x: bigint): bigint {
+  // Transform x to a 36 digit fixed point value.
+  x *= ONE_18;
+
+  const z = ((x - ONE_36) * ONE_36) / (x + ONE_36);
+  const zSquared = (z * z) / ONE_36;
+
+  let num = z;
+  let seriesSum = num;
+
+  for (let n = 3n; n <= 15n; n += 2n) {
+    num = (num * zSquared) / ONE_36;
+    seriesSum += num / n;
+  }
+
+  return seriesSum * 2n;
+}
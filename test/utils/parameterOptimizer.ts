@@ -0,0 +1,125 @@
+import { FP_ONE, fpDivDown } from '@balancer-labs/v3-helpers/src/numbers';
+import { BacktestOptions, BacktestPoolParams, createBacktestPoolState, PricePoint, runBacktest } from './backtester';
+import { ReClammPoolImmutableData } from './reClammPoolData';
+
+export type OptimizationObjective = 'netReturn' | 'feeYield';
+
+export type ParameterOptimizerOptions = {
+  // Upper bounds of the search (the lower bounds are zero, like in the pool setters). Pass the pool immutable data,
+  // or the operating limits in `reClammPoolData`.
+  limits: Pick<ReClammPoolImmutableData, 'maxDailyPriceShiftExponent' | 'maxCenterednessMargin'>;
+  objective?: OptimizationObjective;
+  // Number of evenly spaced values per parameter in the initial grid, including both bounds.
+  gridSize?: number;
+  // Each round searches a grid of the same size around the best parameter set, with half the spacing.
+  refinementRounds?: number;
+  backtestOptions?: BacktestOptions;
+};
+
+export type ParameterSetResult = {
+  rank: number;
+  dailyPriceShiftExponent: bigint;
+  centerednessMargin: bigint;
+  // `finalLpValue / initialValue - 1`, as an 18-decimal number (may be negative).
+  netReturn: bigint;
+  // `feesEarned / initialValue`, as an 18-decimal number.
+  feeYield: bigint;
+  finalLpValue: bigint;
+  feesEarned: bigint;
+  valueVersusHold: bigint;
+  tradeCount: number;
+};
+
+const DEFAULT_GRID_SIZE = 5;
+const DEFAULT_REFINEMENT_ROUNDS = 2;
+
+/**
+ * Searches the daily price shift exponent and centeredness margin that maximize the objective when backtesting the
+ * given pool against a price series. Starts with a grid over the whole allowed space and then zooms in around the best
+ * parameter set. Returns every evaluated parameter set, best first.
+ */
+export function optimizeParameters(
+  poolParams: Omit<BacktestPoolParams, 'dailyPriceShiftExponent' | 'centerednessMargin'>,
+  prices: PricePoint[],
+  options: ParameterOptimizerOptions
+): ParameterSetResult[] {
+  const objective = options.objective ?? 'netReturn';
+  const gridSize = options.gridSize ?? DEFAULT_GRID_SIZE;
+  const refinementRounds = options.refinementRounds ?? DEFAULT_REFINEMENT_ROUNDS;
+  const { maxDailyPriceShiftExponent, maxCenterednessMargin } = options.limits;
+
+  if (gridSize < 2) {
+    throw new Error('Grid size must be at least 2');
+  }
+
+  const results = new Map<string, Omit<ParameterSetResult, 'rank'>>();
+
+  const evaluate = (dailyPriceShiftExponent: bigint, centerednessMargin: bigint): Omit<ParameterSetResult, 'rank'> => {
+    const key = `${dailyPriceShiftExponent}:${centerednessMargin}`;
+    const cachedResult = results.get(key);
+    if (cachedResult !== undefined) {
+      return cachedResult;
+    }
+
+    const state = createBacktestPoolState({ ...poolParams, dailyPriceShiftExponent, centerednessMargin });
+    const { summary } = runBacktest(state, prices, options.backtestOptions);
+
+    const result = {
+      dailyPriceShiftExponent,
+      centerednessMargin,
+      netReturn: fpDivDown(summary.finalLpValue, summary.initialValue) - FP_ONE,
+      feeYield: fpDivDown(summary.feesEarned, summary.initialValue),
+      finalLpValue: summary.finalLpValue,
+      feesEarned: summary.feesEarned,
+      valueVersusHold: summary.valueVersusHold,
+      tradeCount: summary.tradeCount,
+    };
+    results.set(key, result);
+
+    return result;
+  };
+
+  let exponentRange: [bigint, bigint] = [0n, maxDailyPriceShiftExponent];
+  let marginRange: [bigint, bigint] = [0n, maxCenterednessMargin];
+  let best = evaluate(0n, 0n);
+
+  for (let round = 0; round <= refinementRounds; round++) {
+    for (const dailyPriceShiftExponent of gridValues(exponentRange, gridSize)) {
+      for (const centerednessMargin of gridValues(marginRange, gridSize)) {
+        const result = evaluate(dailyPriceShiftExponent, centerednessMargin);
+        if (result[objective] > best[objective]) {
+          best = result;
+        }
+      }
+    }
+
+    // Center the next grid on the best parameter set, with half the width, within the allowed bounds.
+    exponentRange = zoomRange(exponentRange, best.dailyPriceShiftExponent, [0n, maxDailyPriceShiftExponent]);
+    marginRange = zoomRange(marginRange, best.centerednessMargin, [0n, maxCenterednessMargin]);
+  }
+
+  return [...results.values()]
+    .sort((a, b) => compareDescending(a[objective], b[objective]))
+    .map((result, i) => ({ rank: i + 1, ...result }));
+}
+
+function gridValues([min, max]: [bigint, bigint], gridSize: number): bigint[] {
+  const size = BigInt(gridSize - 1);
+  return Array.from({ length: gridSize }, (_, i) => min + ((max - min) * BigInt(i)) / size);
+}
+
+function zoomRange(
+  [min, max]: [bigint, bigint],
+  center: bigint,
+  [lowerBound, upperBound]: [bigint, bigint]
+): [bigint, bigint] {
+  const halfWidth = (max - min) / 4n;
+  const zoomedMin = center - halfWidth < lowerBound ? lowerBound : center - halfWidth;
+  const zoomedMax = center + halfWidth > upperBound ? upperBound : center + halfWidth;
+
+  return [zoomedMin, zoomedMax];
+}
+
+function compareDescending(a: bigint, b: bigint): number {
+  return a > b ? -1 : a < b ? 1 : 0;
+}
@@ -0,0 +1,331 @@
+import { BigNumberish } from 'ethers';
+import { bn, fpDivDown, fpDivUp, fpMulDown, fpMulUp } from '@balancer-labs/v3-helpers/src/numbers';
+import { ReClammPoolDynamicData, ReClammPoolImmutableData } from './reClammPoolData';
+import { ReClammPoolState } from './reClammPoolState';
+import { toRawUndoRateRoundDown, toScaled18ApplyRateRoundDown } from './scalingHelpers';
+import { quoteSwapExactIn, quoteSwapExactOut, SwapQuote } from './swapQuoter';
+
+// Default `minWrapAmount` of Vault deployments (applied to raw amounts).
+export const DEFAULT_MINIMUM_WRAP_AMOUNT = bn(1e4);
+
+// Plain TS counterparts of the `SwapPathStep`, `SwapPathExactAmountIn` and `SwapPathExactAmountOut` structs of the
+// BatchRouter. The limits (`minAmountOut` and `maxAmountIn`) are accepted, but not checked.
+export type PathStep = {
+  pool: string;
+  tokenOut: string;
+  // If true, `pool` is the wrapped token of an ERC4626 buffer.
+  isBuffer: boolean;
+};
+
+export type SwapPathExactAmountIn = {
+  tokenIn: string;
+  steps: PathStep[];
+  exactAmountIn: bigint;
+};
+
+export type SwapPathExactAmountOut = {
+  tokenIn: string;
+  steps: PathStep[];
+  exactAmountOut: bigint;
+};
+
+export type PathPoolModel = {
+  dynamicData: ReClammPoolDynamicData;
+  immutableData: ReClammPoolImmutableData;
+  // Raw pool balances, as returned by `IVault.getPoolTokenInfo`. They are derived from the live balances if not
+  // given, which is exact for tokens without rates.
+  balancesRaw?: bigint[];
+};
+
+export type BufferModel = {
+  underlyingToken: string;
+  // Underlying assets per wrapped share, as an 18-decimal FP number (i.e., `convertToAssets(1e18)` for tokens with
+  // the same decimals).
+  rate: bigint;
+};
+
+export type PathModels = {
+  // ReClamm pools, by address.
+  pools: Record<string, PathPoolModel>;
+  // ERC4626 buffers, by wrapped token address.
+  buffers?: Record<string, BufferModel>;
+};
+
+export type PathQuoteOptions = {
+  // Timestamp of the block in which the swaps would be executed; defaults to the current time.
+  timestamp?: BigNumberish;
+  minimumTradeAmount?: bigint;
+  minimumWrapAmount?: bigint;
+  // Protocol and pool creator share of the swap fees, which leaves the pools.
+  aggregateSwapFeePercentage?: bigint;
+};
+
+export type PathHopQuote = {
+  pool: string;
+  tokenIn: string;
+  tokenOut: string;
+  isBuffer: boolean;
+  amountInRaw: bigint;
+  amountOutRaw: bigint;
+  // Quote of ReClamm swaps, including the virtual balances used by `onSwap` (undefined for buffer steps).
+  swapQuote?: SwapQuote;
+};
+
+export type PathQuote = {
+  kind: 'ExactIn' | 'ExactOut';
+  // In path order, also for ExactOut paths (which the BatchRouter executes from the last step to the first).
+  hops: PathHopQuote[];
+  amountInRaw: bigint;
+  amountOutRaw: bigint;
+};
+
+export type BatchSwapQuote = {
+  paths: PathQuote[];
+  // Totals by token out (ExactIn) or token in (ExactOut), as returned by `querySwapExactIn` / `querySwapExactOut`.
+  tokens: string[];
+  amounts: bigint[];
+  // Pools after all the paths (by lowercase address), so that quotes can be chained.
+  pools: Record<string, PathPoolModel>;
+};
+
+/**
+ * Quotes `BatchRouter.swapExactIn` over ReClamm pools and ERC4626 buffers. Paths and steps are executed in order, and
+ * every ReClamm swap updates the modeled pool (balances, virtual balances and timestamp) like the Vault and `onSwap`
+ * do, so pools used more than once (in the same path or across paths) are quoted like on-chain. Buffer steps use the
+ * `previewDeposit` / `previewRedeem` of the supplied rate, with the 1 wei adjustments of the Vault. The results match
+ * `querySwapExactIn`, provided the pools have no external hooks that alter swaps or fees.
+ */
+export function quoteBatchSwapExactIn(
+  paths: SwapPathExactAmountIn[],
+  models: PathModels,
+  options: PathQuoteOptions = {}
+): BatchSwapQuote {
+  const context = createPathContext(models, options);
+
+  const pathQuotes = paths.map((path) => {
+    const hops: PathHopQuote[] = [];
+    let stepAmountIn = path.exactAmountIn;
+
+    path.steps.forEach((step, j) => {
+      const tokenIn = j == 0 ? path.tokenIn : path.steps[j - 1].tokenOut;
+      const hop = quoteStep(context, step, tokenIn, 'ExactIn', stepAmountIn);
+      hops.push(hop);
+      stepAmountIn = hop.amountOutRaw;
+    });
+
+    return { kind: 'ExactIn' as const, hops, amountInRaw: path.exactAmountIn, amountOutRaw: stepAmountIn };
+  });
+
+  return summarizePaths(
+    pathQuotes,
+    paths.map((path) => path.steps[path.steps.length - 1].tokenOut),
+    pathQuotes.map((quote) => quote.amountOutRaw),
+    context
+  );
+}
+
+/**
+ * Quotes `BatchRouter.swapExactOut` over ReClamm pools and ERC4626 buffers. Paths are executed in order, but the steps
+ * of each path run from the last to the first, computing the amount in of every step from its amount out. Buffer steps
+ * use the `previewMint` / `previewWithdraw` of the supplied rate, with the 1 wei adjustments of the Vault. The results
+ * match `querySwapExactOut`, provided the pools have no external hooks that alter swaps or fees.
+ */
+export function quoteBatchSwapExactOut(
+  paths: SwapPathExactAmountOut[],
+  models: PathModels,
+  options: PathQuoteOptions = {}
+): BatchSwapQuote {
+  const context = createPathContext(models, options);
+
+  const pathQuotes = paths.map((path) => {
+    const hops: PathHopQuote[] = [];
+    let stepAmountOut = path.exactAmountOut;
+
+    for (let j = path.steps.length - 1; j >= 0; j--) {
+      const tokenIn = j == 0 ? path.tokenIn : path.steps[j - 1].tokenOut;
+      const hop = quoteStep(context, path.steps[j], tokenIn, 'ExactOut', stepAmountOut);
+      hops.unshift(hop);
+      stepAmountOut = hop.amountInRaw;
+    }
+
+    return { kind: 'ExactOut' as const, hops, amountInRaw: stepAmountOut, amountOutRaw: path.exactAmountOut };
+  });
+
+  return summarizePaths(
+    pathQuotes,
+    paths.map((path) => path.tokenIn),
+    pathQuotes.map((quote) => quote.amountInRaw),
+    context
+  );
+}
+
+type PathContext = {
+  // Copies of the modeled pools (with raw balances), by lowercase address.
+  pools: Map<string, Required<PathPoolModel>>;
+  buffers: Map<string, BufferModel>;
+  options: PathQuoteOptions;
+  timestamp: bigint;
+};
+
+function createPathContext(models: PathModels, options: PathQuoteOptions): PathContext {
+  const pools = new Map<string, Required<PathPoolModel>>();
+  for (const [address, model] of Object.entries(models.pools)) {
+    // Copies the struct members by name, since typechain `Result` objects cannot be spread.
+    const { dynamicData, immutableData } = new ReClammPoolState(model.dynamicData, model.immutableData);
+    pools.set(address.toLowerCase(), {
+      dynamicData,
+      immutableData,
+      balancesRaw: [
+        ...(model.balancesRaw ??
+          dynamicData.balancesLiveScaled18.map((balance, i) =>
+            toRawUndoRateRoundDown(balance, immutableData.decimalScalingFactors[i], dynamicData.tokenRates[i])
+          )),
+      ],
+    });
+  }
+
+  const buffers = new Map<string, BufferModel>();
+  for (const [wrappedToken, buffer] of Object.entries(models.buffers ?? {})) {
+    buffers.set(wrappedToken.toLowerCase(), buffer);
+  }
+
+  return { pools, buffers, options, timestamp: bn(options.timestamp ?? Math.floor(Date.now() / 1000)) };
+}
+
+function quoteStep(
+  context: PathContext,
+  step: PathStep,
+  tokenIn: string,
+  kind: PathQuote['kind'],
+  amountGivenRaw: bigint
+): PathHopQuote {
+  if (step.isBuffer) {
+    return quoteBufferStep(context, step, tokenIn, kind, amountGivenRaw);
+  }
+
+  if (isSameAddress(step.pool, tokenIn) || isSameAddress(step.pool, step.tokenOut)) {
+    throw new Error(`Add and remove liquidity steps are not supported: ${step.pool}`);
+  }
+
+  const pool = context.pools.get(step.pool.toLowerCase());
+  if (pool === undefined) {
+    throw new Error(`Pool is not modeled: ${step.pool}`);
+  }
+
+  const { dynamicData, immutableData, balancesRaw } = pool;
+  const swapOptions = { timestamp: context.timestamp, minimumTradeAmount: context.options.minimumTradeAmount };
+  const swapQuote =
+    kind == 'ExactIn'
+      ? quoteSwapExactIn(dynamicData, immutableData, tokenIn, step.tokenOut, amountGivenRaw, swapOptions)
+      : quoteSwapExactOut(dynamicData, immutableData, tokenIn, step.tokenOut, amountGivenRaw, swapOptions);
+
+  // Mirror the Vault and `onSwap`: the pool keeps the amount in minus the aggregate fees, and stores the virtual
+  // balances used by the swap along with the swap timestamp.
+  const indexIn = immutableData.tokens.findIndex((token) => isSameAddress(token, tokenIn));
+  const indexOut = 1 - indexIn;
+  const aggregateSwapFeeAmountRaw = fpMulDown(
+    swapQuote.swapFeeAmountRaw,
+    context.options.aggregateSwapFeePercentage ?? 0n
+  );
+  balancesRaw[indexIn] += swapQuote.amountInRaw - aggregateSwapFeeAmountRaw;
+  balancesRaw[indexOut] -= swapQuote.amountOutRaw;
+  for (const i of [indexIn, indexOut]) {
+    dynamicData.balancesLiveScaled18[i] = toScaled18ApplyRateRoundDown(
+      balancesRaw[i],
+      immutableData.decimalScalingFactors[i],
+      dynamicData.tokenRates[i]
+    );
+  }
+  dynamicData.lastVirtualBalances = swapQuote.virtualBalances;
+  dynamicData.lastTimestamp = context.timestamp;
+
+  return {
+    pool: step.pool,
+    tokenIn,
+    tokenOut: step.tokenOut,
+    isBuffer: false,
+    amountInRaw: swapQuote.amountInRaw,
+    amountOutRaw: swapQuote.amountOutRaw,
+    swapQuote,
+  };
+}
+
+// Mirrors `Vault.erc4626BufferWrapOrUnwrap`, which removes (or adds) 1 wei to the amount given and to the preview
+// result, so that buffers do not leak value through rounding.
+function quoteBufferStep(
+  context: PathContext,
+  step: PathStep,
+  tokenIn: string,
+  kind: PathQuote['kind'],
+  amountGivenRaw: bigint
+): PathHopQuote {
+  const buffer = context.buffers.get(step.pool.toLowerCase());
+  if (buffer === undefined) {
+    throw new Error(`Buffer is not modeled: ${step.pool}`);
+  }
+
+  // The buffer unwraps if the wrapped token goes in, and wraps otherwise.
+  const isUnwrap = isSameAddress(step.pool, tokenIn);
+  const underlyingToken = isUnwrap ? step.tokenOut : tokenIn;
+  if (isSameAddress(underlyingToken, buffer.underlyingToken) == false) {
+    throw new Error('WrongUnderlyingToken');
+  }
+
+  const minimumWrapAmount = context.options.minimumWrapAmount ?? DEFAULT_MINIMUM_WRAP_AMOUNT;
+  ensureValidWrapAmount(amountGivenRaw, minimumWrapAmount);
+
+  let amountInRaw: bigint;
+  let amountOutRaw: bigint;
+  if (kind == 'ExactIn') {
+    amountInRaw = amountGivenRaw;
+    // `previewRedeem` and `previewDeposit`.
+    amountOutRaw =
+      (isUnwrap ? fpMulDown(amountGivenRaw - 1n, buffer.rate) : fpDivDown(amountGivenRaw - 1n, buffer.rate)) - 1n;
+  } else {
+    // `previewWithdraw` and `previewMint`.
+    amountInRaw =
+      (isUnwrap ? fpDivUp(amountGivenRaw + 1n, buffer.rate) : fpMulUp(amountGivenRaw + 1n, buffer.rate)) + 1n;
+    amountOutRaw = amountGivenRaw;
+  }
+
+  ensureValidWrapAmount(kind == 'ExactIn' ? amountOutRaw : amountInRaw, minimumWrapAmount);
+
+  return { pool: step.pool, tokenIn, tokenOut: step.tokenOut, isBuffer: true, amountInRaw, amountOutRaw };
+}
+
+function summarizePaths(
+  pathQuotes: PathQuote[],
+  pathTokens: string[],
+  pathAmounts: bigint[],
+  context: PathContext
+): BatchSwapQuote {
+  // Tokens are listed in the order they first appear, like the transient sets of the BatchRouter.
+  const tokens: string[] = [];
+  const amounts: bigint[] = [];
+  pathTokens.forEach((token, i) => {
+    const index = tokens.findIndex((listedToken) => isSameAddress(listedToken, token));
+    if (index < 0) {
+      tokens.push(token);
+      amounts.push(pathAmounts[i]);
+    } else {
+      amounts[index] += pathAmounts[i];
+    }
+  });
+
+  const pools: Record<string, PathPoolModel> = {};
+  for (const [address, pool] of context.pools) {
+    pools[address] = pool;
+  }
+
+  return { paths: pathQuotes, tokens, amounts, pools };
+}
+
+function ensureValidWrapAmount(amountRaw: bigint, minimumWrapAmount: bigint) {
+  if (amountRaw < minimumWrapAmount) {
+    throw new Error('WrapAmountTooSmall');
+  }
+}
+
+function isSameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() == b.toLowerCase();
+}
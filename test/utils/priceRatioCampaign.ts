@@ -0,0 +1,184 @@
+import { BigNumberish } from 'ethers';
+import { ethers } from 'hardhat';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { bn } from '@balancer-labs/v3-helpers/src/numbers';
+import { deployedAt } from '@balancer-labs/v3-helpers/src/contract';
+import { ReClammPool, ReClammPoolExtension } from '../../typechain-types';
+import { computeCenteredness, fourthRootScaled18 } from './reClammMath';
+import { ReClammPoolState } from './reClammPoolState';
+import {
+  computeTargetPriceRatio,
+  planPriceRatioUpdate,
+  PriceRatioUpdatePlan,
+  PriceRatioUpdateTarget,
+  simulatePriceRatioUpdate,
+} from './priceRatioUpdatePlanner';
+
+const DEFAULT_STAGE_INTERVAL = 60n;
+const DEFAULT_MAX_STAGES = 30;
+
+export type PriceRatioCampaignOptions = {
+  // Execution timestamp of the first stage; defaults to the current time.
+  startTimestamp?: BigNumberish;
+  // Duration of each update; defaults to `minPriceRatioUpdateDuration`.
+  stageDuration?: BigNumberish;
+  // Time between the end of a stage and the execution of the next one, in seconds.
+  stageInterval?: BigNumberish;
+  maxStages?: number;
+};
+
+export type PriceRatioCampaignStage = {
+  stage: number;
+  plan: PriceRatioUpdatePlan;
+  // Fourth root the update moves towards, as stored by the pool (`endFourthRootPriceRatio`).
+  plannedFourthRootPriceRatio: bigint;
+  // Fourth root of the price ratio the TS model expects at the end of the stage.
+  simulatedFourthRootPriceRatio: bigint;
+  // Centeredness with respect to the current virtual balances, when the stage starts and ends.
+  centerednessBefore: bigint;
+  centerednessAfter: bigint;
+};
+
+export type PriceRatioCampaign = {
+  startPriceRatio: bigint;
+  targetPriceRatio: bigint;
+  stages: PriceRatioCampaignStage[];
+  // Model of the pool after the last stage.
+  finalState: ReClammPoolState;
+};
+
+export type PriceRatioCampaignStageResult = {
+  stage: number;
+  transactionHash: string;
+  plannedFourthRootPriceRatio: bigint;
+  simulatedFourthRootPriceRatio: bigint;
+  achievedFourthRootPriceRatio: bigint;
+  simulatedCenterednessBefore: bigint;
+  simulatedCenterednessAfter: bigint;
+  achievedCenterednessBefore: bigint;
+  achievedCenterednessAfter: bigint;
+};
+
+/**
+ * Splits a price ratio change that is too fast for a single `startPriceRatioUpdate` into a chain of legal updates of
+ * `stageDuration` each, every one moving the price ratio as far towards the target as `maxDailyPriceRatioUpdateRate`
+ * allows. Each stage starts `stageInterval` after the previous one ended, and is simulated with the TS model,
+ * assuming nobody interacts with the pool during the campaign.
+ */
+export function planPriceRatioCampaign(
+  state: ReClammPoolState,
+  target: PriceRatioUpdateTarget,
+  options: PriceRatioCampaignOptions = {}
+): PriceRatioCampaign {
+  const targetPriceRatio = computeTargetPriceRatio(target);
+  const stageDuration = bn(options.stageDuration ?? state.immutableData.minPriceRatioUpdateDuration);
+  const stageInterval = bn(options.stageInterval ?? DEFAULT_STAGE_INTERVAL);
+  const maxStages = options.maxStages ?? DEFAULT_MAX_STAGES;
+
+  if (stageInterval <= 0n) {
+    throw new Error('Stage interval must be positive');
+  }
+
+  let executionTimestamp = bn(options.startTimestamp ?? Math.floor(Date.now() / 1000));
+  const startPriceRatio = state.computeCurrentPriceRatio(executionTimestamp);
+  const stages: PriceRatioCampaignStage[] = [];
+
+  // The pool would reject an update closer to the target than the minimum delta.
+  let reachedTarget = absDiff(startPriceRatio, targetPriceRatio) < state.immutableData.minPriceRatioDelta;
+
+  while (reachedTarget == false) {
+    if (stages.length == maxStages) {
+      throw new Error(`Price ratio campaign needs more than ${maxStages} stages`);
+    }
+
+    const plan = planPriceRatioUpdate(
+      state,
+      { endPriceRatio: targetPriceRatio },
+      { executionTimestamp, endTime: executionTimestamp + stageDuration }
+    );
+    const updatedState = simulatePriceRatioUpdate(
+      state,
+      executionTimestamp,
+      plan.endPriceRatio,
+      plan.startTime,
+      plan.endTime
+    );
+
+    stages.push({
+      stage: stages.length + 1,
+      plan,
+      plannedFourthRootPriceRatio: fourthRootScaled18(plan.endPriceRatio),
+      simulatedFourthRootPriceRatio: updatedState.computeCurrentFourthRootPriceRatio(plan.endTime),
+      centerednessBefore: computeCurrentCenteredness(state, executionTimestamp),
+      centerednessAfter: computeCurrentCenteredness(updatedState, plan.endTime),
+    });
+
+    // A stage capped by the maximum update rate may still end closer to the target than the minimum delta, and the
+    // pool would reject another update.
+    reachedTarget =
+      absDiff(updatedState.computeCurrentPriceRatio(plan.endTime), targetPriceRatio) <
+      state.immutableData.minPriceRatioDelta;
+    state = updatedState;
+    executionTimestamp = plan.endTime + stageInterval;
+  }
+
+  return { startPriceRatio, targetPriceRatio, stages, finalState: state };
+}
+
+/**
+ * Executes a campaign against a local Hardhat network, sending every stage at its planned execution timestamp and
+ * mining a block at its end time to compare the pool against the model. The signer must be allowed to call
+ * `startPriceRatioUpdate`.
+ */
+export async function executePriceRatioCampaign(
+  pool: ReClammPool,
+  signer: SignerWithAddress,
+  campaign: PriceRatioCampaign
+): Promise<PriceRatioCampaignStageResult[]> {
+  const poolAddress = await pool.getAddress();
+  const extension = (await deployedAt('ReClammPoolExtension', poolAddress)) as unknown as ReClammPoolExtension;
+  const results: PriceRatioCampaignStageResult[] = [];
+
+  for (const stage of campaign.stages) {
+    // Stages start as soon as they are executed.
+    await ethers.provider.send('evm_setNextBlockTimestamp', [Number(stage.plan.startTime)]);
+    const tx = await signer.sendTransaction({ to: poolAddress, data: stage.plan.calldata });
+    await tx.wait();
+
+    const achievedCenterednessBefore = await readCurrentCenteredness(extension);
+
+    await ethers.provider.send('evm_mine', [Number(stage.plan.endTime)]);
+
+    results.push({
+      stage: stage.stage,
+      transactionHash: tx.hash,
+      plannedFourthRootPriceRatio: stage.plannedFourthRootPriceRatio,
+      simulatedFourthRootPriceRatio: stage.simulatedFourthRootPriceRatio,
+      achievedFourthRootPriceRatio: await extension.computeCurrentFourthRootPriceRatio(),
+      simulatedCenterednessBefore: stage.centerednessBefore,
+      simulatedCenterednessAfter: stage.centerednessAfter,
+      achievedCenterednessBefore,
+      achievedCenterednessAfter: await readCurrentCenteredness(extension),
+    });
+  }
+
+  return results;
+}
+
+function computeCurrentCenteredness(state: ReClammPoolState, timestamp: bigint): bigint {
+  const [virtualBalanceA, virtualBalanceB] = state.computeCurrentVirtualBalances(timestamp);
+
+  return computeCenteredness(state.balancesScaled18, [virtualBalanceA, virtualBalanceB]);
+}
+
+// `computeCurrentPoolCenteredness` uses the last virtual balances, so compute it with the current ones instead.
+async function readCurrentCenteredness(extension: ReClammPoolExtension): Promise<bigint> {
+  const { balancesLiveScaled18 } = await extension.getReClammPoolDynamicData();
+  const [virtualBalanceA, virtualBalanceB] = await extension.computeCurrentVirtualBalances();
+
+  return computeCenteredness([...balancesLiveScaled18], [virtualBalanceA, virtualBalanceB]);
+}
+
+function absDiff(a: bigint, b: bigint): bigint {
+  return a > b ? a - b : b - a;
+}
@@ -0,0 +1,249 @@
+import { BigNumberish, Interface } from 'ethers';
+import { bn, FP_ONE, fpDivUp } from '@balancer-labs/v3-helpers/src/numbers';
+import { fourthRootScaled18 } from './reClammMath';
+import { ReClammPoolState } from './reClammPoolState';
+
+const DAY = 86400n;
+const HOUR = 3600n;
+
+const START_PRICE_RATIO_UPDATE_ABI = [
+  'function startPriceRatioUpdate(uint256 endPriceRatio, uint256 priceRatioUpdateStartTime, uint256 priceRatioUpdateEndTime)',
+];
+
+// Either the end price ratio, or the end price range (only its ratio matters; see `planPriceRatioUpdate`).
+export type PriceRatioUpdateTarget =
+  | { endPriceRatio: BigNumberish }
+  | { endMinPrice: BigNumberish; endMaxPrice: BigNumberish };
+
+export type PriceRatioUpdateOptions = {
+  // Expected `block.timestamp` of the `startPriceRatioUpdate` transaction; defaults to the current time.
+  executionTimestamp?: BigNumberish;
+  // Defaults to the execution timestamp. Earlier start times are moved to the execution timestamp, like in the pool.
+  startTime?: BigNumberish;
+  // Defaults to the end of the shortest legal update. If given, the end price ratio is capped to what is reachable in
+  // the given duration without exceeding the maximum daily update rate.
+  endTime?: BigNumberish;
+  // Distance between preview points, in seconds; defaults to an hour.
+  previewStep?: BigNumberish;
+};
+
+export type PriceRatioUpdatePreviewPoint = {
+  timestamp: bigint;
+  priceRatio: bigint;
+  minPrice: bigint;
+  maxPrice: bigint;
+};
+
+export type PriceRatioUpdatePlan = {
+  // Current price ratio of the pool at execution time, where the update starts from.
+  startPriceRatio: bigint;
+  requestedEndPriceRatio: bigint;
+  // Closest price ratio to the requested one that the pool accepts (see `planPriceRatioUpdate`).
+  endPriceRatio: bigint;
+  startTime: bigint;
+  endTime: bigint;
+  // Shortest duration that is long enough, and slow enough for `endPriceRatio`.
+  minDuration: bigint;
+  // Rate of change as computed by the pool, as a multiple of the present value per day.
+  dailyPriceRatioUpdateRate: bigint;
+  calldata: string;
+  preview: PriceRatioUpdatePreviewPoint[];
+};
+
+/**
+ * Plans a `startPriceRatioUpdate` call that passes the pool checks, given the pool state and the desired end price
+ * ratio. The end price ratio is adjusted to be feasible: it moves at least `minPriceRatioDelta` away from the start
+ * price ratio, and, if the end time is given, it is capped by `maxDailyPriceRatioUpdateRate`. Without an end time, the
+ * update takes the shortest legal duration.
+ *
+ * Note that the pool keeps its centeredness during the update, so an end price range only determines the end price
+ * ratio (max / min); the actual end range depends on the balances. The preview shows it, assuming nobody interacts with
+ * the pool until the end of the update.
+ *
+ * Throws with the pool error name if no feasible update exists for the given times.
+ */
+export function planPriceRatioUpdate(
+  state: ReClammPoolState,
+  target: PriceRatioUpdateTarget,
+  options: PriceRatioUpdateOptions = {}
+): PriceRatioUpdatePlan {
+  if (state.dynamicData.isPoolInitialized == false) {
+    throw new Error('PoolNotInitialized');
+  }
+
+  const { minPriceRatioUpdateDuration, maxDailyPriceRatioUpdateRate, minPriceRatioDelta } = state.immutableData;
+
+  const executionTimestamp = bn(options.executionTimestamp ?? Math.floor(Date.now() / 1000));
+  // Mirrors `GradualValueChange.resolveStartTime`.
+  const startTime =
+    options.startTime === undefined || bn(options.startTime) < executionTimestamp
+      ? executionTimestamp
+      : bn(options.startTime);
+
+  const startPriceRatio = state.computeCurrentPriceRatio(executionTimestamp);
+  const requestedEndPriceRatio = computeTargetPriceRatio(target);
+
+  let endPriceRatio = applyMinPriceRatioDelta(startPriceRatio, requestedEndPriceRatio, minPriceRatioDelta);
+  let endTime: bigint;
+
+  if (options.endTime === undefined) {
+    endTime = startTime + computeMinPriceRatioUpdateDuration(state, startPriceRatio, endPriceRatio);
+  } else {
+    endTime = bn(options.endTime);
+
+    if (endTime < startTime) {
+      throw new Error('InvalidStartTime');
+    }
+
+    const duration = endTime - startTime;
+    if (duration < minPriceRatioUpdateDuration) {
+      throw new Error('PriceRatioUpdateDurationTooShort');
+    }
+
+    endPriceRatio = capPriceRatioUpdate(startPriceRatio, endPriceRatio, duration, maxDailyPriceRatioUpdateRate);
+
+    // The cap can only bring the end price ratio closer to the start if the duration is too short for any change.
+    if (absDiff(endPriceRatio, startPriceRatio) < minPriceRatioDelta) {
+      throw new Error('PriceRatioUpdateTooFast');
+    }
+  }
+
+  const updatedState = simulatePriceRatioUpdate(state, executionTimestamp, endPriceRatio, startTime, endTime);
+
+  return {
+    startPriceRatio,
+    requestedEndPriceRatio,
+    endPriceRatio,
+    startTime,
+    endTime,
+    minDuration: computeMinPriceRatioUpdateDuration(state, startPriceRatio, endPriceRatio),
+    dailyPriceRatioUpdateRate: computeDailyPriceRatioUpdateRate(startPriceRatio, endPriceRatio, endTime - startTime),
+    calldata: new Interface(START_PRICE_RATIO_UPDATE_ABI).encodeFunctionData('startPriceRatioUpdate', [
+      endPriceRatio,
+      startTime,
+      endTime,
+    ]),
+    preview: previewPriceRatioUpdate(updatedState, startTime, endTime, bn(options.previewStep ?? HOUR)),
+  };
+}
+
+// Like `computePriceRatio`, the price ratio of a range is max / min, rounding up.
+export function computeTargetPriceRatio(target: PriceRatioUpdateTarget): bigint {
+  return 'endPriceRatio' in target ? bn(target.endPriceRatio) : fpDivUp(bn(target.endMaxPrice), bn(target.endMinPrice));
+}
+
+// Mirrors the rate check of `startPriceRatioUpdate`, which rounds the rate up.
+export function computeDailyPriceRatioUpdateRate(
+  startPriceRatio: bigint,
+  endPriceRatio: bigint,
+  updateDuration: bigint
+): bigint {
+  return endPriceRatio > startPriceRatio
+    ? fpDivUp(endPriceRatio * DAY, startPriceRatio * updateDuration)
+    : fpDivUp(startPriceRatio * DAY, endPriceRatio * updateDuration);
+}
+
+/**
+ * Shortest update duration the pool accepts: at least `minPriceRatioUpdateDuration`, and long enough that the daily
+ * rate does not exceed `maxDailyPriceRatioUpdateRate`.
+ */
+export function computeMinPriceRatioUpdateDuration(
+  state: ReClammPoolState,
+  startPriceRatio: bigint,
+  endPriceRatio: bigint
+): bigint {
+  const { minPriceRatioUpdateDuration, maxDailyPriceRatioUpdateRate } = state.immutableData;
+  const [lowerPriceRatio, higherPriceRatio] =
+    endPriceRatio > startPriceRatio ? [startPriceRatio, endPriceRatio] : [endPriceRatio, startPriceRatio];
+
+  // `ceil(higher * DAY * FP_ONE / (lower * duration)) <= maxRate` iff
+  // `higher * DAY * FP_ONE <= maxRate * lower * duration`.
+  const denominator = maxDailyPriceRatioUpdateRate * lowerPriceRatio;
+  const minRateDuration = (higherPriceRatio * DAY * FP_ONE + denominator - 1n) / denominator;
+
+  return minRateDuration > minPriceRatioUpdateDuration ? minRateDuration : minPriceRatioUpdateDuration;
+}
+
+// The pool rejects updates that change the price ratio by less than `minPriceRatioDelta`.
+function applyMinPriceRatioDelta(startPriceRatio: bigint, endPriceRatio: bigint, minPriceRatioDelta: bigint): bigint {
+  if (absDiff(endPriceRatio, startPriceRatio) >= minPriceRatioDelta) {
+    return endPriceRatio;
+  }
+
+  return endPriceRatio >= startPriceRatio ? startPriceRatio + minPriceRatioDelta : startPriceRatio - minPriceRatioDelta;
+}
+
+// Caps the end price ratio to the furthest one reachable in `duration` (the inverse of the rate check).
+function capPriceRatioUpdate(
+  startPriceRatio: bigint,
+  endPriceRatio: bigint,
+  duration: bigint,
+  maxDailyPriceRatioUpdateRate: bigint
+): bigint {
+  if (endPriceRatio > startPriceRatio) {
+    const maxEndPriceRatio = (maxDailyPriceRatioUpdateRate * startPriceRatio * duration) / (DAY * FP_ONE);
+    return endPriceRatio > maxEndPriceRatio ? maxEndPriceRatio : endPriceRatio;
+  }
+
+  const denominator = maxDailyPriceRatioUpdateRate * duration;
+  const minEndPriceRatio = (startPriceRatio * DAY * FP_ONE + denominator - 1n) / denominator;
+  return endPriceRatio < minEndPriceRatio ? minEndPriceRatio : endPriceRatio;
+}
+
+// State of the pool right after `startPriceRatioUpdate`, which updates the virtual balances before storing the update.
+export function simulatePriceRatioUpdate(
+  state: ReClammPoolState,
+  executionTimestamp: bigint,
+  endPriceRatio: bigint,
+  startTime: bigint,
+  endTime: bigint
+): ReClammPoolState {
+  const [virtualBalanceA, virtualBalanceB] = state.computeCurrentVirtualBalances(executionTimestamp);
+  const startPriceRatio = state.computeCurrentPriceRatio(executionTimestamp);
+
+  return new ReClammPoolState(
+    {
+      ...state.dynamicData,
+      lastTimestamp: executionTimestamp,
+      lastVirtualBalances: [virtualBalanceA, virtualBalanceB],
+      currentPriceRatio: startPriceRatio,
+      currentFourthRootPriceRatio: fourthRootScaled18(startPriceRatio),
+      startFourthRootPriceRatio: fourthRootScaled18(startPriceRatio),
+      endFourthRootPriceRatio: fourthRootScaled18(endPriceRatio),
+      priceRatioUpdateStartTime: startTime,
+      priceRatioUpdateEndTime: endTime,
+    },
+    state.immutableData
+  );
+}
+
+function previewPriceRatioUpdate(
+  state: ReClammPoolState,
+  startTime: bigint,
+  endTime: bigint,
+  step: bigint
+): PriceRatioUpdatePreviewPoint[] {
+  if (step <= 0n) {
+    throw new Error('Preview step must be positive');
+  }
+
+  const preview: PriceRatioUpdatePreviewPoint[] = [];
+
+  for (let timestamp = startTime; ; timestamp += step) {
+    // Always finish the preview at the end time, even if the duration is not a multiple of the step.
+    if (timestamp > endTime) {
+      timestamp = endTime;
+    }
+
+    const [minPrice, maxPrice] = state.computeCurrentPriceRange(timestamp);
+    preview.push({ timestamp, priceRatio: state.computeCurrentPriceRatio(timestamp), minPrice, maxPrice });
+
+    if (timestamp == endTime) {
+      return preview;
+    }
+  }
+}
+
+function absDiff(a: bigint, b: bigint): bigint {
+  return a > b ? a - b : b - a;
+}
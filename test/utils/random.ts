@@ -0,0 +1,43 @@
+// Deterministic pseudo-random generator (SplitMix64), so that generated test cases can be reproduced from a seed.
+
+const MASK_64 = (1n << 64n) - 1n;
+
+export type Random = {
+  // Returns a uniformly distributed bigint in [min, max].
+  nextBigInt(min: bigint, max: bigint): bigint;
+  // Returns a uniformly distributed integer in [min, max].
+  nextInt(min: number, max: number): number;
+  nextBool(): boolean;
+};
+
+export function createRandom(seed: number | bigint): Random {
+  let state = BigInt(seed) & MASK_64;
+
+  const next64 = (): bigint => {
+    state = (state + 0x9e3779b97f4a7c15n) & MASK_64;
+    let z = state;
+    z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK_64;
+    z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK_64;
+    return z ^ (z >> 31n);
+  };
+
+  const nextBigInt = (min: bigint, max: bigint): bigint => {
+    if (max < min) {
+      throw new Error(`Invalid range [${min}, ${max}]`);
+    }
+
+    // 320 random bits make the modulo bias negligible for any uint256 range.
+    let value = 0n;
+    for (let i = 0; i < 5; i++) {
+      value = (value << 64n) | next64();
+    }
+
+    return min + (value % (max - min + 1n));
+  };
+
+  return {
+    nextBigInt,
+    nextInt: (min: number, max: number): number => Number(nextBigInt(BigInt(min), BigInt(max))),
+    nextBool: (): boolean => (next64() & 1n) == 1n,
+  };
+}
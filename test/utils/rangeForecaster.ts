@@ -0,0 +1,92 @@
+import { BigNumberish } from 'ethers';
+import { bn } from '@balancer-labs/v3-helpers/src/numbers';
+import { computeCenteredness, isAboveCenter, isPoolWithinTargetRange } from './reClammMath';
+import { ReClammPoolState } from './reClammPoolState';
+
+export type RangeForecastOptions = {
+  // First point of the series; defaults to the current time.
+  startTimestamp?: BigNumberish;
+  // Length of the forecast, in seconds. The last point is at `startTimestamp + horizon`.
+  horizon: BigNumberish;
+  // Distance between points, in seconds.
+  step: BigNumberish;
+};
+
+export type RangeForecastPoint = {
+  timestamp: bigint;
+  minPrice: bigint;
+  maxPrice: bigint;
+  spotPrice: bigint;
+  // Centeredness of the balances with respect to the virtual balances of this point (not the last stored ones, like
+  // `computeCurrentPoolCenteredness`), so that the series shows the pool recentering.
+  centeredness: bigint;
+  isPoolAboveCenter: boolean;
+  isWithinTargetRange: boolean;
+  virtualBalances: bigint[];
+};
+
+/**
+ * Forecasts how the price range of an idle pool drifts over time. Since nobody interacts with the pool, the real
+ * balances, last virtual balances and last timestamp stay as in the snapshot, so every point is exactly what the pool
+ * views would return at that timestamp: the range only moves because of an ongoing price ratio update, or because the
+ * pool is outside its target range and shifts its virtual balances towards the market price.
+ */
+export function forecastRangeDrift(state: ReClammPoolState, options: RangeForecastOptions): RangeForecastPoint[] {
+  const timestamps = computeForecastTimestamps(options);
+
+  if (state.dynamicData.isPoolInitialized == false) {
+    throw new Error('PoolNotInitialized');
+  }
+
+  return timestamps.map((timestamp) => forecastRangePoint(state, timestamp));
+}
+
+// Timestamps of the points of a forecast, from `startTimestamp` to `startTimestamp + horizon`, every `step` seconds.
+export function computeForecastTimestamps(options: RangeForecastOptions): bigint[] {
+  const startTimestamp = bn(options.startTimestamp ?? Math.floor(Date.now() / 1000));
+  const horizon = bn(options.horizon);
+  const step = bn(options.step);
+
+  if (step <= 0n) {
+    throw new Error('Forecast step must be positive');
+  }
+
+  if (horizon < 0n) {
+    throw new Error('Forecast horizon must not be negative');
+  }
+
+  const timestamps: bigint[] = [];
+  const endTimestamp = startTimestamp + horizon;
+
+  for (let timestamp = startTimestamp; timestamp <= endTimestamp; timestamp += step) {
+    timestamps.push(timestamp);
+
+    // Always finish the series at the horizon, even if it is not a multiple of the step.
+    if (timestamp < endTimestamp && timestamp + step > endTimestamp) {
+      timestamps.push(endTimestamp);
+    }
+  }
+
+  return timestamps;
+}
+
+export function forecastRangePoint(state: ReClammPoolState, timestamp: bigint): RangeForecastPoint {
+  const [virtualBalanceA, virtualBalanceB] = state.computeCurrentVirtualBalances(timestamp);
+  const virtualBalances = [virtualBalanceA, virtualBalanceB];
+  const [minPrice, maxPrice] = state.computeCurrentPriceRange(timestamp);
+
+  return {
+    timestamp,
+    minPrice,
+    maxPrice,
+    spotPrice: state.computeCurrentSpotPrice(timestamp),
+    centeredness: computeCenteredness(state.balancesScaled18, virtualBalances),
+    isPoolAboveCenter: isAboveCenter(state.balancesScaled18, virtualBalances),
+    isWithinTargetRange: isPoolWithinTargetRange(
+      state.balancesScaled18,
+      virtualBalances,
+      state.dynamicData.centerednessMargin
+    ),
+    virtualBalances,
+  };
+}
@@ -0,0 +1,97 @@
+import { FP_ONE } from '@balancer-labs/v3-helpers/src/numbers';
+import {
+  computeForecastTimestamps,
+  forecastRangePoint,
+  RangeForecastOptions,
+  RangeForecastPoint,
+} from './rangeForecaster';
+import { ReClammPoolState } from './reClammPoolState';
+import { toRawUndoRateRoundDown, toScaled18ApplyRateRoundDown } from './scalingHelpers';
+
+const SECONDS_PER_YEAR = 365n * 24n * 3600n;
+
+// Rate of a token (as an 18-decimal FP number), `elapsed` seconds after the start of the simulation.
+export type RateCurve = (elapsed: bigint) => bigint;
+
+export type RateDriftOptions = RangeForecastOptions & {
+  // Rates of the pool tokens, in token registration order. Tokens without a curve keep the rate of the snapshot.
+  rateCurves: (RateCurve | undefined)[];
+  // Raw pool balances, as returned by `IVault.getPoolTokenInfo`. They are derived from the live balances if not
+  // given, which can be off by rounding for tokens with rates.
+  balancesRaw?: bigint[];
+};
+
+export type RateDriftPoint = RangeForecastPoint & {
+  tokenRates: bigint[];
+  balancesLiveScaled18: bigint[];
+  // The prices of the range forecast are in underlying terms, since live balances include the rates. These are the
+  // same prices in the terms of the initial price params, i.e., the inverse of `getPriceSettingsAdjustedByRates`.
+  minPriceAsConfigured: bigint;
+  maxPriceAsConfigured: bigint;
+  spotPriceAsConfigured: bigint;
+  // Pool state with the rates and live balances of this point (e.g., to quote swaps).
+  state: ReClammPoolState;
+};
+
+// Rate that grows by a fixed fraction of `initialRate` per year, without compounding (e.g., fp(0.05) for 5% APR).
+export function linearRateCurve(initialRate: bigint, annualGrowth: bigint): RateCurve {
+  return (elapsed: bigint) => initialRate + (initialRate * annualGrowth * elapsed) / (FP_ONE * SECONDS_PER_YEAR);
+}
+
+/**
+ * Simulates how the rates of yield-bearing tokens move an idle pool. Raw balances stay constant, but the live balances
+ * (and therefore the centeredness and spot price) follow the rates, which can take the pool out of its target range
+ * without any trades; from then on, the virtual balances shift as in `forecastRangeDrift`.
+ *
+ * Note that the pool views use the live balances of the last interaction, so they only catch up with the rates on the
+ * next operation: every point shows the pool as the next swap would see it. Yield fees are not modeled (i.e., tokens
+ * are assumed not to pay them).
+ */
+export function simulateRateDrift(state: ReClammPoolState, options: RateDriftOptions): RateDriftPoint[] {
+  const timestamps = computeForecastTimestamps(options);
+
+  if (state.dynamicData.isPoolInitialized == false) {
+    throw new Error('PoolNotInitialized');
+  }
+
+  const { decimalScalingFactors } = state.immutableData;
+  const { balancesLiveScaled18, tokenRates } = state.dynamicData;
+  const balancesRaw =
+    options.balancesRaw ??
+    balancesLiveScaled18.map((balance, i) => toRawUndoRateRoundDown(balance, decimalScalingFactors[i], tokenRates[i]));
+  const startTimestamp = timestamps[0];
+
+  return timestamps.map((timestamp) => {
+    const elapsed = timestamp - startTimestamp;
+    const pointTokenRates = tokenRates.map((rate, i) => options.rateCurves[i]?.(elapsed) ?? rate);
+
+    // The Vault scales the live balances rounding down.
+    const pointBalancesLiveScaled18 = balancesRaw.map((balance, i) =>
+      toScaled18ApplyRateRoundDown(balance, decimalScalingFactors[i], pointTokenRates[i])
+    );
+    const pointState = new ReClammPoolState(
+      { ...state.dynamicData, balancesLiveScaled18: pointBalancesLiveScaled18, tokenRates: pointTokenRates },
+      state.immutableData
+    );
+
+    const point = forecastRangePoint(pointState, timestamp);
+
+    return {
+      ...point,
+      tokenRates: pointTokenRates,
+      balancesLiveScaled18: pointBalancesLiveScaled18,
+      minPriceAsConfigured: toPriceAsConfigured(pointState, point.minPrice),
+      maxPriceAsConfigured: toPriceAsConfigured(pointState, point.maxPrice),
+      spotPriceAsConfigured: toPriceAsConfigured(pointState, point.spotPrice),
+      state: pointState,
+    };
+  });
+}
+
+// The pool multiplies the initial prices by rate B and divides them by rate A, skipping the rates already included.
+function toPriceAsConfigured(state: ReClammPoolState, price: bigint): bigint {
+  const { tokenAPriceIncludesRate, tokenBPriceIncludesRate } = state.immutableData;
+  const [rateA, rateB] = state.dynamicData.tokenRates;
+
+  return (price * (tokenAPriceIncludesRate ? FP_ONE : rateA)) / (tokenBPriceIncludesRate ? FP_ONE : rateB);
+}
@@ -1,16 +1,10 @@
 import { BigNumberish } from 'ethers';
-import {
-  bn,
-  fp,
-  FP_ONE,
-  fpDivDown,
-  fpDivUp,
-  fpMulDown,
-  fpMulUp,
-  fromFp,
-  toFp,
-} from '@balancer-labs/v3-helpers/src/numbers';
+import { bn, fp, FP_ONE, fpDivDown, fpDivUp, fpMulDown, fpMulUp } from '@balancer-labs/v3-helpers/src/numbers';
+import { pow } from './logExpMath';
 
+// Functions with an optional `rounding` argument round their results in that direction. ROUND_DOWN (the default) is the
+// rounding used by the contract, which rounds every operation down. ROUND_UP returns upper bounds of the exact results:
+// every intermediate value is rounded in the direction that increases the result (e.g., denominators down).
 export enum Rounding {
   ROUND_UP,
   ROUND_DOWN,
@@ -30,19 +24,22 @@ export type PriceRatioState = {
 };
 
 const _INITIALIZATION_MAX_BALANCE_A = fp(1000000);
+const _MAX_PRICE_SHIFT_DURATION = 30n * 86400n;
+const _MAX_POW_RELATIVE_ERROR = 10000n;
 
 export function computeCurrentVirtualBalances(
   balancesScaled18: bigint[],
   lastVirtualBalances: bigint[],
   dailyPriceShiftBase: bigint,
-  lastTimestamp: bigint,
-  currentTimestamp: bigint,
+  lastTimestamp: BigNumberish,
+  currentTimestamp: BigNumberish,
   centerednessMargin: bigint,
-  priceRatioState: PriceRatioState
+  priceRatioState: PriceRatioState,
+  rounding = Rounding.ROUND_DOWN
 ): [bigint[], boolean] {
   let virtualBalances = [...lastVirtualBalances];
 
-  if (lastTimestamp == currentTimestamp) {
+  if (bn(lastTimestamp) == bn(currentTimestamp)) {
     return [virtualBalances, false];
   }
 
@@ -56,42 +53,31 @@ export function computeCurrentVirtualBalances(
     priceRatioState.priceRatioUpdateEndTime
   );
 
-  const isPoolAboveCenter = isAboveCenter(balancesScaled18, lastVirtualBalances);
-
   if (
-    priceRatioState.priceRatioUpdateStartTime != 0 &&
-    currentTimestamp > priceRatioState.priceRatioUpdateStartTime &&
-    (currentTimestamp < priceRatioState.priceRatioUpdateEndTime ||
-      lastTimestamp < priceRatioState.priceRatioUpdateEndTime)
+    bn(currentTimestamp) > bn(priceRatioState.priceRatioUpdateStartTime) &&
+    bn(lastTimestamp) < bn(priceRatioState.priceRatioUpdateEndTime)
   ) {
-    virtualBalances = calculateVirtualBalancesUpdatingPriceRatio(
+    virtualBalances = computeVirtualBalancesUpdatingPriceRatio(
       currentFourthRootPriceRatio,
       balancesScaled18,
       lastVirtualBalances,
-      isPoolAboveCenter
+      rounding
     );
     changed = true;
   }
 
-  if (isPoolWithinTargetRange(balancesScaled18, virtualBalances, centerednessMargin) == false) {
-    const sqrtPriceRatio = bn(Math.sqrt(Number(computeCurrentPriceRatio(balancesScaled18, virtualBalances) * FP_ONE)));
-
-    const exponent = fp(currentTimestamp - lastTimestamp);
-    const powResult = powDown(dailyPriceShiftBase, exponent);
+  const centeredness = computeCenteredness(balancesScaled18, virtualBalances);
 
-    if (isPoolAboveCenter) {
-      virtualBalances[1] = fpMulDown(virtualBalances[1], powResult);
-      virtualBalances[0] = fpDivDown(
-        fpMulDown(balancesScaled18[0], virtualBalances[1] + balancesScaled18[1]),
-        fpMulDown(sqrtPriceRatio - FP_ONE, virtualBalances[1]) - balancesScaled18[1]
-      );
-    } else {
-      virtualBalances[0] = fpMulDown(virtualBalances[0], powResult);
-      virtualBalances[1] = fpDivDown(
-        fpMulDown(balancesScaled18[1], virtualBalances[0] + balancesScaled18[0]),
-        fpMulDown(sqrtPriceRatio - FP_ONE, virtualBalances[0]) - balancesScaled18[0]
-      );
-    }
+  if (centeredness < centerednessMargin) {
+    virtualBalances = computeVirtualBalancesUpdatingPriceRange(
+      balancesScaled18,
+      virtualBalances,
+      isAboveCenter(balancesScaled18, virtualBalances),
+      dailyPriceShiftBase,
+      currentTimestamp,
+      lastTimestamp,
+      rounding
+    );
 
     changed = true;
   }
@@ -99,67 +85,113 @@ export function computeCurrentVirtualBalances(
   return [virtualBalances, changed];
 }
 
-function computeCurrentPriceRatio(balancesScaled18: bigint[], virtualBalances: bigint[]): bigint {
-  const [minPrice, maxPrice] = computeCurrentPriceRange(balancesScaled18, virtualBalances);
-  return fpDivUp(maxPrice, minPrice);
-}
+export function computeVirtualBalancesUpdatingPriceRatio(
+  currentFourthRootPriceRatio: bigint,
+  balancesScaled18: bigint[],
+  lastVirtualBalances: bigint[],
+  rounding = Rounding.ROUND_DOWN
+): bigint[] {
+  const virtualBalances = [...lastVirtualBalances];
+  const _sqrtUpOrDown = rounding == Rounding.ROUND_DOWN ? sqrt : sqrtUp;
 
-function computeCurrentPriceRange(balancesScaled18: bigint[], virtualBalances: bigint[]): [bigint, bigint] {
-  const invariant = pureComputeInvariant(balancesScaled18, virtualBalances, Rounding.ROUND_DOWN);
+  // The pool centeredness remains constant while the price ratio is updating.
+  const centeredness = computeCenteredness(balancesScaled18, lastVirtualBalances, rounding);
+  const isPoolAboveCenter = isAboveCenter(balancesScaled18, lastVirtualBalances);
 
-  const minPrice = (virtualBalances[1] * virtualBalances[1]) / invariant;
-  const maxPrice = fpDivDown(invariant, fpMulDown(virtualBalances[0], virtualBalances[0]));
+  const [indexUndervalued, indexOvervalued] = isPoolAboveCenter ? [0, 1] : [1, 0];
 
-  return [minPrice, maxPrice];
+  // Q0 appears in both terms of the Vu fraction, so it is always rounded down, as in the contract.
+  const sqrtPriceRatio = fpMulDown(currentFourthRootPriceRatio, currentFourthRootPriceRatio);
+
+  // Vu = Ru * (1 + C + sqrt(1 + C * (C + 4 * Q0 - 2))) / (2 * (Q0 - 1))
+  virtualBalances[indexUndervalued] = mulDiv(
+    balancesScaled18[indexUndervalued],
+    FP_ONE +
+      centeredness +
+      _sqrtUpOrDown(centeredness * (centeredness + 4n * sqrtPriceRatio - 2n * FP_ONE) + FP_ONE * FP_ONE),
+    2n * (sqrtPriceRatio - FP_ONE),
+    rounding
+  );
+
+  virtualBalances[indexOvervalued] = mulDiv(
+    virtualBalances[indexUndervalued],
+    lastVirtualBalances[indexOvervalued],
+    lastVirtualBalances[indexUndervalued],
+    rounding
+  );
+
+  return virtualBalances;
 }
 
-export function calculateVirtualBalancesUpdatingPriceRatio(
-  currentFourthRootPriceRatio: bigint,
+export function computeVirtualBalancesUpdatingPriceRange(
   balancesScaled18: bigint[],
-  lastVirtualBalances: bigint[],
-  isPoolAboveCenter: boolean
+  virtualBalances: bigint[],
+  isPoolAboveCenter: boolean,
+  dailyPriceShiftBase: bigint,
+  currentTimestamp: BigNumberish,
+  lastTimestamp: BigNumberish,
+  rounding = Rounding.ROUND_DOWN
 ): bigint[] {
-  let virtualBalances = [...lastVirtualBalances];
+  const newVirtualBalances = [...virtualBalances];
 
-  const centeredness = computeCenteredness(balancesScaled18, lastVirtualBalances);
+  const [indexUndervalued, indexOvervalued] = isPoolAboveCenter ? [0, 1] : [1, 0];
+  const balanceOvervalued = balancesScaled18[indexOvervalued];
 
-  if (isPoolAboveCenter) {
-    const a = fpMulDown(currentFourthRootPriceRatio, currentFourthRootPriceRatio) - fp(1);
-    const b = fpMulDown(balancesScaled18[0], fp(1) + centeredness);
-    const c = fpMulDown(fpMulDown(balancesScaled18[0], balancesScaled18[0]), centeredness);
+  // Cap the duration (time between operations) at 30 days, to ensure `powDown` does not overflow.
+  const duration = bn(currentTimestamp) - bn(lastTimestamp);
+  const cappedDuration = duration < _MAX_PRICE_SHIFT_DURATION ? duration : _MAX_PRICE_SHIFT_DURATION;
 
-    virtualBalances[0] = fpDivDown(
-      b + BigInt(Math.sqrt(Number(fp(1) * (fpMulDown(b, b) + fpMulDown(fp(4), fpMulDown(a, c)))))),
-      fpMulDown(fp(2), a)
-    );
-    virtualBalances[1] = fpDivDown(
-      fpDivDown(fpMulDown(balancesScaled18[1], virtualBalances[0]), balancesScaled18[0]),
-      centeredness
+  // Vo = Vo * (Psb)^(Tc - Tl), but not below the minimum allowed value (corresponding to centeredness == 1), which is
+  // Ro / (sqrt(Qo) - 1).
+  let virtualBalanceOvervalued: bigint;
+  // Vu decreases as Vo and Qo grow, so its upper bound is computed from lower bounds of both.
+  let virtualBalanceOvervaluedDown: bigint;
+  let sqrtPriceRatioDown: bigint;
+
+  if (rounding == Rounding.ROUND_DOWN) {
+    sqrtPriceRatioDown = sqrtScaled18(computePriceRatio(balancesScaled18, virtualBalances[0], virtualBalances[1]));
+
+    virtualBalanceOvervalued = max(
+      fpMulDown(virtualBalances[indexOvervalued], powDown(dailyPriceShiftBase, cappedDuration * FP_ONE)),
+      fpDivDown(balanceOvervalued, sqrtScaled18(sqrtPriceRatioDown) - FP_ONE)
     );
+    virtualBalanceOvervaluedDown = virtualBalanceOvervalued;
   } else {
-    const a = fpMulDown(currentFourthRootPriceRatio, currentFourthRootPriceRatio) - fp(1);
-    const b = fpMulDown(balancesScaled18[1], fp(1) + centeredness);
-    const c = fpMulDown(fpMulDown(balancesScaled18[1], balancesScaled18[1]), centeredness);
-
-    virtualBalances[1] = fpDivDown(
-      b + BigInt(Math.sqrt(Number(fp(1) * (fpMulDown(b, b) + fpMulDown(fp(4), fpMulDown(a, c)))))),
-      fpMulDown(fp(2), a)
+    // Qo = (Ra + Va) * (Rb + Vb) / (Va * Vb)
+    const totalBalancesProduct =
+      (balancesScaled18[0] + virtualBalances[0]) * (balancesScaled18[1] + virtualBalances[1]);
+    const virtualBalancesProduct = virtualBalances[0] * virtualBalances[1];
+    sqrtPriceRatioDown = (totalBalancesProduct * FP_ONE) / virtualBalancesProduct;
+    const sqrtPriceRatioUp = mulDivUp(totalBalancesProduct, FP_ONE, virtualBalancesProduct);
+
+    virtualBalanceOvervalued = max(
+      fpMulUp(virtualBalances[indexOvervalued], powUp(dailyPriceShiftBase, cappedDuration * FP_ONE)),
+      fpDivUp(balanceOvervalued, sqrtScaled18(sqrtPriceRatioDown) - FP_ONE)
     );
-    virtualBalances[0] = fpDivDown(
-      fpDivDown(fpMulDown(balancesScaled18[0], virtualBalances[1]), balancesScaled18[1]),
-      centeredness
+    virtualBalanceOvervaluedDown = max(
+      fpMulDown(virtualBalances[indexOvervalued], powDown(dailyPriceShiftBase, cappedDuration * FP_ONE)),
+      fpDivDown(balanceOvervalued, sqrtUp(sqrtPriceRatioUp * FP_ONE) - FP_ONE)
     );
   }
 
-  return virtualBalances;
+  // Vu = Ru * (Vo + Ro) / ((Qo - 1) * Vo - Ro)
+  newVirtualBalances[indexOvervalued] = virtualBalanceOvervalued;
+  newVirtualBalances[indexUndervalued] = mulDiv(
+    balancesScaled18[indexUndervalued],
+    virtualBalanceOvervaluedDown + balanceOvervalued,
+    fpMulDown(sqrtPriceRatioDown - FP_ONE, virtualBalanceOvervaluedDown) - balanceOvervalued,
+    rounding
+  );
+
+  return newVirtualBalances;
 }
 
 export function computeInvariant(
   balancesScaled18: bigint[],
   lastVirtualBalances: bigint[],
   dailyPriceShiftBase: bigint,
-  lastTimestamp: number,
-  currentTimestamp: number,
+  lastTimestamp: BigNumberish,
+  currentTimestamp: BigNumberish,
   centerednessMargin: bigint,
   priceRatioState: PriceRatioState,
   rounding: Rounding
@@ -187,38 +219,50 @@ export function pureComputeInvariant(
   return _mulUpOrDown(balancesScaled18[0] + virtualBalances[0], balancesScaled18[1] + virtualBalances[1]);
 }
 
-export function calculateOutGivenIn(
+export function computeOutGivenIn(
   balancesScaled18: bigint[],
   virtualBalances: bigint[],
   tokenInIndex: number,
   tokenOutIndex: number,
-  amountGivenScaled18: bigint
+  amountGivenScaled18: bigint,
+  rounding = Rounding.ROUND_DOWN
 ): bigint {
-  const finalBalances = [0n, 0n];
-
-  finalBalances[0] = balancesScaled18[0] + virtualBalances[0];
-  finalBalances[1] = balancesScaled18[1] + virtualBalances[1];
+  // Ao = (Bo + Vo) * Ai / (Bi + Vi + Ai)
+  const amountOutScaled18 = mulDiv(
+    balancesScaled18[tokenOutIndex] + virtualBalances[tokenOutIndex],
+    amountGivenScaled18,
+    balancesScaled18[tokenInIndex] + virtualBalances[tokenInIndex] + amountGivenScaled18,
+    rounding
+  );
 
-  const invariant = fpMulUp(finalBalances[0], finalBalances[1]);
+  if (amountOutScaled18 > balancesScaled18[tokenOutIndex]) {
+    // Amount out cannot be greater than the real balance of the token in the pool.
+    throw new Error('AmountOutGreaterThanBalance');
+  }
 
-  return finalBalances[tokenOutIndex] - fpDivUp(invariant, finalBalances[tokenInIndex] + amountGivenScaled18);
+  return amountOutScaled18;
 }
 
-export function calculateInGivenOut(
+export function computeInGivenOut(
   balancesScaled18: bigint[],
   virtualBalances: bigint[],
   tokenInIndex: number,
   tokenOutIndex: number,
-  amountGivenScaled18: bigint
+  amountGivenScaled18: bigint,
+  rounding = Rounding.ROUND_UP
 ): bigint {
-  const finalBalances = [0n, 0n];
-
-  finalBalances[0] = balancesScaled18[0] + virtualBalances[0];
-  finalBalances[1] = balancesScaled18[1] + virtualBalances[1];
-
-  const invariant = fpMulUp(finalBalances[0], finalBalances[1]);
+  if (amountGivenScaled18 > balancesScaled18[tokenOutIndex]) {
+    // Amount out cannot be greater than the real balance of the token in the pool.
+    throw new Error('AmountOutGreaterThanBalance');
+  }
 
-  return fpDivUp(invariant, finalBalances[tokenOutIndex] - amountGivenScaled18) - finalBalances[tokenInIndex];
+  // Ai = (Bi + Vi) * Ao / (Bo + Vo - Ao), rounding up to favor the Vault.
+  return mulDiv(
+    balancesScaled18[tokenInIndex] + virtualBalances[tokenInIndex],
+    amountGivenScaled18,
+    balancesScaled18[tokenOutIndex] + virtualBalances[tokenOutIndex] - amountGivenScaled18,
+    rounding
+  );
 }
 
 export function computeTheoreticalPriceRatioAndBalances(
@@ -227,7 +271,7 @@ export function computeTheoreticalPriceRatioAndBalances(
   targetPrice: bigint
 ): BalancesAndPriceRatio {
   const priceRatio: bigint = fpDivDown(maxPrice, minPrice);
-  const sqrtPriceRatio: bigint = bn(Math.sqrt(Number(priceRatio * FP_ONE)));
+  const sqrtPriceRatio: bigint = sqrtScaled18(priceRatio);
 
   const virtualBalances: bigint[] = [];
   virtualBalances[0] = fpDivDown(_INITIALIZATION_MAX_BALANCE_A, sqrtPriceRatio - FP_ONE);
@@ -235,12 +279,8 @@ export function computeTheoreticalPriceRatioAndBalances(
 
   const realBalances: bigint[] = [];
   realBalances[1] =
-    bn(
-      Math.sqrt(
-        Number(
-          fpMulUp(fpMulUp(targetPrice, virtualBalances[1]), _INITIALIZATION_MAX_BALANCE_A + virtualBalances[0]) * FP_ONE
-        )
-      )
+    sqrtScaled18(
+      fpMulUp(fpMulUp(targetPrice, virtualBalances[1]), _INITIALIZATION_MAX_BALANCE_A + virtualBalances[0])
     ) - virtualBalances[1];
   realBalances[0] = fpDivDown(
     realBalances[1] + virtualBalances[1] - fpMulDown(virtualBalances[0], targetPrice),
@@ -259,38 +299,40 @@ export function isPoolWithinTargetRange(
   return centeredness >= centerednessMargin;
 }
 
-export function computeCenteredness(balancesScaled18: bigint[], virtualBalances: bigint[]): bigint {
+export function computeCenteredness(
+  balancesScaled18: bigint[],
+  virtualBalances: bigint[],
+  rounding = Rounding.ROUND_DOWN
+): bigint {
   if (balancesScaled18[0] == 0n || balancesScaled18[1] == 0n) {
     return 0n;
   }
 
-  const isPoolAboveCenter = isAboveCenter(balancesScaled18, virtualBalances);
+  const numerator = balancesScaled18[0] * virtualBalances[1];
+  const denominator = virtualBalances[0] * balancesScaled18[1];
 
-  const [indexTokenUndervalued, indexTokenOvervalued] = isPoolAboveCenter ? [0, 1] : [1, 0];
-
-  return fpDivDown(
-    (balancesScaled18[indexTokenOvervalued] * virtualBalances[indexTokenUndervalued]) /
-      balancesScaled18[indexTokenUndervalued],
-    virtualBalances[indexTokenOvervalued]
-  );
+  // The centeredness is defined between 0 and 1, so compute the inverse ratio if the numerator is greater.
+  const _divUpOrDown = rounding == Rounding.ROUND_DOWN ? fpDivDown : fpDivUp;
+  return numerator <= denominator ? _divUpOrDown(numerator, denominator) : _divUpOrDown(denominator, numerator);
 }
 
 export function computeFourthRootPriceRatio(
-  currentTime: number,
+  currentTime: BigNumberish,
   startFourthRootPriceRatio: bigint,
   endFourthRootPriceRatio: bigint,
-  priceRatioUpdateStartTime: number,
-  priceRatioUpdateEndTime: number
+  priceRatioUpdateStartTime: BigNumberish,
+  priceRatioUpdateEndTime: BigNumberish
 ): bigint {
-  if (currentTime <= priceRatioUpdateStartTime) {
-    return bn(startFourthRootPriceRatio);
-  } else if (currentTime >= priceRatioUpdateEndTime) {
+  // If start and end time are the same, return the end value.
+  if (bn(currentTime) >= bn(priceRatioUpdateEndTime)) {
     return bn(endFourthRootPriceRatio);
+  } else if (bn(currentTime) <= bn(priceRatioUpdateStartTime)) {
+    return bn(startFourthRootPriceRatio);
   }
 
   const exponent = fpDivDown(
-    currentTime - priceRatioUpdateStartTime,
-    priceRatioUpdateEndTime - priceRatioUpdateStartTime
+    bn(currentTime) - bn(priceRatioUpdateStartTime),
+    bn(priceRatioUpdateEndTime) - bn(priceRatioUpdateStartTime)
   );
 
   const currentFourthRootPriceRatio = fpMulDown(
@@ -306,10 +348,12 @@ export function computeFourthRootPriceRatio(
 }
 
 export function isAboveCenter(balancesScaled18: bigint[], virtualBalances: bigint[]): boolean {
-  if (balancesScaled18[1] == 0n) {
+  if (balancesScaled18[0] == 0n) {
+    return false;
+  } else if (balancesScaled18[1] == 0n) {
     return true;
   } else {
-    return fpDivDown(balancesScaled18[0], balancesScaled18[1]) > fpDivDown(virtualBalances[0], virtualBalances[1]);
+    return balancesScaled18[0] * virtualBalances[1] > virtualBalances[0] * balancesScaled18[1];
   }
 }
 
@@ -317,23 +361,36 @@ export function toDailyPriceShiftBase(dailyPriceShiftExponent: bigint): bigint {
   return fp(1) - bn(dailyPriceShiftExponent) / bn(124649);
 }
 
+export function toDailyPriceShiftExponent(dailyPriceShiftBase: bigint): bigint {
+  return (fp(1) - bn(dailyPriceShiftBase)) * bn(124649);
+}
+
 export function pow4(value: bigint): bigint {
   return powDown(value, fp(4));
 }
 
-export function fourthRoot(value: bigint): bigint {
-  return bn(Math.sqrt(Number(BigInt(Math.sqrt(Number(value * FP_ONE))) * FP_ONE)));
+export function sqrtScaled18(valueScaled18: bigint): bigint {
+  return sqrt(valueScaled18 * FP_ONE);
+}
+
+export function fourthRootScaled18(valueScaled18: bigint): bigint {
+  return sqrt(sqrt(valueScaled18 * FP_ONE) * FP_ONE);
 }
 
 export function computePriceRange(
   balancesScaled18: bigint[],
   virtualBalanceA: bigint,
-  virtualBalanceB: bigint
+  virtualBalanceB: bigint,
+  rounding = Rounding.ROUND_DOWN
 ): [bigint, bigint] {
-  const invariant = pureComputeInvariant(balancesScaled18, [virtualBalanceA, virtualBalanceB], Rounding.ROUND_DOWN);
+  const _divUpOrDown = rounding == Rounding.ROUND_DOWN ? fpDivDown : fpDivUp;
+
+  // The invariant is the denominator of the min price, and the numerator of the max price.
+  const invariantDown = pureComputeInvariant(balancesScaled18, [virtualBalanceA, virtualBalanceB], Rounding.ROUND_DOWN);
+  const invariant = pureComputeInvariant(balancesScaled18, [virtualBalanceA, virtualBalanceB], rounding);
 
-  const minPrice = (virtualBalanceB * virtualBalanceB) / invariant;
-  const maxPrice = fpDivDown(invariant, fpMulDown(virtualBalanceA, virtualBalanceA));
+  const minPrice = mulDiv(virtualBalanceB, virtualBalanceB, invariantDown, rounding);
+  const maxPrice = _divUpOrDown(invariant, fpMulDown(virtualBalanceA, virtualBalanceA));
 
   return [minPrice, maxPrice];
 }
@@ -348,7 +405,6 @@ export function computePriceRatio(
 }
 
 function powDown(x: bigint, y: bigint): bigint {
-  const MAX_POW_RELATIVE_ERROR = 10000n;
   // Optimize for when y equals 1.0, 2.0 or 4.0, as those are very simple to implement.
   if (y == fp(1)) {
     return x;
@@ -358,8 +414,8 @@ function powDown(x: bigint, y: bigint): bigint {
     const square = fpMulDown(x, x);
     return fpMulDown(square, square);
   } else {
-    const raw = fp(fromFp(x).pow(fromFp(y)));
-    const maxError = fpMulUp(raw, MAX_POW_RELATIVE_ERROR) + 1n;
+    const raw = pow(x, y);
+    const maxError = fpMulUp(raw, _MAX_POW_RELATIVE_ERROR) + 1n;
 
     if (raw < maxError) {
       return fp(0);
@@ -368,3 +424,54 @@ function powDown(x: bigint, y: bigint): bigint {
     }
   }
 }
+
+function powUp(x: bigint, y: bigint): bigint {
+  // Optimize for when y equals 1.0, 2.0 or 4.0, as those are very simple to implement.
+  if (y == fp(1)) {
+    return x;
+  } else if (y == fp(2)) {
+    return fpMulUp(x, x);
+  } else if (y == fp(4)) {
+    const square = fpMulUp(x, x);
+    return fpMulUp(square, square);
+  } else {
+    const raw = pow(x, y);
+    const maxError = fpMulUp(raw, _MAX_POW_RELATIVE_ERROR) + 1n;
+
+    return raw + maxError;
+  }
+}
+
+export function mulDivUp(a: bigint, b: bigint, c: bigint): bigint {
+  const product = a * b;
+  return product == 0n ? 0n : (product - 1n) / c + 1n;
+}
+
+function mulDiv(a: bigint, b: bigint, c: bigint, rounding: Rounding): bigint {
+  return rounding == Rounding.ROUND_DOWN ? (a * b) / c : mulDivUp(a, b, c);
+}
+
+// Integer square root, rounding down (same result as OpenZeppelin's `Math.sqrt`).
+function sqrt(value: bigint): bigint {
+  if (value < 2n) {
+    return value;
+  }
+
+  let x0 = value;
+  let x1 = (value >> 1n) + 1n;
+  while (x1 < x0) {
+    x0 = x1;
+    x1 = (x1 + value / x1) >> 1n;
+  }
+
+  return x0;
+}
+
+function sqrtUp(value: bigint): bigint {
+  const root = sqrt(value);
+  return root * root < value ? root + 1n : root;
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
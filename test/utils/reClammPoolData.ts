@@ -0,0 +1,67 @@
+import { fp } from '@balancer-labs/v3-helpers/src/numbers';
+
+// Plain TS counterparts of the `ReClammPoolImmutableData` and `ReClammPoolDynamicData` structs returned by
+// `IReClammPoolExtension`. The typechain struct outputs of `getReClammPoolImmutableData` and
+// `getReClammPoolDynamicData` can be used directly wherever these types are expected.
+
+export type ReClammPoolImmutableData = {
+  // Base Pool
+  tokens: string[];
+  decimalScalingFactors: bigint[];
+  tokenAPriceIncludesRate: boolean;
+  tokenBPriceIncludesRate: boolean;
+  minSwapFeePercentage: bigint;
+  maxSwapFeePercentage: bigint;
+  // Initialization
+  initialMinPrice: bigint;
+  initialMaxPrice: bigint;
+  initialTargetPrice: bigint;
+  initialDailyPriceShiftExponent: bigint;
+  initialCenterednessMargin: bigint;
+  hookContract: string;
+  externalHookHasBeforeInitialize: boolean;
+  externalHookHasBeforeAddLiquidity: boolean;
+  externalHookHasBeforeRemoveLiquidity: boolean;
+  // Operating Limits
+  maxCenterednessMargin: bigint;
+  maxDailyPriceShiftExponent: bigint;
+  maxDailyPriceRatioUpdateRate: bigint;
+  minPriceRatioUpdateDuration: bigint;
+  minPriceRatioDelta: bigint;
+  balanceRatioAndPriceTolerance: bigint;
+};
+
+export type ReClammPoolDynamicData = {
+  // Base Pool
+  balancesLiveScaled18: bigint[];
+  tokenRates: bigint[];
+  staticSwapFeePercentage: bigint;
+  totalSupply: bigint;
+  // ReClamm
+  lastTimestamp: bigint;
+  lastVirtualBalances: bigint[];
+  dailyPriceShiftExponent: bigint;
+  dailyPriceShiftBase: bigint;
+  centerednessMargin: bigint;
+  currentPriceRatio: bigint;
+  currentFourthRootPriceRatio: bigint;
+  startFourthRootPriceRatio: bigint;
+  endFourthRootPriceRatio: bigint;
+  priceRatioUpdateStartTime: bigint;
+  priceRatioUpdateEndTime: bigint;
+  // Pool State
+  isPoolInitialized: boolean;
+  isPoolPaused: boolean;
+  isPoolInRecoveryMode: boolean;
+};
+
+// Operating limits hardcoded in `ReClammStorage` (and reported by `getReClammPoolImmutableData`).
+export const MIN_SWAP_FEE_PERCENTAGE = fp(0.00001); // 0.001%
+export const MAX_SWAP_FEE_PERCENTAGE = fp(0.1); // 10%
+export const MAX_CENTEREDNESS_MARGIN = fp(0.9); // 90%
+export const MAX_DAILY_PRICE_SHIFT_EXPONENT = fp(1); // 100%
+// `powUp(2e18, MAX_DAILY_PRICE_SHIFT_EXPONENT)`, as computed by the extension constructor.
+export const MAX_DAILY_PRICE_RATIO_UPDATE_RATE = fp(2);
+export const MIN_PRICE_RATIO_UPDATE_DURATION = 86400n; // 1 day
+export const MIN_PRICE_RATIO_DELTA = 1000000n;
+export const BALANCE_RATIO_AND_PRICE_TOLERANCE = fp(0.0001); // 0.01%
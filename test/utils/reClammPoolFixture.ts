@@ -0,0 +1,198 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { toBeHex } from 'ethers';
+import { deploy, deployedAt } from '@balancer-labs/v3-helpers/src/contract';
+import { Router } from '@balancer-labs/v3-vault/typechain-types/contracts/Router';
+import { ERC20TestToken } from '@balancer-labs/v3-solidity-utils/typechain-types/contracts/test/ERC20TestToken';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/dist/src/signer-with-address';
+import { FP_ZERO, fp } from '@balancer-labs/v3-helpers/src/numbers';
+import { MAX_UINT256, MAX_UINT160, MAX_UINT48, ZERO_ADDRESS } from '@balancer-labs/v3-helpers/src/constants';
+import * as VaultDeployer from '@balancer-labs/v3-helpers/src/models/vault/VaultDeployer';
+import { IVaultMock } from '@balancer-labs/v3-interfaces/typechain-types';
+import TypesConverter from '@balancer-labs/v3-helpers/src/models/types/TypesConverter';
+import { buildTokenConfig } from '@balancer-labs/v3-helpers/src/models/tokens/tokenConfig';
+import { actionId } from '@balancer-labs/v3-helpers/src/models/misc/actions';
+import { MONTH } from '@balancer-labs/v3-helpers/src/time';
+import * as expectEvent from '@balancer-labs/v3-helpers/src/test/expectEvent';
+import { sortAddresses } from '@balancer-labs/v3-helpers/src/models/tokens/sortingHelper';
+import { deployPermit2 } from '@balancer-labs/v3-vault/test/Permit2Deployer';
+import { IPermit2 } from '@balancer-labs/v3-vault/typechain-types/permit2/src/interfaces/IPermit2';
+import { ReClammPool, ReClammPoolExtension, ReClammPoolFactory } from '../../typechain-types';
+import { CreateTokenConfig, ReClammCreateParams } from './createParamsValidator';
+
+export const FACTORY_VERSION = 'ReClamm Pool Factory v1';
+export const POOL_VERSION = 'ReClamm Pool v1';
+export const ROUTER_VERSION = 'Router v11';
+
+export const POOL_SWAP_FEE = fp(0.01);
+export const TOKEN_AMOUNT = fp(100);
+
+export const INITIAL_BALANCE_A = TOKEN_AMOUNT;
+
+export const SWAP_FEE = fp(0.01); // 1%
+
+export const MIN_PRICE = fp(0.5);
+export const MAX_PRICE = fp(8);
+export const TARGET_PRICE = fp(3);
+
+// 100%. Price interval can double or reduce by half each day.
+export const PRICE_SHIFT_DAILY_RATE = fp(1);
+// 50%. If pool centeredness is less than margin, price interval will track the market price.
+export const CENTEREDNESS_MARGIN = fp(0.5);
+
+export type ReClammPoolFixture = {
+  permit2: IPermit2;
+  vault: IVaultMock;
+  factory: ReClammPoolFactory;
+  pool: ReClammPool;
+  extensionEntryPoint: ReClammPoolExtension;
+  router: Router;
+  alice: SignerWithAddress;
+  bob: SignerWithAddress;
+  tokenA: ERC20TestToken;
+  tokenB: ERC20TestToken;
+  poolTokens: string[];
+  tokenAAddress: string;
+  tokenBAddress: string;
+  tokenAIdx: number;
+  tokenBIdx: number;
+  initialBalances: bigint[];
+};
+
+export type CreatedReClammPool = {
+  pool: ReClammPool;
+  extensionEntryPoint: ReClammPoolExtension;
+};
+
+let saltCounter = 0;
+
+// Every pool gets a new salt, so that pools created by the same factory never collide.
+export function nextSalt(): string {
+  return toBeHex(saltCounter++, 32);
+}
+
+// Create params of a pool with standard tokens, and the default prices, swap fee, price shift exponent and margin.
+export function buildCreateParams(poolTokens: string[]): ReClammCreateParams {
+  return {
+    tokens: buildTokenConfig(poolTokens) as CreateTokenConfig[],
+    swapFeePercentage: SWAP_FEE,
+    priceParams: {
+      initialMinPrice: MIN_PRICE,
+      initialMaxPrice: MAX_PRICE,
+      initialTargetPrice: TARGET_PRICE,
+      tokenAPriceIncludesRate: false, // Do not consider rates in the price calculation for token A
+      tokenBPriceIncludesRate: false, // Do not consider rates in the price calculation for token B
+    },
+    dailyPriceShiftExponent: PRICE_SHIFT_DAILY_RATE,
+    centerednessMargin: CENTEREDNESS_MARGIN,
+  };
+}
+
+// Sends the create transaction without waiting for it (e.g., to check that it reverts).
+export function sendCreatePool(factory: ReClammPoolFactory, params: ReClammCreateParams, salt = nextSalt()) {
+  return factory.create(
+    'ReClammPool',
+    'Test',
+    params.tokens,
+    { pauseManager: ZERO_ADDRESS, swapFeeManager: ZERO_ADDRESS, poolCreator: ZERO_ADDRESS },
+    params.swapFeePercentage,
+    ZERO_ADDRESS, // no secondary hook contract
+    params.priceParams,
+    params.dailyPriceShiftExponent,
+    params.centerednessMargin,
+    salt
+  );
+}
+
+export async function createPool(
+  factory: ReClammPoolFactory,
+  params: ReClammCreateParams
+): Promise<CreatedReClammPool> {
+  const tx = await sendCreatePool(factory, params);
+  const event = expectEvent.inReceipt(await tx.wait(), 'PoolCreated');
+  const poolAddress = event.args.pool;
+
+  return {
+    pool: (await deployedAt('ReClammPool', poolAddress)) as unknown as ReClammPool,
+    extensionEntryPoint: (await deployedAt('ReClammPoolExtension', poolAddress)) as unknown as ReClammPoolExtension,
+  };
+}
+
+/**
+ * Deploys the Vault, a router, token A (18 decimals), token B (6 decimals) and the factory, and creates a pool with
+ * `buildCreateParams`. Bob initializes the pool with `INITIAL_BALANCE_A` of token A, keeps plenty of both tokens
+ * (approved to the router), and is allowed to set the static swap fee and to start price ratio updates.
+ */
+export async function deployReClammPoolFixture(): Promise<ReClammPoolFixture> {
+  const [, alice, bob] = await ethers.getSigners();
+
+  const vault = await TypesConverter.toIVaultMock(await VaultDeployer.deployMock());
+
+  const WETH = await deploy('v3-solidity-utils/WETHTestToken');
+  const permit2 = await deployPermit2();
+  const router: Router = await deploy('v3-vault/Router', { args: [vault, WETH, permit2, ROUTER_VERSION] });
+
+  const tokenA: ERC20TestToken = await deploy('v3-solidity-utils/ERC20TestToken', { args: ['Token A', 'TKN_A', 18] });
+  const tokenB: ERC20TestToken = await deploy('v3-solidity-utils/ERC20TestToken', { args: ['Token B', 'TKN_B', 6] });
+
+  const tokenAAddress = await tokenA.getAddress();
+  const tokenBAddress = await tokenB.getAddress();
+
+  const [tokenAIdx, tokenBIdx] = tokenAAddress.localeCompare(tokenBAddress) < 0 ? [0, 1] : [1, 0];
+
+  const factory: ReClammPoolFactory = await deploy('ReClammPoolFactory', {
+    args: [await vault.getAddress(), MONTH * 12, FACTORY_VERSION, POOL_VERSION],
+  });
+  const poolTokens = sortAddresses([tokenAAddress, tokenBAddress]);
+
+  const { pool, extensionEntryPoint } = await createPool(factory, buildCreateParams(poolTokens));
+
+  const initialBalances = [...(await pool.computeInitialBalancesRaw(tokenAAddress, INITIAL_BALANCE_A))];
+
+  await tokenA.mint(bob, 100n * TOKEN_AMOUNT);
+  await tokenB.mint(bob, 100n * TOKEN_AMOUNT);
+
+  await pool.connect(bob).approve(router, MAX_UINT256);
+
+  for (const token of [tokenA, tokenB]) {
+    await token.connect(bob).approve(permit2, MAX_UINT256);
+    await permit2.connect(bob).approve(token, router, MAX_UINT160, MAX_UINT48);
+  }
+
+  await expect(await router.connect(bob).initialize(pool, poolTokens, initialBalances, FP_ZERO, false, '0x'))
+    .to.emit(vault, 'PoolInitialized')
+    .withArgs(pool);
+
+  // Permission to set the pool swap fee.
+  const setPoolSwapFeeAction = await actionId(vault, 'setStaticSwapFeePercentage');
+
+  const authorizerAddress = await vault.getAuthorizer();
+  const authorizer = await deployedAt('v3-vault/BasicAuthorizerMock', authorizerAddress);
+
+  await authorizer.grantRole(setPoolSwapFeeAction, bob.address);
+
+  await vault.connect(bob).setStaticSwapFeePercentage(pool, POOL_SWAP_FEE);
+
+  // Permission to start a price ratio update.
+  const setPriceRatioAction = await actionId(pool, 'startPriceRatioUpdate');
+  await authorizer.grantRole(setPriceRatioAction, bob.address);
+
+  return {
+    permit2,
+    vault,
+    factory,
+    pool,
+    extensionEntryPoint,
+    router,
+    alice,
+    bob,
+    tokenA,
+    tokenB,
+    poolTokens,
+    tokenAAddress,
+    tokenBAddress,
+    tokenAIdx,
+    tokenBIdx,
+    initialBalances,
+  };
+}
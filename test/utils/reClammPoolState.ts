@@ -0,0 +1,250 @@
+import { BigNumberish, Result } from 'ethers';
+import { fpDivDown } from '@balancer-labs/v3-helpers/src/numbers';
+import {
+  computeCenteredness,
+  computeCurrentVirtualBalances,
+  computePriceRange,
+  computePriceRatio,
+  fourthRootScaled18,
+  isAboveCenter,
+  isPoolWithinTargetRange,
+  PriceRatioState,
+} from './reClammMath';
+import { ReClammPoolDynamicData, ReClammPoolImmutableData } from './reClammPoolData';
+
+// JSON representation of a pool snapshot: uints are encoded as decimal strings.
+export type ReClammPoolStateJSON = {
+  immutableData: Record<string, unknown>;
+  dynamicData: Record<string, unknown>;
+};
+
+type FieldKind = 'uint' | 'uint[]' | 'bool' | 'address' | 'address[]';
+
+// Field layouts of the structs. Keyed by every struct member, so that adding a member without updating these fails
+// to compile.
+const IMMUTABLE_DATA_FIELDS: Record<keyof ReClammPoolImmutableData, FieldKind> = {
+  tokens: 'address[]',
+  decimalScalingFactors: 'uint[]',
+  tokenAPriceIncludesRate: 'bool',
+  tokenBPriceIncludesRate: 'bool',
+  minSwapFeePercentage: 'uint',
+  maxSwapFeePercentage: 'uint',
+  initialMinPrice: 'uint',
+  initialMaxPrice: 'uint',
+  initialTargetPrice: 'uint',
+  initialDailyPriceShiftExponent: 'uint',
+  initialCenterednessMargin: 'uint',
+  hookContract: 'address',
+  externalHookHasBeforeInitialize: 'bool',
+  externalHookHasBeforeAddLiquidity: 'bool',
+  externalHookHasBeforeRemoveLiquidity: 'bool',
+  maxCenterednessMargin: 'uint',
+  maxDailyPriceShiftExponent: 'uint',
+  maxDailyPriceRatioUpdateRate: 'uint',
+  minPriceRatioUpdateDuration: 'uint',
+  minPriceRatioDelta: 'uint',
+  balanceRatioAndPriceTolerance: 'uint',
+};
+
+const DYNAMIC_DATA_FIELDS: Record<keyof ReClammPoolDynamicData, FieldKind> = {
+  balancesLiveScaled18: 'uint[]',
+  tokenRates: 'uint[]',
+  staticSwapFeePercentage: 'uint',
+  totalSupply: 'uint',
+  lastTimestamp: 'uint',
+  lastVirtualBalances: 'uint[]',
+  dailyPriceShiftExponent: 'uint',
+  dailyPriceShiftBase: 'uint',
+  centerednessMargin: 'uint',
+  currentPriceRatio: 'uint',
+  currentFourthRootPriceRatio: 'uint',
+  startFourthRootPriceRatio: 'uint',
+  endFourthRootPriceRatio: 'uint',
+  priceRatioUpdateStartTime: 'uint',
+  priceRatioUpdateEndTime: 'uint',
+  isPoolInitialized: 'bool',
+  isPoolPaused: 'bool',
+  isPoolInRecoveryMode: 'bool',
+};
+
+/**
+ * Offline model of a ReClamm pool. It is hydrated once (from the extension getters or a JSON snapshot), and then
+ * answers the `IReClammPoolExtension` views for any timestamp without further calls to the node.
+ *
+ * The views assume that nothing touched the pool after the snapshot: balances and last virtual balances are frozen,
+ * and only the time-dependent parts (price ratio updates and out-of-range price shifts) move. Pool balances are taken
+ * from `balancesLiveScaled18`, which match the balances the pool sees as long as token rates did not change.
+ */
+export class ReClammPoolState {
+  readonly immutableData: ReClammPoolImmutableData;
+  readonly dynamicData: ReClammPoolDynamicData;
+
+  constructor(dynamicData: ReClammPoolDynamicData, immutableData: ReClammPoolImmutableData) {
+    this.dynamicData = readPoolData(dynamicData, DYNAMIC_DATA_FIELDS);
+    this.immutableData = readPoolData(immutableData, IMMUTABLE_DATA_FIELDS);
+  }
+
+  // Accepts the typechain struct outputs of `getReClammPoolDynamicData` and `getReClammPoolImmutableData`.
+  static fromPoolData(dynamicData: ReClammPoolDynamicData, immutableData: ReClammPoolImmutableData): ReClammPoolState {
+    return new ReClammPoolState(dynamicData, immutableData);
+  }
+
+  static fromJSON(json: string | ReClammPoolStateJSON): ReClammPoolState {
+    const snapshot: ReClammPoolStateJSON = typeof json == 'string' ? JSON.parse(json) : json;
+
+    return new ReClammPoolState(
+      readPoolData(snapshot.dynamicData, DYNAMIC_DATA_FIELDS),
+      readPoolData(snapshot.immutableData, IMMUTABLE_DATA_FIELDS)
+    );
+  }
+
+  // Called by `JSON.stringify`, so that snapshots can be serialized directly.
+  toJSON(): ReClammPoolStateJSON {
+    return {
+      immutableData: writePoolData(this.immutableData, IMMUTABLE_DATA_FIELDS),
+      dynamicData: writePoolData(this.dynamicData, DYNAMIC_DATA_FIELDS),
+    };
+  }
+
+  get balancesScaled18(): bigint[] {
+    return this.dynamicData.balancesLiveScaled18;
+  }
+
+  get priceRatioState(): PriceRatioState {
+    return {
+      priceRatioUpdateStartTime: Number(this.dynamicData.priceRatioUpdateStartTime),
+      priceRatioUpdateEndTime: Number(this.dynamicData.priceRatioUpdateEndTime),
+      startFourthRootPriceRatio: this.dynamicData.startFourthRootPriceRatio,
+      endFourthRootPriceRatio: this.dynamicData.endFourthRootPriceRatio,
+    };
+  }
+
+  computeCurrentVirtualBalances(
+    timestamp: BigNumberish = currentUnixTimestamp()
+  ): [currentVirtualBalanceA: bigint, currentVirtualBalanceB: bigint, changed: boolean] {
+    const [virtualBalances, changed] = computeCurrentVirtualBalances(
+      this.balancesScaled18,
+      this.dynamicData.lastVirtualBalances,
+      this.dynamicData.dailyPriceShiftBase,
+      this.dynamicData.lastTimestamp,
+      timestamp,
+      this.dynamicData.centerednessMargin,
+      this.priceRatioState
+    );
+
+    return [virtualBalances[0], virtualBalances[1], changed];
+  }
+
+  computeCurrentPriceRatio(timestamp: BigNumberish = currentUnixTimestamp()): bigint {
+    const [virtualBalanceA, virtualBalanceB] = this.computeCurrentVirtualBalances(timestamp);
+
+    return computePriceRatio(this.balancesScaled18, virtualBalanceA, virtualBalanceB);
+  }
+
+  computeCurrentFourthRootPriceRatio(timestamp: BigNumberish = currentUnixTimestamp()): bigint {
+    return fourthRootScaled18(this.computeCurrentPriceRatio(timestamp));
+  }
+
+  computeCurrentPriceRange(timestamp: BigNumberish = currentUnixTimestamp()): [minPrice: bigint, maxPrice: bigint] {
+    if (this.dynamicData.isPoolInitialized == false) {
+      return [this.immutableData.initialMinPrice, this.immutableData.initialMaxPrice];
+    }
+
+    const [virtualBalanceA, virtualBalanceB] = this.computeCurrentVirtualBalances(timestamp);
+
+    return computePriceRange(this.balancesScaled18, virtualBalanceA, virtualBalanceB);
+  }
+
+  // Like the pool, uses the last virtual balances, so the result does not depend on the timestamp.
+  computeCurrentPoolCenteredness(): [centeredness: bigint, isPoolAboveCenter: boolean] {
+    return [
+      computeCenteredness(this.balancesScaled18, this.dynamicData.lastVirtualBalances),
+      isAboveCenter(this.balancesScaled18, this.dynamicData.lastVirtualBalances),
+    ];
+  }
+
+  computeCurrentSpotPrice(timestamp: BigNumberish = currentUnixTimestamp()): bigint {
+    const [virtualBalanceA, virtualBalanceB] = this.computeCurrentVirtualBalances(timestamp);
+
+    return fpDivDown(this.balancesScaled18[1] + virtualBalanceB, this.balancesScaled18[0] + virtualBalanceA);
+  }
+
+  // Like the pool, uses the last virtual balances, so the result does not depend on the timestamp.
+  isPoolWithinTargetRange(): boolean {
+    return isPoolWithinTargetRange(
+      this.balancesScaled18,
+      this.dynamicData.lastVirtualBalances,
+      this.dynamicData.centerednessMargin
+    );
+  }
+
+  isPoolWithinTargetRangeUsingCurrentVirtualBalances(
+    timestamp: BigNumberish = currentUnixTimestamp()
+  ): [isWithinTargetRange: boolean, virtualBalancesChanged: boolean] {
+    const [virtualBalanceA, virtualBalanceB, virtualBalancesChanged] = this.computeCurrentVirtualBalances(timestamp);
+
+    return [
+      isPoolWithinTargetRange(
+        this.balancesScaled18,
+        [virtualBalanceA, virtualBalanceB],
+        this.dynamicData.centerednessMargin
+      ),
+      virtualBalancesChanged,
+    ];
+  }
+}
+
+function currentUnixTimestamp(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+// Reads the struct members into a plain object. Works on typechain `Result` objects (whose members are only
+// reachable by name) as well as on parsed JSON snapshots.
+function readPoolData<T>(data: Result | Record<string, unknown>, fields: Record<keyof T, FieldKind>): T {
+  const members = data as Record<string, unknown>;
+  const poolData: Record<string, unknown> = {};
+
+  for (const [key, kind] of Object.entries<FieldKind>(fields)) {
+    const value = members[key];
+    if (value === undefined) {
+      throw new Error(`Missing pool data field: ${key}`);
+    }
+
+    switch (kind) {
+      case 'uint':
+        poolData[key] = BigInt(value as BigNumberish);
+        break;
+      case 'uint[]':
+        poolData[key] = Array.from(value as Iterable<BigNumberish>, (v) => BigInt(v));
+        break;
+      case 'address[]':
+        poolData[key] = Array.from(value as Iterable<string>);
+        break;
+      default:
+        poolData[key] = value;
+    }
+  }
+
+  return poolData as T;
+}
+
+function writePoolData<T>(data: T, fields: Record<keyof T, FieldKind>): Record<string, unknown> {
+  const json: Record<string, unknown> = {};
+
+  for (const [key, kind] of Object.entries<FieldKind>(fields)) {
+    const value = data[key as keyof T];
+
+    switch (kind) {
+      case 'uint':
+        json[key] = (value as bigint).toString();
+        break;
+      case 'uint[]':
+        json[key] = (value as bigint[]).map((v) => v.toString());
+        break;
+      default:
+        json[key] = value;
+    }
+  }
+
+  return json;
+}
@@ -0,0 +1,253 @@
+import { fp, fpMulDown } from '@balancer-labs/v3-helpers/src/numbers';
+import { computeInGivenOut, computeOutGivenIn, computeTheoreticalPriceRatioAndBalances, Rounding } from './reClammMath';
+import { createRandom, Random } from './random';
+
+const DEFAULT_STATES = 200;
+
+export type SwapKind = 'ExactIn' | 'ExactOut';
+
+export type RoundingAuditPath = {
+  kind: SwapKind;
+  tokenInIndex: number;
+  // Rounding of the amount calculated by the swap (the amount out for ExactIn, the amount in for ExactOut).
+  rounding: Rounding;
+};
+
+export type RoundingAuditState = {
+  balancesScaled18: bigint[];
+  virtualBalances: bigint[];
+};
+
+export type RoundingViolation = {
+  state: RoundingAuditState;
+  amountGivenScaled18: bigint;
+  amountCalculatedScaled18: bigint;
+  // Amount by which the swap favors the user over exact math (0 if it does not).
+  amountError: bigint;
+  // Decrease of the invariant across the swap, as an 18-decimal FP fraction of the invariant (rounded up).
+  invariantDecrease: bigint;
+};
+
+export type RoundingAuditPathReport = {
+  path: RoundingAuditPath;
+  swaps: number;
+  // Swaps rejected by the math (e.g., `AmountOutGreaterThanBalance`).
+  reverts: number;
+  // Swaps giving out more (ExactIn), or taking in less (ExactOut), than exact math.
+  amountViolations: number;
+  invariantViolations: number;
+  maxAmountError: bigint;
+  maxInvariantDecrease: bigint;
+  // Violation with the largest amount error (or invariant decrease, if no amount is off).
+  worstViolation?: RoundingViolation;
+};
+
+export type RoundingAuditReport = {
+  seed: number;
+  paths: RoundingAuditPathReport[];
+};
+
+export type RoundingAuditOptions = {
+  seed: number;
+  states?: number;
+  // Defaults to every swap kind and token in, with both rounding directions.
+  paths?: RoundingAuditPath[];
+};
+
+const ALL_PATHS: RoundingAuditPath[] = (['ExactIn', 'ExactOut'] as SwapKind[]).flatMap((kind) =>
+  [0, 1].flatMap((tokenInIndex) =>
+    [Rounding.ROUND_DOWN, Rounding.ROUND_UP].map((rounding) => ({ kind, tokenInIndex, rounding }))
+  )
+);
+
+/**
+ * Audits the rounding of the swap math on random pool states. Every path swaps the same random amounts, and is checked
+ * against exact (rational) math: a swap must never give out more, nor take in less, than the exact amount, and the
+ * invariant (computed without rounding) must never decrease across a swap. Paths using the contract's rounding must
+ * report no violations; the opposite rounding shows what the contract choices protect against.
+ */
+export function auditSwapRounding(options: RoundingAuditOptions): RoundingAuditReport {
+  const random = createRandom(options.seed);
+  const paths = options.paths ?? ALL_PATHS;
+  const reports: RoundingAuditPathReport[] = paths.map((path) => ({
+    path,
+    swaps: 0,
+    reverts: 0,
+    amountViolations: 0,
+    invariantViolations: 0,
+    maxAmountError: 0n,
+    maxInvariantDecrease: 0n,
+  }));
+
+  for (let i = 0; i < (options.states ?? DEFAULT_STATES); i++) {
+    const state = randomAuditState(random);
+    // The same amount is used for every rounding, so that the paths are compared on equal terms.
+    const amountsGiven = [0, 1].map((tokenInIndex) => ({
+      ExactIn: randomAmount(random, state.balancesScaled18[tokenInIndex] * 2n),
+      ExactOut: randomAmount(random, state.balancesScaled18[1 - tokenInIndex]),
+    }));
+
+    paths.forEach((path, j) => {
+      auditSwap(reports[j], state, amountsGiven[path.tokenInIndex][path.kind]);
+    });
+  }
+
+  return { seed: options.seed, paths: reports };
+}
+
+export function formatRoundingAuditPath(path: RoundingAuditPath): string {
+  const swap = path.kind == 'ExactIn' ? 'computeOutGivenIn' : 'computeInGivenOut';
+  const tokens = path.tokenInIndex == 0 ? 'A->B' : 'B->A';
+
+  return `${swap} ${tokens} ${Rounding[path.rounding]}`;
+}
+
+export function formatRoundingAuditReport(report: RoundingAuditReport): string {
+  const lines = [`Rounding audit (seed ${report.seed})`];
+
+  for (const pathReport of report.paths) {
+    const { swaps, reverts, amountViolations, invariantViolations } = pathReport;
+    lines.push(
+      `  ${formatRoundingAuditPath(pathReport.path)}: ${swaps} swaps, ${reverts} reverts, ` +
+        `${amountViolations} amount violations (max ${pathReport.maxAmountError} wei), ` +
+        `${invariantViolations} invariant violations (max ${pathReport.maxInvariantDecrease} fp)`
+    );
+
+    const violation = pathReport.worstViolation;
+    if (violation !== undefined) {
+      lines.push(
+        `    worst: balances [${violation.state.balancesScaled18.join(', ')}], ` +
+          `virtual balances [${violation.state.virtualBalances.join(', ')}], ` +
+          `given ${violation.amountGivenScaled18}, calculated ${violation.amountCalculatedScaled18}`
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function auditSwap(report: RoundingAuditPathReport, state: RoundingAuditState, amountGivenScaled18: bigint) {
+  const { kind, tokenInIndex, rounding } = report.path;
+  const tokenOutIndex = 1 - tokenInIndex;
+  const { balancesScaled18, virtualBalances } = state;
+  const totalIn = balancesScaled18[tokenInIndex] + virtualBalances[tokenInIndex];
+  const totalOut = balancesScaled18[tokenOutIndex] + virtualBalances[tokenOutIndex];
+
+  let amountCalculatedScaled18: bigint;
+  try {
+    amountCalculatedScaled18 =
+      kind == 'ExactIn'
+        ? computeOutGivenIn(
+            balancesScaled18,
+            virtualBalances,
+            tokenInIndex,
+            tokenOutIndex,
+            amountGivenScaled18,
+            rounding
+          )
+        : computeInGivenOut(
+            balancesScaled18,
+            virtualBalances,
+            tokenInIndex,
+            tokenOutIndex,
+            amountGivenScaled18,
+            rounding
+          );
+  } catch {
+    report.reverts++;
+    return;
+  }
+  report.swaps++;
+
+  const [amountIn, amountOut] =
+    kind == 'ExactIn'
+      ? [amountGivenScaled18, amountCalculatedScaled18]
+      : [amountCalculatedScaled18, amountGivenScaled18];
+
+  // Exact amounts: Ao = To * Ai / (Ti + Ai) and Ai = Ti * Ao / (To - Ao), where T are the total (real + virtual)
+  // balances. The error is the distance to the exact amount, rounded up to a whole wei.
+  let amountError: bigint;
+  if (kind == 'ExactIn') {
+    const numerator = totalOut * amountIn;
+    const denominator = totalIn + amountIn;
+    amountError = amountOut * denominator > numerator ? amountOut - numerator / denominator : 0n;
+  } else {
+    const numerator = totalIn * amountOut;
+    const denominator = totalOut - amountOut;
+    amountError = amountIn * denominator < numerator ? ceilDiv(numerator, denominator) - amountIn : 0n;
+  }
+
+  // The virtual balances do not change within a swap, so the invariant is (Ti + Ai) * (To - Ao).
+  const invariantBefore = totalIn * totalOut;
+  const invariantAfter = (totalIn + amountIn) * (totalOut - amountOut);
+  const invariantDecrease =
+    invariantAfter < invariantBefore ? ceilDiv((invariantBefore - invariantAfter) * fp(1), invariantBefore) : 0n;
+
+  if (amountError == 0n && invariantDecrease == 0n) {
+    return;
+  }
+
+  if (amountError > 0n) {
+    report.amountViolations++;
+  }
+  if (invariantDecrease > 0n) {
+    report.invariantViolations++;
+  }
+
+  const violation = { state, amountGivenScaled18, amountCalculatedScaled18, amountError, invariantDecrease };
+  const worst = report.worstViolation;
+  if (
+    worst === undefined ||
+    amountError > worst.amountError ||
+    (amountError == worst.amountError && invariantDecrease > worst.invariantDecrease)
+  ) {
+    report.worstViolation = violation;
+  }
+
+  report.maxAmountError = amountError > report.maxAmountError ? amountError : report.maxAmountError;
+  report.maxInvariantDecrease =
+    invariantDecrease > report.maxInvariantDecrease ? invariantDecrease : report.maxInvariantDecrease;
+}
+
+// Pools over a wide range of prices and sizes (down to a few wei of liquidity, where rounding matters most), moved
+// away from the center by a random swap.
+function randomAuditState(random: Random): RoundingAuditState {
+  const minPrice = random.nextBigInt(fp(0.001), fp(1000));
+  const maxPrice = fpMulDown(minPrice, random.nextBigInt(fp(1.01), fp(1000)));
+  const targetPrice = random.nextBigInt(fpMulDown(minPrice, fp(1.001)), fpMulDown(maxPrice, fp(0.999)));
+
+  const { realBalances, virtualBalances } = computeTheoreticalPriceRatioAndBalances(minPrice, maxPrice, targetPrice);
+  const liquidityFactor = random.nextBigInt(1n, 10n ** BigInt(random.nextInt(1, 21)));
+  const state = {
+    balancesScaled18: realBalances.map((balance) => fpMulDown(balance, liquidityFactor)),
+    virtualBalances: virtualBalances.map((balance) => fpMulDown(balance, liquidityFactor)),
+  };
+
+  const tokenInIndex = random.nextInt(0, 1);
+  const amountIn = randomAmount(random, state.balancesScaled18[tokenInIndex] * 2n);
+  try {
+    const amountOut = computeOutGivenIn(
+      state.balancesScaled18,
+      state.virtualBalances,
+      tokenInIndex,
+      1 - tokenInIndex,
+      amountIn
+    );
+    state.balancesScaled18[tokenInIndex] += amountIn;
+    state.balancesScaled18[1 - tokenInIndex] -= amountOut;
+  } catch {
+    // The swap would drain the pool; keep it at the target price.
+  }
+
+  return state;
+}
+
+// Amounts of any magnitude up to `max`, so that small amounts (dominated by rounding) are as likely as large ones.
+function randomAmount(random: Random, max: bigint): bigint {
+  const magnitude = 10n ** BigInt(random.nextInt(0, max.toString().length));
+  return random.nextBigInt(0n, magnitude < max ? magnitude : max);
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return a == 0n ? 0n : (a - 1n) / b + 1n;
+}
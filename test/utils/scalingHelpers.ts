@@ -0,0 +1,26 @@
+import { FP_ONE, fpDivDown, fpDivUp, fpMulDown, fpMulUp } from '@balancer-labs/v3-helpers/src/numbers';
+
+// Port of the Vault `ScalingHelpers` library. Decimal scaling factors are `10^(18 - decimals)`, as returned by
+// `IVault.getPoolTokenRates`.
+
+export function toScaled18ApplyRateRoundDown(amount: bigint, scalingFactor: bigint, tokenRate: bigint): bigint {
+  return fpMulDown(amount * scalingFactor, tokenRate);
+}
+
+export function toScaled18ApplyRateRoundUp(amount: bigint, scalingFactor: bigint, tokenRate: bigint): bigint {
+  return fpMulUp(amount * scalingFactor, tokenRate);
+}
+
+export function toRawUndoRateRoundDown(amount: bigint, scalingFactor: bigint, tokenRate: bigint): bigint {
+  return fpDivDown(amount, scalingFactor * tokenRate);
+}
+
+export function toRawUndoRateRoundUp(amount: bigint, scalingFactor: bigint, tokenRate: bigint): bigint {
+  return fpDivUp(amount, scalingFactor * tokenRate);
+}
+
+// Rates that are not whole numbers are rounded up by one wei, so that scaling amounts out favors the Vault.
+export function computeRateRoundUp(rate: bigint): bigint {
+  const roundedRate = (rate / FP_ONE) * FP_ONE;
+  return roundedRate == rate ? rate : rate + 1n;
+}
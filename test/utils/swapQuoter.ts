@@ -0,0 +1,252 @@
+import { BigNumberish } from 'ethers';
+import { bn, FP_ONE, fpMulUp } from '@balancer-labs/v3-helpers/src/numbers';
+import { computeCurrentVirtualBalances, computeInGivenOut, computeOutGivenIn, mulDivUp } from './reClammMath';
+import { ReClammPoolDynamicData, ReClammPoolImmutableData } from './reClammPoolData';
+import {
+  computeRateRoundUp,
+  toRawUndoRateRoundDown,
+  toRawUndoRateRoundUp,
+  toScaled18ApplyRateRoundDown,
+  toScaled18ApplyRateRoundUp,
+} from './scalingHelpers';
+
+// Default `minTradeAmount` of Vault deployments (applied to scaled18 amounts).
+export const DEFAULT_MINIMUM_TRADE_AMOUNT = bn(1e6);
+
+export type SwapQuoteOptions = {
+  // Timestamp of the block in which the swap would be executed; defaults to the current time.
+  timestamp?: BigNumberish;
+  minimumTradeAmount?: bigint;
+};
+
+export type SwapQuote = {
+  amountInRaw: bigint;
+  amountOutRaw: bigint;
+  // Amounts as seen by the pool math. For ExactIn, the scaled18 amount in excludes the swap fee.
+  amountInScaled18: bigint;
+  amountOutScaled18: bigint;
+  swapFeePercentage: bigint;
+  // Swap fees are always charged in token in.
+  swapFeeAmountScaled18: bigint;
+  swapFeeAmountRaw: bigint;
+  // Virtual balances used by `onSwap` (i.e., after applying the time-dependent updates).
+  virtualBalances: bigint[];
+};
+
+type SwapContext = {
+  indexIn: number;
+  indexOut: number;
+  virtualBalances: bigint[];
+  minimumTradeAmount: bigint;
+};
+
+/**
+ * Quotes an ExactIn swap the way the Vault executes it: the raw amount in is scaled (rounding down), the swap fee is
+ * deducted from it, the pool math runs with the virtual balances of the given timestamp, and the amount out is
+ * converted back to raw (rounding down, with the rate rounded up). The result matches
+ * `Router.querySwapSingleTokenExactIn`, provided the pool has no external hook that alters swaps or fees.
+ */
+export function quoteSwapExactIn(
+  dynamicData: ReClammPoolDynamicData,
+  immutableData: ReClammPoolImmutableData,
+  tokenIn: string,
+  tokenOut: string,
+  exactAmountInRaw: bigint,
+  options: SwapQuoteOptions = {}
+): SwapQuote {
+  const { indexIn, indexOut, virtualBalances, minimumTradeAmount } = loadSwapContext(
+    dynamicData,
+    immutableData,
+    tokenIn,
+    tokenOut,
+    exactAmountInRaw,
+    options
+  );
+
+  const swapFeePercentage = dynamicData.staticSwapFeePercentage;
+
+  const amountGivenScaled18 = toScaled18ApplyRateRoundDown(
+    exactAmountInRaw,
+    immutableData.decimalScalingFactors[indexIn],
+    dynamicData.tokenRates[indexIn]
+  );
+
+  // Round up to avoid losses during precision loss.
+  const swapFeeAmountScaled18 = fpMulUp(amountGivenScaled18, swapFeePercentage);
+  const amountInScaled18 = amountGivenScaled18 - swapFeeAmountScaled18;
+
+  ensureValidSwapAmount(amountInScaled18, minimumTradeAmount);
+
+  const amountOutScaled18 = computeOutGivenIn(
+    dynamicData.balancesLiveScaled18,
+    virtualBalances,
+    indexIn,
+    indexOut,
+    amountInScaled18
+  );
+
+  ensureValidSwapAmount(amountOutScaled18, minimumTradeAmount);
+
+  return {
+    amountInRaw: exactAmountInRaw,
+    amountOutRaw: toRawUndoRateRoundDown(
+      amountOutScaled18,
+      immutableData.decimalScalingFactors[indexOut],
+      computeRateRoundUp(dynamicData.tokenRates[indexOut])
+    ),
+    amountInScaled18,
+    amountOutScaled18,
+    swapFeePercentage,
+    swapFeeAmountScaled18,
+    swapFeeAmountRaw: computeSwapFeeAmountRaw(swapFeeAmountScaled18, dynamicData, immutableData, indexIn),
+    virtualBalances,
+  };
+}
+
+/**
+ * Quotes an ExactOut swap the way the Vault executes it: the raw amount out is scaled (rounding up, with the rate
+ * rounded up), the pool math runs with the virtual balances of the given timestamp, the swap fee is added on top of
+ * the calculated amount in, and the result is converted back to raw (rounding up). The result matches
+ * `Router.querySwapSingleTokenExactOut`, provided the pool has no external hook that alters swaps or fees.
+ */
+export function quoteSwapExactOut(
+  dynamicData: ReClammPoolDynamicData,
+  immutableData: ReClammPoolImmutableData,
+  tokenIn: string,
+  tokenOut: string,
+  exactAmountOutRaw: bigint,
+  options: SwapQuoteOptions = {}
+): SwapQuote {
+  const { indexIn, indexOut, virtualBalances, minimumTradeAmount } = loadSwapContext(
+    dynamicData,
+    immutableData,
+    tokenIn,
+    tokenOut,
+    exactAmountOutRaw,
+    options
+  );
+
+  const swapFeePercentage = dynamicData.staticSwapFeePercentage;
+
+  const amountOutScaled18 = toScaled18ApplyRateRoundUp(
+    exactAmountOutRaw,
+    immutableData.decimalScalingFactors[indexOut],
+    computeRateRoundUp(dynamicData.tokenRates[indexOut])
+  );
+
+  ensureValidSwapAmount(amountOutScaled18, minimumTradeAmount);
+
+  const amountInScaled18 = computeInGivenOut(
+    dynamicData.balancesLiveScaled18,
+    virtualBalances,
+    indexIn,
+    indexOut,
+    amountOutScaled18
+  );
+
+  ensureValidSwapAmount(amountInScaled18, minimumTradeAmount);
+
+  // To ensure symmetry with ExactIn, the swap fee is `amountIn * fee% / (100% - fee%)`, rounding up.
+  const swapFeeAmountScaled18 = mulDivUp(amountInScaled18, swapFeePercentage, FP_ONE - swapFeePercentage);
+
+  return {
+    amountInRaw: toRawUndoRateRoundUp(
+      amountInScaled18 + swapFeeAmountScaled18,
+      immutableData.decimalScalingFactors[indexIn],
+      dynamicData.tokenRates[indexIn]
+    ),
+    amountOutRaw: exactAmountOutRaw,
+    amountInScaled18,
+    amountOutScaled18,
+    swapFeePercentage,
+    swapFeeAmountScaled18,
+    swapFeeAmountRaw: computeSwapFeeAmountRaw(swapFeeAmountScaled18, dynamicData, immutableData, indexIn),
+    virtualBalances,
+  };
+}
+
+function loadSwapContext(
+  dynamicData: ReClammPoolDynamicData,
+  immutableData: ReClammPoolImmutableData,
+  tokenIn: string,
+  tokenOut: string,
+  amountGivenRaw: bigint,
+  options: SwapQuoteOptions
+): SwapContext {
+  if (dynamicData.isPoolInitialized == false) {
+    throw new Error('PoolNotInitialized');
+  }
+
+  if (dynamicData.isPoolPaused) {
+    throw new Error('PoolPaused');
+  }
+
+  if (amountGivenRaw == 0n) {
+    throw new Error('AmountGivenZero');
+  }
+
+  const indexIn = findTokenIndex(immutableData.tokens, tokenIn);
+  const indexOut = findTokenIndex(immutableData.tokens, tokenOut);
+
+  if (indexIn == indexOut) {
+    throw new Error('CannotSwapSameToken');
+  }
+
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+
+  const [virtualBalances] = computeCurrentVirtualBalances(
+    dynamicData.balancesLiveScaled18,
+    dynamicData.lastVirtualBalances,
+    dynamicData.dailyPriceShiftBase,
+    dynamicData.lastTimestamp,
+    timestamp,
+    dynamicData.centerednessMargin,
+    {
+      priceRatioUpdateStartTime: Number(dynamicData.priceRatioUpdateStartTime),
+      priceRatioUpdateEndTime: Number(dynamicData.priceRatioUpdateEndTime),
+      startFourthRootPriceRatio: dynamicData.startFourthRootPriceRatio,
+      endFourthRootPriceRatio: dynamicData.endFourthRootPriceRatio,
+    }
+  );
+
+  return {
+    indexIn,
+    indexOut,
+    virtualBalances,
+    minimumTradeAmount: options.minimumTradeAmount ?? DEFAULT_MINIMUM_TRADE_AMOUNT,
+  };
+}
+
+function findTokenIndex(tokens: string[], token: string): number {
+  const index = tokens.findIndex((poolToken) => poolToken.toLowerCase() == token.toLowerCase());
+
+  if (index < 0) {
+    throw new Error('TokenNotRegistered');
+  }
+
+  return index;
+}
+
+function ensureValidSwapAmount(amountScaled18: bigint, minimumTradeAmount: bigint) {
+  if (amountScaled18 < minimumTradeAmount) {
+    throw new Error('TradeAmountTooSmall');
+  }
+}
+
+// The Vault reports (and splits) the swap fee in raw token in units, rounding down.
+function computeSwapFeeAmountRaw(
+  swapFeeAmountScaled18: bigint,
+  dynamicData: ReClammPoolDynamicData,
+  immutableData: ReClammPoolImmutableData,
+  indexIn: number
+): bigint {
+  if (swapFeeAmountScaled18 == 0n) {
+    return 0n;
+  }
+
+  return toRawUndoRateRoundDown(
+    swapFeeAmountScaled18,
+    immutableData.decimalScalingFactors[indexIn],
+    dynamicData.tokenRates[indexIn]
+  );
+}
@@ -0,0 +1,386 @@
+import { FP_ONE, fpMulDown } from '@balancer-labs/v3-helpers/src/numbers';
+import { TimelineEvent } from './eventTimeline';
+import { simulateInitialization } from './initializationPlanner';
+import { fourthRootScaled18 } from './reClammMath';
+import { ReClammPoolDynamicData, ReClammPoolImmutableData } from './reClammPoolData';
+import { ReClammPoolState } from './reClammPoolState';
+import { toScaled18ApplyRateRoundDown } from './scalingHelpers';
+
+export type TimelineReplayOptions = {
+  // Rates of the pool tokens, assumed constant over the whole history; default to `FP_ONE`.
+  tokenRates?: bigint[];
+  // Protocol and creator share of swap fees, which leaves the pool balances; defaults to zero. The aggregate fee is
+  // computed from the `Swap` event amounts, so it may be off by rounding.
+  aggregateSwapFeePercentage?: bigint;
+};
+
+// Operation that made the pool emit `VirtualBalancesUpdated`.
+export type VirtualBalancesUpdateCause = 'initialize' | 'addLiquidity' | 'removeLiquidity' | 'update';
+
+export type TimelineDivergence = {
+  // `mismatch`: the emitted virtual balances differ from the model. `missing`: the model expected the virtual balances
+  // to change, but the pool did not emit `VirtualBalancesUpdated` (reported at the `LastTimestampUpdated` event).
+  kind: 'mismatch' | 'missing';
+  cause: VirtualBalancesUpdateCause;
+  event: TimelineEvent;
+  timestamp: bigint;
+  expectedVirtualBalances: bigint[];
+  // Undefined if the event is missing.
+  emittedVirtualBalances?: bigint[];
+  // Model of the pool right before the event.
+  stateBefore: ReClammPoolState;
+  // Events of the same transaction, up to and including the divergent one.
+  transactionEvents: TimelineEvent[];
+  // Last event of the previous transaction of the pool, if any.
+  previousEvent?: TimelineEvent;
+};
+
+export type TimelineBlockState = {
+  blockNumber: number;
+  timestamp: bigint;
+  state: ReClammPoolState;
+};
+
+export type TimelineReplay = {
+  pool: string;
+  // Number of `VirtualBalancesUpdated` events reproduced by the model.
+  checkedVirtualBalancesUpdates: number;
+  // Model of the pool at the end of every block with pool events, up to the divergence (if any).
+  blockStates: TimelineBlockState[];
+  divergence?: TimelineDivergence;
+};
+
+// Mutable pool state while replaying; everything else is derived from it.
+type ReplayState = {
+  isPoolInitialized: boolean;
+  balancesRaw: bigint[];
+  totalSupply: bigint;
+  swapFeePercentage: bigint;
+  lastTimestamp: bigint;
+  lastVirtualBalances: bigint[];
+  dailyPriceShiftExponent: bigint;
+  dailyPriceShiftBase: bigint;
+  centerednessMargin: bigint;
+  startFourthRootPriceRatio: bigint;
+  endFourthRootPriceRatio: bigint;
+  priceRatioUpdateStartTime: bigint;
+  priceRatioUpdateEndTime: bigint;
+};
+
+/**
+ * Rebuilds the state of a pool from its timeline (see `eventTimeline`), transaction by transaction, with the TS model.
+ * Every `VirtualBalancesUpdated` event is checked against the virtual balances the model computes for the operation
+ * that emitted it (initialization, proportional add or remove, or a swap / parameter update), and so is the absence
+ * of the event when the model expects the virtual balances to change. Replaying stops at the first divergence.
+ *
+ * The timeline must start with the initialization of the pool. Apart from the events, the model only needs the
+ * immutable data of the pool and its token rates.
+ */
+export function replayTimeline(
+  events: TimelineEvent[],
+  immutableData: ReClammPoolImmutableData,
+  options: TimelineReplayOptions = {}
+): TimelineReplay {
+  const tokenRates = options.tokenRates ?? [FP_ONE, FP_ONE];
+  const aggregateSwapFeePercentage = options.aggregateSwapFeePercentage ?? 0n;
+  const pool = events.length > 0 ? events[0].pool : '';
+
+  if (events.some((event) => event.pool.toLowerCase() != pool.toLowerCase())) {
+    throw new Error('Timeline must contain the events of a single pool');
+  }
+
+  const replay: TimelineReplay = { pool, checkedVirtualBalancesUpdates: 0, blockStates: [] };
+  const state: ReplayState = {
+    isPoolInitialized: false,
+    balancesRaw: [0n, 0n],
+    totalSupply: 0n,
+    swapFeePercentage: 0n,
+    lastTimestamp: 0n,
+    lastVirtualBalances: [0n, 0n],
+    dailyPriceShiftExponent: 0n,
+    dailyPriceShiftBase: 0n,
+    centerednessMargin: 0n,
+    startFourthRootPriceRatio: 0n,
+    endFourthRootPriceRatio: 0n,
+    priceRatioUpdateStartTime: 0n,
+    priceRatioUpdateEndTime: 0n,
+  };
+  const toPoolState = (timestamp: bigint) => buildPoolState(state, immutableData, tokenRates, timestamp);
+
+  let previousEvent: TimelineEvent | undefined;
+
+  for (const transactionEvents of groupByTransaction(events)) {
+    const timestamp = getTransactionTimestamp(transactionEvents);
+    // Whether `VirtualBalancesUpdated` was emitted since the last `LastTimestampUpdated` of the transaction.
+    let virtualBalancesUpdated = false;
+
+    for (const [i, event] of transactionEvents.entries()) {
+      const args = event.args;
+
+      switch (event.event) {
+        case 'VirtualBalancesUpdated': {
+          const stateBefore = toPoolState(timestamp);
+          const [cause, expectedVirtualBalances] = computeExpectedVirtualBalances(
+            stateBefore,
+            immutableData,
+            tokenRates,
+            transactionEvents.slice(i + 1),
+            timestamp
+          );
+          const emittedVirtualBalances = [args.virtualBalanceA as bigint, args.virtualBalanceB as bigint];
+
+          if (
+            expectedVirtualBalances[0] != emittedVirtualBalances[0] ||
+            expectedVirtualBalances[1] != emittedVirtualBalances[1]
+          ) {
+            replay.divergence = {
+              kind: 'mismatch',
+              cause,
+              event,
+              timestamp,
+              expectedVirtualBalances,
+              emittedVirtualBalances,
+              stateBefore,
+              transactionEvents: transactionEvents.slice(0, i + 1),
+              previousEvent,
+            };
+            return replay;
+          }
+
+          replay.checkedVirtualBalancesUpdates++;
+          state.lastVirtualBalances = emittedVirtualBalances;
+          virtualBalancesUpdated = true;
+          break;
+        }
+        case 'LastTimestampUpdated': {
+          // Add and remove liquidity always emit `VirtualBalancesUpdated`, so only swaps and updates can skip it.
+          if (state.isPoolInitialized && virtualBalancesUpdated == false) {
+            const stateBefore = toPoolState(timestamp);
+            const [virtualBalanceA, virtualBalanceB, changed] = stateBefore.computeCurrentVirtualBalances(timestamp);
+
+            if (changed) {
+              replay.divergence = {
+                kind: 'missing',
+                cause: 'update',
+                event,
+                timestamp,
+                expectedVirtualBalances: [virtualBalanceA, virtualBalanceB],
+                stateBefore,
+                transactionEvents: transactionEvents.slice(0, i + 1),
+                previousEvent,
+              };
+              return replay;
+            }
+          }
+
+          state.lastTimestamp = args.lastTimestamp as bigint;
+          virtualBalancesUpdated = false;
+          break;
+        }
+        case 'PriceRatioStateUpdated':
+          state.startFourthRootPriceRatio = args.startFourthRootPriceRatio as bigint;
+          state.endFourthRootPriceRatio = args.endFourthRootPriceRatio as bigint;
+          state.priceRatioUpdateStartTime = args.priceRatioUpdateStartTime as bigint;
+          state.priceRatioUpdateEndTime = args.priceRatioUpdateEndTime as bigint;
+          break;
+        case 'DailyPriceShiftExponentUpdated':
+          state.dailyPriceShiftExponent = args.dailyPriceShiftExponent as bigint;
+          state.dailyPriceShiftBase = args.dailyPriceShiftBase as bigint;
+          break;
+        case 'CenterednessMarginUpdated':
+          state.centerednessMargin = args.centerednessMargin as bigint;
+          break;
+        case 'Swap': {
+          const indexIn = getTokenIndex(immutableData, args.tokenIn as string);
+          const indexOut = getTokenIndex(immutableData, args.tokenOut as string);
+          const aggregateSwapFeeAmount = fpMulDown(args.swapFeeAmount as bigint, aggregateSwapFeePercentage);
+
+          state.balancesRaw[indexIn] += (args.amountIn as bigint) - aggregateSwapFeeAmount;
+          state.balancesRaw[indexOut] -= args.amountOut as bigint;
+          state.swapFeePercentage = args.swapFeePercentage as bigint;
+          break;
+        }
+        case 'LiquidityAdded':
+          // The pool only allows proportional adds and removes, which do not charge swap fees.
+          (args.amountsAddedRaw as bigint[]).forEach((amount, i) => (state.balancesRaw[i] += amount));
+          state.totalSupply = args.totalSupply as bigint;
+          state.isPoolInitialized = true;
+          break;
+        case 'LiquidityRemoved':
+          (args.amountsRemovedRaw as bigint[]).forEach((amount, i) => (state.balancesRaw[i] -= amount));
+          state.totalSupply = args.totalSupply as bigint;
+          break;
+      }
+    }
+
+    previousEvent = transactionEvents[transactionEvents.length - 1];
+
+    const blockState = { blockNumber: previousEvent.blockNumber, timestamp, state: toPoolState(timestamp) };
+    const lastBlockState = replay.blockStates[replay.blockStates.length - 1];
+    if (lastBlockState !== undefined && lastBlockState.blockNumber == blockState.blockNumber) {
+      replay.blockStates[replay.blockStates.length - 1] = blockState;
+    } else {
+      replay.blockStates.push(blockState);
+    }
+  }
+
+  return replay;
+}
+
+export function formatTimelineDivergence(divergence: TimelineDivergence): string {
+  const { event, stateBefore } = divergence;
+  const { dynamicData } = stateBefore;
+  const formatEvent = (e: TimelineEvent) =>
+    `    ${e.event} (block ${e.blockNumber}, log ${e.logIndex}): ` +
+    Object.entries(e.args)
+      .map(([name, value]) => `${name}=${Array.isArray(value) ? `[${value.join(', ')}]` : value}`)
+      .join(', ');
+
+  const lines = [
+    `Divergence (${divergence.kind}) in ${divergence.cause} of pool ${event.pool}`,
+    `  Transaction: ${event.transactionHash} (block ${event.blockNumber}, timestamp ${divergence.timestamp})`,
+    `  Expected virtual balances: ${divergence.expectedVirtualBalances.join(', ')}`,
+    `  Emitted virtual balances:  ${divergence.emittedVirtualBalances?.join(', ') ?? 'none'}`,
+    '  Model before the event:',
+    `    balancesLiveScaled18: ${dynamicData.balancesLiveScaled18.join(', ')}`,
+    `    lastVirtualBalances: ${dynamicData.lastVirtualBalances.join(', ')}`,
+    `    lastTimestamp: ${dynamicData.lastTimestamp}`,
+    `    totalSupply: ${dynamicData.totalSupply}`,
+    `    dailyPriceShiftBase: ${dynamicData.dailyPriceShiftBase}`,
+    `    centerednessMargin: ${dynamicData.centerednessMargin}`,
+    `    priceRatioState: ${dynamicData.startFourthRootPriceRatio} -> ${dynamicData.endFourthRootPriceRatio}` +
+      ` (${dynamicData.priceRatioUpdateStartTime} - ${dynamicData.priceRatioUpdateEndTime})`,
+    '  Previous transaction:',
+    divergence.previousEvent === undefined ? '    none' : formatEvent(divergence.previousEvent),
+    '  Transaction events:',
+    ...divergence.transactionEvents.map(formatEvent),
+  ];
+
+  return lines.join('\n');
+}
+
+// Mirrors the pool: initialization scales the theoretical virtual balances, proportional adds and removes scale the
+// current virtual balances by the total supply (rounding down), and anything else just updates them.
+function computeExpectedVirtualBalances(
+  stateBefore: ReClammPoolState,
+  immutableData: ReClammPoolImmutableData,
+  tokenRates: bigint[],
+  followingEvents: TimelineEvent[],
+  timestamp: bigint
+): [VirtualBalancesUpdateCause, bigint[]] {
+  // The Vault emits the liquidity events after calling the pool hooks.
+  const liquidityEvent = followingEvents.find(
+    (event) => event.event == 'LiquidityAdded' || event.event == 'LiquidityRemoved'
+  );
+
+  if (stateBefore.dynamicData.isPoolInitialized == false) {
+    if (liquidityEvent === undefined || liquidityEvent.event != 'LiquidityAdded') {
+      throw new Error(`Timeline does not start with the initialization of the pool ${liquidityEvent?.pool ?? ''}`);
+    }
+
+    const { virtualBalances } = simulateInitialization(
+      immutableData,
+      tokenRates,
+      liquidityEvent.args.amountsAddedRaw as bigint[]
+    );
+    return ['initialize', virtualBalances];
+  }
+
+  const [virtualBalanceA, virtualBalanceB] = stateBefore.computeCurrentVirtualBalances(timestamp);
+
+  if (liquidityEvent === undefined) {
+    return ['update', [virtualBalanceA, virtualBalanceB]];
+  }
+
+  const totalSupply = stateBefore.dynamicData.totalSupply;
+  const newTotalSupply = liquidityEvent.args.totalSupply as bigint;
+
+  return [
+    liquidityEvent.event == 'LiquidityAdded' ? 'addLiquidity' : 'removeLiquidity',
+    [(virtualBalanceA * newTotalSupply) / totalSupply, (virtualBalanceB * newTotalSupply) / totalSupply],
+  ];
+}
+
+function buildPoolState(
+  state: ReplayState,
+  immutableData: ReClammPoolImmutableData,
+  tokenRates: bigint[],
+  timestamp: bigint
+): ReClammPoolState {
+  const dynamicData: ReClammPoolDynamicData = {
+    balancesLiveScaled18: state.balancesRaw.map((balance, i) =>
+      toScaled18ApplyRateRoundDown(balance, immutableData.decimalScalingFactors[i], tokenRates[i])
+    ),
+    tokenRates,
+    staticSwapFeePercentage: state.swapFeePercentage,
+    totalSupply: state.totalSupply,
+    lastTimestamp: state.lastTimestamp,
+    lastVirtualBalances: [...state.lastVirtualBalances],
+    dailyPriceShiftExponent: state.dailyPriceShiftExponent,
+    dailyPriceShiftBase: state.dailyPriceShiftBase,
+    centerednessMargin: state.centerednessMargin,
+    currentPriceRatio: 0n,
+    currentFourthRootPriceRatio: 0n,
+    startFourthRootPriceRatio: state.startFourthRootPriceRatio,
+    endFourthRootPriceRatio: state.endFourthRootPriceRatio,
+    priceRatioUpdateStartTime: state.priceRatioUpdateStartTime,
+    priceRatioUpdateEndTime: state.priceRatioUpdateEndTime,
+    isPoolInitialized: state.isPoolInitialized,
+    // Not part of the timeline.
+    isPoolPaused: false,
+    isPoolInRecoveryMode: false,
+  };
+
+  if (state.isPoolInitialized == false) {
+    return new ReClammPoolState(dynamicData, immutableData);
+  }
+
+  // The current price ratio depends on the rest of the state, so compute it in a second pass.
+  const currentPriceRatio = new ReClammPoolState(dynamicData, immutableData).computeCurrentPriceRatio(timestamp);
+
+  return new ReClammPoolState(
+    { ...dynamicData, currentPriceRatio, currentFourthRootPriceRatio: fourthRootScaled18(currentPriceRatio) },
+    immutableData
+  );
+}
+
+// Splits the (ordered) timeline into the events of each transaction.
+function groupByTransaction(events: TimelineEvent[]): TimelineEvent[][] {
+  const transactions: TimelineEvent[][] = [];
+
+  for (const event of events) {
+    const lastTransaction = transactions[transactions.length - 1];
+
+    if (lastTransaction !== undefined && lastTransaction[0].transactionHash == event.transactionHash) {
+      lastTransaction.push(event);
+    } else {
+      transactions.push([event]);
+    }
+  }
+
+  return transactions;
+}
+
+// Every pool operation updates the last timestamp, which is the most reliable source of the block timestamp.
+function getTransactionTimestamp(transactionEvents: TimelineEvent[]): bigint {
+  const lastTimestampUpdated = transactionEvents.find((event) => event.event == 'LastTimestampUpdated');
+  if (lastTimestampUpdated !== undefined) {
+    return lastTimestampUpdated.args.lastTimestamp as bigint;
+  }
+
+  const blockTimestamp = transactionEvents[0].blockTimestamp;
+  if (blockTimestamp === undefined) {
+    throw new Error(`Unknown timestamp of transaction ${transactionEvents[0].transactionHash}`);
+  }
+
+  return blockTimestamp;
+}
+
+function getTokenIndex(immutableData: ReClammPoolImmutableData, token: string): number {
+  const index = immutableData.tokens.findIndex((poolToken) => poolToken.toLowerCase() == token.toLowerCase());
+  if (index == -1) {
+    throw new Error('InvalidToken');
+  }
+
+  return index;
+}